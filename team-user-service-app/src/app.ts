@@ -1,11 +1,39 @@
 // src/app.ts
 import express, { Application, Request, Response} from 'express';
-import { env } from './config/env.config';
+import helmet from 'helmet';
+import cors from 'cors';
+import morgan from 'morgan';
+import { env, corsOrigins } from './config/env.config';
+import { logger } from './utils/logger.utils';
+import apiRoutes from './routes';
+import { notFoundHandler, errorHandler } from './middleware/error.middleware';
 
 const app: Application = express();
 
+// --- Security ---
+if (env.HELMET_ENABLED) {
+  app.use(helmet());
+}
+
+app.use(cors({
+  origin: corsOrigins,
+  credentials: env.CORS_CREDENTIALS,
+}));
+
+// --- Request logging ---
+if (env.REQUEST_LOG_FORMAT !== 'off') {
+  app.use(morgan(env.REQUEST_LOG_FORMAT, {
+    stream: { write: (message: string) => logger.info(message.trim()) },
+    skip: (req: Request) => req.path === '/health',
+  }));
+}
+
 // --- Middleware ---
-app.use(express.json());
+app.use(express.json({
+  limit: env.JSON_BODY_LIMIT,
+  // Keep the raw bytes for HMAC verification of internal service requests
+  verify: (req: Request, res, buf: Buffer) => { req.rawBody = buf; },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 
@@ -20,5 +48,13 @@ app.get('/health', (req: Request, res: Response) => {
 });
 
 
+// --- Routes ---
+app.use(`/api/${env.API_VERSION}`, apiRoutes);
+
+
+// --- Error handling (must come last) ---
+app.use(notFoundHandler);
+app.use(errorHandler);
+
 
 export default app;
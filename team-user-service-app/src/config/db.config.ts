@@ -7,6 +7,7 @@ const logger = createLogger('database');
 class DatabaseManager {
   private static instance: DatabaseManager;
   private isConnected: boolean = false;
+  private transactionsSupported?: boolean;
   private connectionAttempts: number = 0;
   private readonly maxRetries: number = 5;
   private readonly initialRetryDelay: number = 1000; // 1 second
@@ -120,6 +121,35 @@ class DatabaseManager {
     }
   }
 
+  /**
+   * Change streams need a replica set (or a sharded cluster via mongos).
+   * A standalone server rejects them.
+   */
+  public async supportsChangeStreams(): Promise<boolean> {
+    if (!this.isConnected || !mongoose.connection.db) {
+      return false;
+    }
+
+    try {
+      const hello = await mongoose.connection.db.admin().command({ hello: 1 });
+      return !!hello.setName || hello.msg === 'isdbgrid';
+    } catch (error:any) {
+      logger.warn('⚠️ Could not determine MongoDB topology:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Multi-document transactions need the same topology as change
+   * streams. Checked once per process.
+   */
+  public async supportsTransactions(): Promise<boolean> {
+    if (this.transactionsSupported === undefined && this.isConnected) {
+      this.transactionsSupported = await this.supportsChangeStreams();
+    }
+    return this.transactionsSupported ?? false;
+  }
+
   public getConnectionState(): string {
     return mongoose.connection.readyState === 1 ? 'connected' : 'disconnected';
   }
@@ -14,6 +14,45 @@ export const env = cleanEnv(process.env, {
 
   // Internal Service Security
   INTERNAL_SERVICE_SECRET: str(), // Additional layer for internal service-to-service communication
+  INTERNAL_AUTH_MAX_SKEW_SEC: num({ default: 300 }), // How old a signed internal request may be
+
+  // JWT verification (tokens are issued by the auth service)
+  JWT_JWKS_URI: str({ default: '' }),      // URL of the auth service's JWKS document
+  JWT_JWKS_PATH: str({ default: '' }),     // ...or a local JWKS file (takes precedence)
+  JWT_ISSUER: str({ default: '' }),
+  JWT_AUDIENCE: str({ default: '' }),
+  JWT_ALGORITHMS: str({ default: 'RS256,ES256' }),
+  JWT_CLOCK_TOLERANCE_SEC: num({ default: 30 }),
+  JWKS_REFRESH_INTERVAL_MS: num({ default: 10 * 60 * 1000 }),
+
+  // Authorization caches (TTL 0 disables a cache)
+  PERMISSION_CACHE_TTL_MS: num({ default: 60 * 1000 }),
+  MEMBERSHIP_CACHE_TTL_MS: num({ default: 30 * 1000 }),
+  MEMBERSHIP_CACHE_MAX_ENTRIES: num({ default: 10000 }),
+  CACHE_CHANGE_STREAMS_ENABLED: bool({ default: true }), // Cross-instance invalidation (needs a replica set)
+
+  // Authorization decision log (fractions of decisions written to authz_decisions)
+  AUTHZ_DECISION_SAMPLE_RATE: num({ default: 0.01 }),        // Allowed decisions
+  AUTHZ_DENIED_DECISION_SAMPLE_RATE: num({ default: 1 }),    // Denied decisions
+  AUTHZ_DECISION_RETENTION_DAYS: num({ default: 30 }),
+
+  // Auth service (user profiles are copied from here)
+  AUTH_SERVICE_URL: str({ default: 'http://localhost:4000' }),
+  USER_PROFILE_REFRESH_SEC: num({ default: 15 * 60 }), // Older local copies are refreshed in the background
+  AUTH_SERVICE_TIMEOUT_MS: num({ default: 2000 }),      // Per attempt
+  AUTH_SERVICE_RETRIES: num({ default: 2 }),            // Extra attempts for idempotent calls
+  AUTH_SERVICE_RETRY_BASE_MS: num({ default: 100 }),    // Backoff doubles per attempt, with full jitter
+  AUTH_SERVICE_BREAKER_THRESHOLD: num({ default: 5 }),  // Consecutive failures that open the circuit
+  AUTH_SERVICE_BREAKER_RESET_MS: num({ default: 30 * 1000 }), // How long it stays open before a trial call
+  USER_PROFILE_CACHE_TTL_MS: num({ default: 60 * 1000 }),     // In-process cache in front of user_profiles
+  USER_PROFILE_CACHE_MAX_ENTRIES: num({ default: 10000 }),
+  USER_BATCH_MAX_IDS: num({ default: 100 }),            // POST /users/batch
+  USER_BATCH_CONCURRENCY: num({ default: 5 }),          // Parallel auth service calls per batch
+
+  // Team invitations
+  INVITATION_TTL_HOURS: num({ default: 7 * 24 }),
+  INVITATION_ACCEPT_URL: str({ default: 'http://localhost:3000/invitations' }), // Link sent out is <this>/<token>
+  INVITATION_OUTBOX_PATH: str({ default: './logs/invitations.jsonl' }),         // Used until a real notifier is plugged in
 
   // Database
   MONGODB_URI: str(),
@@ -21,6 +60,13 @@ export const env = cleanEnv(process.env, {
   MONGODB_POOL_SIZE: num({ default: 10 }),
   MONGODB_CONNECTION_TIMEOUT: num({ default: 30000 }),
 
+  // HTTP
+  CORS_ORIGINS: str({ default: '*' }), // Comma-separated list of allowed origins, or '*'
+  CORS_CREDENTIALS: bool({ default: false }),
+  HELMET_ENABLED: bool({ default: true }),
+  REQUEST_LOG_FORMAT: str({ default: 'combined', devDefault: 'dev' }), // Any morgan format; 'off' disables request logging
+  JSON_BODY_LIMIT: str({ default: '100kb' }),
+
   // Logs
 
   LOG_LEVEL: str({default:'info'}),
@@ -38,6 +84,29 @@ export const env = cleanEnv(process.env, {
     process.exit(1);
   }
 
+  // JWT key material is mandatory in production
+  if (env.NODE_ENV === 'production' && !env.JWT_JWKS_URI && !env.JWT_JWKS_PATH) {
+    console.error('JWT_JWKS_URI or JWT_JWKS_PATH must be set in production');
+    process.exit(1);
+  }
+
+  // Sample rates are fractions
+  for (const name of ['AUTHZ_DECISION_SAMPLE_RATE', 'AUTHZ_DENIED_DECISION_SAMPLE_RATE'] as const) {
+    if (env[name] < 0 || env[name] > 1) {
+      console.error(`${name} must be between 0 and 1`);
+      process.exit(1);
+    }
+  }
+
+  // Only asymmetric algorithms: we hold public keys, never the signing secret
+  const invalidAlgorithms = env.JWT_ALGORITHMS.split(',')
+    .map(alg => alg.trim())
+    .filter(alg => alg && !/^(RS|PS|ES)(256|384|512)$/.test(alg));
+  if (invalidAlgorithms.length > 0) {
+    console.error(`JWT_ALGORITHMS contains unsupported algorithms: ${invalidAlgorithms.join(', ')}`);
+    process.exit(1);
+  }
+
   console.info('Environment configuration validated successfully');
 })();
 
@@ -48,6 +117,15 @@ export const isDevelopment = env.NODE_ENV === 'development';
 export const isProduction = env.NODE_ENV === 'production';
 export const isTest = env.NODE_ENV === 'test';
 
+export const corsOrigins = env.CORS_ORIGINS === '*'
+  ? '*'
+  : env.CORS_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean);
+
+export const jwtAlgorithms = env.JWT_ALGORITHMS
+  .split(',')
+  .map(alg => alg.trim())
+  .filter(Boolean);
+
 export const mongoOptions = {
   dbName: env.MONGODB_DB_NAME,
   maxPoolSize: 10,
@@ -0,0 +1,190 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs/promises';
+import axios from 'axios';
+import { createLogger } from '../utils/logger.utils';
+import { env, isProduction } from './env.config';
+
+const logger = createLogger('jwks');
+
+interface JsonWebKey {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+interface SigningKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+/**
+ * Holds the auth service's public signing keys.
+ *
+ * Keys are loaded from a JWKS document (file path or URL), cached in memory
+ * and refreshed in the background so the auth service can rotate its
+ * signing keys without us redeploying. A token signed with a kid we have
+ * not seen yet triggers an early refresh.
+ */
+class JwksManager {
+  private static instance: JwksManager;
+  private keys: Map<string, SigningKey> = new Map();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private inflightRefresh: Promise<void> | null = null;
+  private lastRefreshAt: number = 0;
+  // Don't let a flood of tokens with unknown kids hammer the JWKS endpoint
+  private readonly minRefreshInterval: number = 30 * 1000;
+
+  private constructor() {}
+
+  public static getInstance(): JwksManager {
+    if (!JwksManager.instance) {
+      JwksManager.instance = new JwksManager();
+    }
+    return JwksManager.instance;
+  }
+
+  public isConfigured(): boolean {
+    return !!(env.JWT_JWKS_URI || env.JWT_JWKS_PATH);
+  }
+
+  /**
+   * Load the key set and start background refresh.
+   * Throws in production if no usable key could be loaded.
+   */
+  public async initialize(): Promise<void> {
+    if (!this.isConfigured()) {
+      if (isProduction) {
+        throw new Error('No JWT key material configured: set JWT_JWKS_URI or JWT_JWKS_PATH');
+      }
+      logger.warn('⚠️ No JWKS configured - all bearer tokens will be rejected');
+      return;
+    }
+
+    await this.refresh();
+
+    if (this.keys.size === 0 && isProduction) {
+      throw new Error('JWKS contains no usable signing keys');
+    }
+
+    this.startBackgroundRefresh();
+  }
+
+  private startBackgroundRefresh(): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(() => undefined);
+    }, env.JWKS_REFRESH_INTERVAL_MS);
+
+    // Never keep the process alive just for key refresh
+    this.refreshTimer.unref();
+  }
+
+  public stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Re-read the JWKS document. On failure the previous key set stays in use.
+   * Concurrent callers share a single in-flight refresh.
+   */
+  public async refresh(): Promise<void> {
+    if (this.inflightRefresh) {
+      return this.inflightRefresh;
+    }
+
+    this.inflightRefresh = (async () => {
+      try {
+        const document = await this.fetchDocument();
+        const keys = this.parseKeys(document);
+
+        this.keys = keys;
+        this.lastRefreshAt = Date.now();
+        logger.info(`🔑 Loaded ${keys.size} JWT signing key(s)`);
+      } catch (error: any) {
+        this.lastRefreshAt = Date.now();
+        logger.error('❌ Failed to refresh JWKS, keeping previous keys', { error: error.message });
+        throw error;
+      } finally {
+        this.inflightRefresh = null;
+      }
+    })();
+
+    return this.inflightRefresh;
+  }
+
+  private async fetchDocument(): Promise<{ keys?: JsonWebKey[] }> {
+    if (env.JWT_JWKS_PATH) {
+      const raw = await fs.readFile(env.JWT_JWKS_PATH, 'utf8');
+      return JSON.parse(raw);
+    }
+
+    const response = await axios.get(env.JWT_JWKS_URI, { timeout: 5000 });
+    return response.data;
+  }
+
+  private parseKeys(document: { keys?: JsonWebKey[] }): Map<string, SigningKey> {
+    const keys = new Map<string, SigningKey>();
+
+    if (!document || !Array.isArray(document.keys)) {
+      throw new Error('JWKS document has no "keys" array');
+    }
+
+    document.keys.forEach((jwk, index) => {
+      // Only signature keys of the asymmetric types we accept
+      if (jwk.use && jwk.use !== 'sig') return;
+      if (jwk.kty !== 'RSA' && jwk.kty !== 'EC') return;
+
+      try {
+        const key = crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+        keys.set(jwk.kid || `__index_${index}`, { kid: jwk.kid, alg: jwk.alg, key });
+      } catch (error: any) {
+        logger.warn(`⚠️ Skipping unparseable JWK ${jwk.kid || index}`, { error: error.message });
+      }
+    });
+
+    return keys;
+  }
+
+  /**
+   * Get the verification key for a token's kid.
+   *
+   * Tokens without a kid are only accepted when the key set has exactly one key.
+   * An unknown kid triggers a (rate-limited) refresh in case keys were rotated.
+   */
+  public async getKey(kid?: string, alg?: string): Promise<KeyObject> {
+    let signingKey = this.findKey(kid);
+
+    if (!signingKey && this.isConfigured() && Date.now() - this.lastRefreshAt > this.minRefreshInterval) {
+      await this.refresh().catch(() => undefined);
+      signingKey = this.findKey(kid);
+    }
+
+    if (!signingKey) {
+      throw new Error(kid ? `Unknown signing key '${kid}'` : 'Token has no kid');
+    }
+
+    if (signingKey.alg && alg && signingKey.alg !== alg) {
+      throw new Error(`Key '${kid}' is not valid for algorithm ${alg}`);
+    }
+
+    return signingKey.key;
+  }
+
+  private findKey(kid?: string): SigningKey | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+}
+
+export const jwksManager = JwksManager.getInstance();
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { listAuditEvents, verifyAuditChain } from '../services/audit.service';
+import { AuditAction } from '../models/AuditEvent.model';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Audit Controller
+ *
+ * Read-only access to the audit log of administrative changes.
+ * There are deliberately no endpoints that modify events.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseInteger(value: unknown): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+// ============================================
+// AUDIT EVENT ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/audit-events
+ *
+ * List audit events, newest first
+ *
+ * @access Internal services, or users with the permissions:admin scope
+ * @query actor_id - Only changes made by this user or service
+ * @query action - e.g. 'membership.role_changed'
+ * @query target_type, target_id - e.g. 'user' and a user id
+ * @query team_id - Only changes within this team
+ * @query from, to - ISO timestamps; from inclusive, to exclusive
+ * @query limit - Page size (default 50, max 200)
+ * @query before - next_cursor from the previous page
+ */
+export async function listEvents(req: Request, res: Response) {
+  try {
+    const action = queryString(req.query.action);
+
+    if (action && !Object.values(AuditAction).includes(action as AuditAction)) {
+      return res.status(400).json({
+        status: 'error',
+        message: `Invalid action. Must be one of: ${Object.values(AuditAction).join(', ')}`
+      });
+    }
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+
+    if (from === null || to === null) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'from and to must be ISO 8601 timestamps'
+      });
+    }
+
+    const page = await listAuditEvents({
+      actorId: queryString(req.query.actor_id),
+      action,
+      targetType: queryString(req.query.target_type),
+      targetId: queryString(req.query.target_id),
+      teamId: queryString(req.query.team_id),
+      from,
+      to,
+      limit: parseInteger(req.query.limit),
+      before: parseInteger(req.query.before)
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Audit events retrieved successfully',
+      data: {
+        events: page.events,
+        count: page.events.length,
+        next_cursor: page.next_cursor
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST AUDIT EVENTS ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve audit events',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * GET /api/v1/audit-events/verify
+ *
+ * Recompute the hash chain to detect tampering
+ *
+ * @access Internal services, or users with the permissions:admin scope
+ * @query from - First sequence number to check (default 1)
+ * @query limit - Number of events to check (default and max 10000)
+ */
+export async function verifyChain(req: Request, res: Response) {
+  try {
+    const verification = await verifyAuditChain(
+      parseInteger(req.query.from),
+      parseInteger(req.query.limit)
+    );
+
+    return res.status(200).json({
+      status: 'success',
+      message: verification.valid
+        ? 'Audit chain verified'
+        : `Audit chain is broken at sequence ${verification.broken_at}`,
+      data: verification
+    });
+
+  } catch (error) {
+    console.error('[VERIFY AUDIT CHAIN ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to verify audit chain',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  listEvents,
+  verifyChain
+};
@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import {
+  decidePermissions,
+  explainUserPermission,
+  PermissionDecision,
+  PermissionDecisionRequest
+} from '../services/permission.service';
+import {
+  queryDecisions,
+  saveDecision,
+  shouldSampleDecision
+} from '../services/authz.decision.service';
+import { DecisionSource } from '../models/AuthzDecision.model';
+import { buildEnvironmentAttributes } from '../utils/condition.utils';
+import { getRequestId } from '../utils/logger.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Authorization Controller
+ *
+ * Decision endpoints for other AIMA services that need to ask
+ * "can user X do Y on team Z?" without re-implementing our role model,
+ * and the log of sampled decisions for admins investigating a denial.
+ *
+ * Decision endpoints are internal only!
+ */
+
+// Upper bound on tuples per request, to keep one call from monopolising the database
+export const MAX_DECISIONS_PER_REQUEST = 100;
+
+function isDecisionRequest(value: any): value is PermissionDecisionRequest {
+  return !!value
+    && typeof value.subject === 'string' && value.subject.length > 0
+    && typeof value.team === 'string' && value.team.length > 0
+    && typeof value.permission === 'string' && value.permission.length > 0
+    && (value.attributes === undefined
+      || (typeof value.attributes === 'object' && value.attributes !== null && !Array.isArray(value.attributes)));
+}
+
+/**
+ * Persist the sampled share of a batch. Sampling happens first, so
+ * decisions that were not explained are only explained if they are kept.
+ */
+async function recordSampledDecisions(decisions: PermissionDecision[], requestId: string): Promise<void> {
+  const sampled = decisions.filter(d => d.reason !== 'error' && shouldSampleDecision(d.allowed));
+
+  for (const decision of sampled) {
+    const explanation = decision.explanation ?? await explainUserPermission(
+      decision.subject,
+      decision.team,
+      decision.permission,
+      {
+        principal: { id: decision.subject, type: 'user' },
+        resource: decision.attributes,
+        env: buildEnvironmentAttributes()
+      }
+    );
+    saveDecision(explanation, { source: DecisionSource.BATCH, requestId });
+  }
+}
+
+// ============================================
+// DECISION ENDPOINTS
+// ============================================
+
+/**
+ * POST /api/v1/authz/decisions
+ *
+ * Decide a batch of permission checks
+ *
+ * @access Internal services only
+ * @query explain - 'true' to attach an explanation to each decision
+ * @body {
+ *   decisions: Array<{
+ *     subject: string,
+ *     team: string,
+ *     permission: string,
+ *     attributes?: object   // resource attributes for conditional grants
+ *   }>
+ * }
+ * @returns One { subject, team, permission, allowed, reason, role } per tuple, in order.
+ *          Denials by a conditional grant carry failed_conditions.
+ */
+export async function decideBatch(req: Request, res: Response) {
+  try {
+    const { decisions } = req.body ?? {};
+
+    if (!Array.isArray(decisions) || decisions.length === 0) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'decisions must be a non-empty array'
+      });
+    }
+
+    if (decisions.length > MAX_DECISIONS_PER_REQUEST) {
+      return res.status(400).json({
+        status: 'error',
+        message: `At most ${MAX_DECISIONS_PER_REQUEST} decisions can be requested at once`
+      });
+    }
+
+    const invalidIndex = decisions.findIndex(d => !isDecisionRequest(d));
+    if (invalidIndex !== -1) {
+      return res.status(400).json({
+        status: 'error',
+        message: `decisions[${invalidIndex}] must have string subject, team and permission fields ` +
+          `(and attributes, if given, must be an object)`
+      });
+    }
+
+    const requests: PermissionDecisionRequest[] = decisions.map((d: PermissionDecisionRequest) => ({
+      subject: d.subject,
+      team: d.team,
+      permission: d.permission,
+      attributes: d.attributes
+    }));
+
+    const explain = req.query.explain === 'true';
+    const results = await decidePermissions(requests, { explain });
+
+    // Off the response path; a failure here only loses log entries
+    recordSampledDecisions(results, getRequestId(req)).catch(error => {
+      console.error('[AUTHZ DECISIONS ERROR] Failed to record sampled decisions', error);
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Permission decisions completed',
+      data: {
+        decisions: results,
+        count: results.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[AUTHZ DECISIONS ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to decide permissions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// DECISION LOG ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/authz/decisions
+ *
+ * Query sampled decisions, newest first
+ *
+ * @access Internal services, or users with the permissions:admin scope
+ * @query user_id - Only decisions about this user
+ * @query team_id - Only decisions on this team
+ * @query outcome - 'allowed' or 'denied'
+ * @query permission - Only decisions for this permission name
+ * @query limit - Page size (default 50, max 200)
+ * @query before - next_cursor from the previous page
+ */
+export async function listDecisions(req: Request, res: Response) {
+  try {
+    const { user_id, team_id, outcome, permission, limit, before } = req.query;
+
+    if (outcome !== undefined && outcome !== 'allowed' && outcome !== 'denied') {
+      return res.status(400).json({
+        status: 'error',
+        message: "outcome must be 'allowed' or 'denied'"
+      });
+    }
+
+    const page = await queryDecisions({
+      userId: typeof user_id === 'string' ? user_id : undefined,
+      teamId: typeof team_id === 'string' ? team_id : undefined,
+      allowed: outcome === undefined ? undefined : outcome === 'allowed',
+      permission: typeof permission === 'string' ? permission : undefined,
+      limit: limit === undefined ? undefined : Number(limit),
+      before: typeof before === 'string' ? before : undefined
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Authorization decisions retrieved successfully',
+      data: {
+        decisions: page.decisions,
+        count: page.decisions.length,
+        next_cursor: page.next_cursor
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST AUTHZ DECISIONS ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve authorization decisions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  decideBatch,
+  listDecisions
+};
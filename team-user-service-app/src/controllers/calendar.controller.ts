@@ -0,0 +1,223 @@
+import { Request, Response } from 'express';
+import {
+  createFeed,
+  listFeeds,
+  revokeFeed,
+  resolveFeedToken,
+  renderFeed
+} from '../services/calendar.service';
+import { env } from '../config/env.config';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Calendar Controller
+ *
+ * Serves on-call .ics feeds to calendar apps (authenticated by the token
+ * in the URL), and lets users manage their feed URLs.
+ */
+
+// ============================================
+// HELPERS
+// ============================================
+
+function feedUrl(req: Request, token: string): string {
+  return `${req.protocol}://${req.get('host')}/api/${env.API_VERSION}/calendar/${token}.ics`;
+}
+
+// ============================================
+// FEED
+// ============================================
+
+/**
+ * GET /api/v1/calendar/:token.ics
+ *
+ * The iCalendar feed behind a subscription URL
+ *
+ * @access Anyone holding the URL (no JWT; calendar apps can't send one)
+ */
+export async function getCalendarFeed(req: Request, res: Response) {
+  try {
+    const { token } = req.params;
+
+    const feed = await resolveFeedToken(token);
+
+    // Unknown and revoked tokens look the same
+    if (!feed) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Calendar feed not found'
+      });
+    }
+
+    const calendar = await renderFeed(feed);
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="oncall.ics"');
+    res.set('Cache-Control', 'private, max-age=300');
+    return res.status(200).send(calendar);
+
+  } catch (error) {
+    console.error('[GET CALENDAR FEED ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to render calendar feed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// FEED MANAGEMENT
+// ============================================
+
+/**
+ * GET /api/v1/users/me/calendar-feeds
+ *
+ * List my active calendar feeds (without their URLs)
+ *
+ * @access Authenticated users
+ */
+export async function listMyFeeds(req: Request, res: Response) {
+  try {
+    const feeds = await listFeeds(req.principal!.id);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Calendar feeds retrieved successfully',
+      data: {
+        feeds,
+        count: feeds.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST CALENDAR FEEDS ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve calendar feeds',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/users/me/calendar-feeds
+ *
+ * Create a calendar feed URL. The URL is only returned here; keep it.
+ *
+ * @access Authenticated users (team feeds: members of the team)
+ * @body {
+ *   type: 'user' | 'team',   // my shifts, or all of a team's shifts
+ *   team_id?: string,        // required for team feeds
+ *   name?: string            // calendar name shown in the app
+ * }
+ */
+export async function createMyFeed(req: Request, res: Response) {
+  try {
+    const { type, team_id, name } = req.body;
+
+    if (!type) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required field: type'
+      });
+    }
+
+    const { feed, token } = await createFeed(req.principal!.id, { type, teamId: team_id, name });
+
+    createLogger(getRequestId(req), req.principal?.id).userEvent('CALENDAR_FEED_CREATED', req.principal!.id, {
+      feedId: feed.feed_id,
+      type: feed.type,
+      teamId: team_id
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: 'Calendar feed created. Save the URL now; it will not be shown again.',
+      data: {
+        feed,
+        url: feedUrl(req, token)
+      }
+    });
+
+  } catch (error) {
+    console.error('[CREATE CALENDAR FEED ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create calendar feed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/users/me/calendar-feeds/:feedId
+ *
+ * Revoke a calendar feed; subscribed apps stop receiving updates
+ *
+ * @access Authenticated users (their own feeds)
+ */
+export async function revokeMyFeed(req: Request, res: Response) {
+  try {
+    const { feedId } = req.params;
+
+    const revoked = await revokeFeed(req.principal!.id, feedId);
+
+    if (!revoked) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Calendar feed ${feedId} not found`
+      });
+    }
+
+    createLogger(getRequestId(req), req.principal?.id).userEvent('CALENDAR_FEED_REVOKED', req.principal!.id, {
+      feedId
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Calendar feed revoked successfully',
+      data: { feed_id: feedId }
+    });
+
+  } catch (error) {
+    console.error('[REVOKE CALENDAR FEED ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to revoke calendar feed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  getCalendarFeed,
+  listMyFeeds,
+  createMyFeed,
+  revokeMyFeed
+};
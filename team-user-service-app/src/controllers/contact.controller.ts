@@ -0,0 +1,447 @@
+import { Request, Response } from 'express';
+import {
+  listContactMethods,
+  addContactMethod,
+  updateContactMethod,
+  removeContactMethod,
+  setContactMethodVerified,
+  listNotificationRules,
+  addNotificationRule,
+  updateNotificationRule,
+  removeNotificationRule
+} from '../services/contact.service';
+import { NotificationUrgency } from '../models/NotificationRule.model';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Contact Controller
+ *
+ * Handles HTTP requests for users' contact methods and notification
+ * rules: users manage their own under /users/me, and internal services
+ * (the notification pipeline) read anyone's under /users/:id.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * The user a request is about: /users/:id for internal services,
+ * otherwise the caller (/users/me)
+ */
+function subjectUserId(req: Request): string {
+  return req.params.id ?? req.principal!.id;
+}
+
+// ============================================
+// CONTACT METHOD ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/users/me/contact-methods
+ * GET /api/v1/users/:id/contact-methods
+ *
+ * List a user's contact methods
+ *
+ * @access The user themselves (/me); internal services (/:id)
+ */
+export async function listUserContactMethods(req: Request, res: Response) {
+  try {
+    const contactMethods = await listContactMethods(subjectUserId(req));
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Contact methods retrieved successfully',
+      data: {
+        contact_methods: contactMethods,
+        count: contactMethods.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST CONTACT METHODS ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve contact methods',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/users/me/contact-methods
+ *
+ * Add a contact method. It starts out unverified.
+ *
+ * @access Authenticated users
+ * @body {
+ *   type: 'email' | 'sms' | 'voice' | 'push' | 'webhook',
+ *   address: string,     // email, E.164 phone number, push token or https URL
+ *   label?: string
+ * }
+ */
+export async function addMyContactMethod(req: Request, res: Response) {
+  try {
+    const { type, address, label } = req.body;
+
+    if (!type || !address) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: type and address are required'
+      });
+    }
+
+    const contactMethod = await addContactMethod(req.principal!.id, { type, address, label });
+
+    createLogger(getRequestId(req), req.principal?.id).userEvent('CONTACT_METHOD_ADDED', req.principal!.id, {
+      contactMethodId: contactMethod.contact_method_id,
+      type
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: 'Contact method added successfully',
+      data: { contact_method: contactMethod }
+    });
+
+  } catch (error) {
+    console.error('[ADD CONTACT METHOD ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to add contact method',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PUT /api/v1/users/me/contact-methods/:methodId
+ *
+ * Change a contact method's address or label. A new address has to be
+ * verified again.
+ *
+ * @access Authenticated users
+ * @body { address?: string, label?: string }
+ */
+export async function updateMyContactMethod(req: Request, res: Response) {
+  try {
+    const { methodId } = req.params;
+    const { address, label } = req.body;
+
+    const contactMethod = await updateContactMethod(req.principal!.id, methodId, { address, label });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Contact method updated successfully',
+      data: { contact_method: contactMethod }
+    });
+
+  } catch (error) {
+    console.error('[UPDATE CONTACT METHOD ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update contact method',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/users/me/contact-methods/:methodId
+ *
+ * Remove a contact method, with the notification rules that use it
+ *
+ * @access Authenticated users
+ */
+export async function removeMyContactMethod(req: Request, res: Response) {
+  try {
+    const { methodId } = req.params;
+
+    const removed = await removeContactMethod(req.principal!.id, methodId);
+
+    if (!removed) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Contact method ${methodId} not found`
+      });
+    }
+
+    createLogger(getRequestId(req), req.principal?.id).userEvent('CONTACT_METHOD_REMOVED', req.principal!.id, {
+      contactMethodId: methodId
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Contact method removed successfully',
+      data: { contact_method_id: methodId }
+    });
+
+  } catch (error) {
+    console.error('[REMOVE CONTACT METHOD ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to remove contact method',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PUT /api/v1/users/:id/contact-methods/:methodId/verification
+ *
+ * Record whether a contact method is verified
+ *
+ * @access Internal services (whatever delivers notifications)
+ * @body { verified: boolean }
+ */
+export async function setUserContactMethodVerification(req: Request, res: Response) {
+  try {
+    const { id, methodId } = req.params;
+    const { verified } = req.body;
+
+    if (typeof verified !== 'boolean') {
+      return res.status(400).json({
+        status: 'error',
+        message: 'verified must be a boolean'
+      });
+    }
+
+    const contactMethod = await setContactMethodVerified(id, methodId, verified);
+
+    createLogger(getRequestId(req), req.principal?.id).userEvent('CONTACT_METHOD_VERIFICATION', id, {
+      contactMethodId: methodId,
+      verified
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Contact method marked ${verified ? 'verified' : 'unverified'}`,
+      data: { contact_method: contactMethod }
+    });
+
+  } catch (error) {
+    console.error('[SET CONTACT METHOD VERIFICATION ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update contact method verification',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// NOTIFICATION RULE ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/users/me/notification-rules
+ * GET /api/v1/users/:id/notification-rules
+ *
+ * List a user's notification rules, by urgency then delay
+ *
+ * @access The user themselves (/me); internal services (/:id)
+ * @query urgency - high | low
+ */
+export async function listUserNotificationRules(req: Request, res: Response) {
+  try {
+    const urgency = req.query.urgency as NotificationUrgency | undefined;
+
+    if (urgency !== undefined && !Object.values(NotificationUrgency).includes(urgency)) {
+      return res.status(400).json({
+        status: 'error',
+        message: `urgency must be one of: ${Object.values(NotificationUrgency).join(', ')}`
+      });
+    }
+
+    const rules = await listNotificationRules(subjectUserId(req), urgency);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Notification rules retrieved successfully',
+      data: {
+        notification_rules: rules,
+        count: rules.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST NOTIFICATION RULES ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve notification rules',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/users/me/notification-rules
+ *
+ * Add a notification rule, e.g. "SMS immediately for high urgency"
+ *
+ * @access Authenticated users
+ * @body {
+ *   contact_method_id: string,   // one of my contact methods
+ *   urgency: 'high' | 'low',
+ *   delay_minutes: number        // after I'm paged; 0 = immediately
+ * }
+ */
+export async function addMyNotificationRule(req: Request, res: Response) {
+  try {
+    const { contact_method_id, urgency, delay_minutes } = req.body;
+
+    if (!contact_method_id || !urgency || delay_minutes === undefined) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: contact_method_id, urgency and delay_minutes are required'
+      });
+    }
+
+    const rule = await addNotificationRule(req.principal!.id, { contact_method_id, urgency, delay_minutes });
+
+    return res.status(201).json({
+      status: 'success',
+      message: 'Notification rule added successfully',
+      data: { notification_rule: rule }
+    });
+
+  } catch (error) {
+    console.error('[ADD NOTIFICATION RULE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to add notification rule',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PUT /api/v1/users/me/notification-rules/:ruleId
+ *
+ * Update a notification rule
+ *
+ * @access Authenticated users
+ * @body { contact_method_id?, urgency?, delay_minutes? }
+ */
+export async function updateMyNotificationRule(req: Request, res: Response) {
+  try {
+    const { ruleId } = req.params;
+    const { contact_method_id, urgency, delay_minutes } = req.body;
+
+    const rule = await updateNotificationRule(req.principal!.id, ruleId, { contact_method_id, urgency, delay_minutes });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Notification rule updated successfully',
+      data: { notification_rule: rule }
+    });
+
+  } catch (error) {
+    console.error('[UPDATE NOTIFICATION RULE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update notification rule',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/users/me/notification-rules/:ruleId
+ *
+ * Remove a notification rule
+ *
+ * @access Authenticated users
+ */
+export async function removeMyNotificationRule(req: Request, res: Response) {
+  try {
+    const { ruleId } = req.params;
+
+    const removed = await removeNotificationRule(req.principal!.id, ruleId);
+
+    if (!removed) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Notification rule ${ruleId} not found`
+      });
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Notification rule removed successfully',
+      data: { rule_id: ruleId }
+    });
+
+  } catch (error) {
+    console.error('[REMOVE NOTIFICATION RULE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to remove notification rule',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  listUserContactMethods,
+  addMyContactMethod,
+  updateMyContactMethod,
+  removeMyContactMethod,
+  setUserContactMethodVerification,
+  listUserNotificationRules,
+  addMyNotificationRule,
+  updateMyNotificationRule,
+  removeMyNotificationRule
+};
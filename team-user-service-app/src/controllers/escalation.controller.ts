@@ -0,0 +1,300 @@
+import { Request, Response } from 'express';
+import {
+  listPolicies,
+  getPolicy,
+  createPolicy,
+  updatePolicy,
+  deletePolicy,
+  resolvePolicy
+} from '../services/escalation.service';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Escalation Controller
+ *
+ * Handles HTTP requests for team escalation policies, and resolves a
+ * policy to the ordered list of people to page for incident tooling.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+// ============================================
+// POLICY ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/escalation-policies
+ *
+ * List the team's escalation policies
+ *
+ * @access Team members and internal services
+ */
+export async function listTeamPolicies(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+
+    const policies = await listPolicies(teamId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Escalation policies retrieved successfully',
+      data: {
+        policies,
+        count: policies.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST ESCALATION POLICIES ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve escalation policies',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * GET /api/v1/teams/:teamId/escalation-policies/:policyId
+ *
+ * Get one escalation policy
+ *
+ * @access Team members and internal services
+ */
+export async function getTeamPolicy(req: Request, res: Response) {
+  try {
+    const { teamId, policyId } = req.params;
+
+    const policy = await getPolicy(teamId, policyId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Escalation policy retrieved successfully',
+      data: { policy }
+    });
+
+  } catch (error) {
+    console.error('[GET ESCALATION POLICY ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve escalation policy',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/escalation-policies
+ *
+ * Create an escalation policy
+ *
+ * @access Members with 'oncall:edit'
+ * @body {
+ *   name: string,
+ *   description?: string,
+ *   levels: Array<{
+ *     delay_minutes: number,     // after the previous level (the first: after the trigger)
+ *     targets: Array<{
+ *       type: 'user' | 'schedule' | 'role',
+ *       id: string               // user_id, schedule_id or role name
+ *     }>
+ *   }>
+ * }
+ */
+export async function createTeamPolicy(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const { name, description, levels } = req.body;
+
+    if (!name || !levels) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: name and levels are required'
+      });
+    }
+
+    const policy = await createPolicy(teamId, { name, description, levels }, req.principal!.id);
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ESCALATION_POLICY_CREATED', teamId, {
+      policyId: policy.policy_id,
+      name: policy.name
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: `Escalation policy '${policy.name}' created successfully`,
+      data: { policy }
+    });
+
+  } catch (error) {
+    console.error('[CREATE ESCALATION POLICY ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create escalation policy',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PUT /api/v1/teams/:teamId/escalation-policies/:policyId
+ *
+ * Update an escalation policy. Given fields replace the stored ones;
+ * levels are replaced as a whole.
+ *
+ * @access Members with 'oncall:edit'
+ * @body { name?, description?, levels? }
+ */
+export async function updateTeamPolicy(req: Request, res: Response) {
+  try {
+    const { teamId, policyId } = req.params;
+    const { name, description, levels } = req.body;
+
+    const policy = await updatePolicy(teamId, policyId, { name, description, levels });
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ESCALATION_POLICY_UPDATED', teamId, {
+      policyId,
+      name: policy.name
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Escalation policy '${policy.name}' updated successfully`,
+      data: { policy }
+    });
+
+  } catch (error) {
+    console.error('[UPDATE ESCALATION POLICY ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update escalation policy',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/teams/:teamId/escalation-policies/:policyId
+ *
+ * Delete an escalation policy
+ *
+ * @access Members with 'oncall:edit'
+ */
+export async function deleteTeamPolicy(req: Request, res: Response) {
+  try {
+    const { teamId, policyId } = req.params;
+
+    const deleted = await deletePolicy(teamId, policyId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Escalation policy ${policyId} not found on team ${teamId}`
+      });
+    }
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ESCALATION_POLICY_DELETED', teamId, {
+      policyId
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Escalation policy deleted successfully',
+      data: { policy_id: policyId }
+    });
+
+  } catch (error) {
+    console.error('[DELETE ESCALATION POLICY ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to delete escalation policy',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/escalation-policies/:policyId/resolve?at=
+ *
+ * Resolve a policy to the ordered list of users to page
+ *
+ * @access Team members and internal services
+ * @query at - ISO 8601 (default: now)
+ */
+export async function resolveTeamPolicy(req: Request, res: Response) {
+  try {
+    const { teamId, policyId } = req.params;
+    const at = req.query.at === undefined ? new Date() : new Date(String(req.query.at));
+
+    if (Number.isNaN(at.getTime())) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'at must be an ISO 8601 timestamp'
+      });
+    }
+
+    const resolution = await resolvePolicy(teamId, policyId, at);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Escalation policy resolved successfully',
+      data: resolution
+    });
+
+  } catch (error) {
+    console.error('[RESOLVE ESCALATION POLICY ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to resolve escalation policy',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  listTeamPolicies,
+  getTeamPolicy,
+  createTeamPolicy,
+  updateTeamPolicy,
+  deleteTeamPolicy,
+  resolveTeamPolicy
+};
@@ -0,0 +1,256 @@
+import { Request, Response } from 'express';
+import {
+  listInvitations,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation
+} from '../services/invitation.service';
+import { InvitationStatus } from '../models/TeamInvitation.model';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { getAuditContext } from '../utils/audit.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Invitation Controller
+ *
+ * Handles HTTP requests for inviting people to a team by email, and for
+ * accepting those invitations.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+// ============================================
+// TEAM INVITATION ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/invitations
+ *
+ * List the team's invitations, newest first
+ *
+ * @access Team members with 'member:add' permission
+ * @query status - pending | accepted | revoked | expired (default: all)
+ */
+export async function listTeamInvitations(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const status = req.query.status as InvitationStatus | undefined;
+
+    const invitations = await listInvitations(teamId, status);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Invitations retrieved successfully',
+      data: {
+        invitations,
+        count: invitations.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST INVITATIONS ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve invitations',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/invitations
+ *
+ * Invite an email address to the team. The invitation link goes out
+ * through the invitation notifier; it is not in the response.
+ *
+ * @access Team members with 'member:add' permission
+ * @body { email: string, role: string } - role is a role name, e.g. 'operator'
+ */
+export async function createTeamInvitation(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const { email, role } = req.body;
+
+    if (!email || !role) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: email and role are required'
+      });
+    }
+
+    const invitation = await createInvitation(teamId, { email, role }, req.principal!.id, getAuditContext(req));
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('INVITATION_SENT', teamId, {
+      invitationId: invitation.invitation_id,
+      role: invitation.role
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: `Invitation sent to ${invitation.email}`,
+      data: { invitation }
+    });
+
+  } catch (error) {
+    console.error('[CREATE INVITATION ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create invitation',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/invitations/:invitationId/resend
+ *
+ * Send a pending or expired invitation again, with a new link and expiry.
+ * The previous link stops working.
+ *
+ * @access Team members with 'member:add' permission
+ */
+export async function resendTeamInvitation(req: Request, res: Response) {
+  try {
+    const { teamId, invitationId } = req.params;
+
+    const invitation = await resendInvitation(teamId, invitationId, getAuditContext(req));
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('INVITATION_RESENT', teamId, {
+      invitationId,
+      sendCount: invitation.send_count
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Invitation resent to ${invitation.email}`,
+      data: { invitation }
+    });
+
+  } catch (error) {
+    console.error('[RESEND INVITATION ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to resend invitation',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/teams/:teamId/invitations/:invitationId
+ *
+ * Revoke an invitation that hasn't been accepted
+ *
+ * @access Team members with 'member:add' permission
+ */
+export async function revokeTeamInvitation(req: Request, res: Response) {
+  try {
+    const { teamId, invitationId } = req.params;
+
+    const invitation = await revokeInvitation(teamId, invitationId, getAuditContext(req));
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('INVITATION_REVOKED', teamId, {
+      invitationId
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Invitation for ${invitation.email} revoked`,
+      data: { invitation }
+    });
+
+  } catch (error) {
+    console.error('[REVOKE INVITATION ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to revoke invitation',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// ACCEPTING
+// ============================================
+
+/**
+ * POST /api/v1/invitations/:token/accept
+ *
+ * Accept an invitation and join the team with the invited role
+ *
+ * @access Signed-in users whose email is the one the invitation was sent to
+ * @param token - The token from the invitation link
+ */
+export async function acceptTeamInvitation(req: Request, res: Response) {
+  try {
+    const { token } = req.params;
+
+    const accepted = await acceptInvitation(
+      token,
+      req.principal!.id,
+      req.principal!.email,
+      getAuditContext(req)
+    );
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('INVITATION_ACCEPTED', accepted.team_id, {
+      invitationId: accepted.invitation.invitation_id,
+      role: accepted.role
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Joined team as ${accepted.role}`,
+      data: {
+        team_id: accepted.team_id,
+        user_id: req.principal!.id,
+        role: accepted.role
+      }
+    });
+
+  } catch (error) {
+    console.error('[ACCEPT INVITATION ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to accept invitation',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  listTeamInvitations,
+  createTeamInvitation,
+  resendTeamInvitation,
+  revokeTeamInvitation,
+  acceptTeamInvitation
+};
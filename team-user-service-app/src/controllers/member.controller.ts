@@ -0,0 +1,242 @@
+import { Request, Response } from 'express';
+import {
+  getTeamMembers,
+  addUserToTeam,
+  removeUserFromTeam,
+  updateUserRoleInTeam
+} from '../services/member.service';
+import { getTeamById } from '../services/team.service';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { getAuditContext } from '../utils/audit.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Member Controller
+ *
+ * Handles HTTP requests for managing who belongs to a team and with what role.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Whether the role exists is checked by member.service (roles are data, not an enum)
+function isRoleName(role: unknown): role is string {
+  return typeof role === 'string' && role.trim().length > 0;
+}
+
+// ============================================
+// MEMBERSHIP ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/members
+ *
+ * List all members of a team with their roles
+ *
+ * @access Team members
+ * @param teamId - The team ID
+ */
+export async function listMembers(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+
+    const team = await getTeamById(teamId);
+
+    if (!team) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Team '${teamId}' not found`
+      });
+    }
+
+    const members = await getTeamMembers(teamId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Team members retrieved successfully',
+      data: {
+        team_id: teamId,
+        members: members.map(m => ({ user_id: m.userId, role: m.role })),
+        count: members.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST MEMBERS ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve team members',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/members
+ *
+ * Add a user to a team
+ *
+ * @access Team members with 'member:add' permission
+ * @param teamId - The team ID
+ * @body { user_id: string, role: string } - role is a role name, e.g. 'operator'
+ */
+export async function addMember(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const { user_id } = req.body;
+
+    if (!user_id || !isRoleName(req.body.role)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: user_id and role are required'
+      });
+    }
+
+    const role = req.body.role.trim().toLowerCase();
+
+    await addUserToTeam(user_id, teamId, role, getAuditContext(req));
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('MEMBER_ADDED', teamId, {
+      memberId: user_id,
+      role
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: `User '${user_id}' added to team as ${role}`,
+      data: {
+        team_id: teamId,
+        user_id,
+        role
+      }
+    });
+
+  } catch (error) {
+    console.error('[ADD MEMBER ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to add member to team',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PATCH /api/v1/teams/:teamId/members/:userId
+ *
+ * Change a member's role on the team
+ *
+ * The last admin of a team cannot be demoted.
+ *
+ * @access Team members with 'member:change_role' permission
+ * @param teamId - The team ID
+ * @param userId - The member whose role changes
+ * @body { role: string } - a role name, e.g. 'viewer'
+ */
+export async function changeMemberRole(req: Request, res: Response) {
+  try {
+    const { teamId, userId } = req.params;
+
+    if (!isRoleName(req.body.role)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required field: role'
+      });
+    }
+
+    const role = req.body.role.trim().toLowerCase();
+
+    const previousRole = await updateUserRoleInTeam(userId, teamId, role, getAuditContext(req));
+
+    if (previousRole !== role) {
+      createLogger(getRequestId(req), req.principal?.id).roleChange(userId, previousRole, role, {
+        teamId
+      });
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Role of user '${userId}' updated to ${role}`,
+      data: {
+        team_id: teamId,
+        user_id: userId,
+        previous_role: previousRole,
+        role
+      }
+    });
+
+  } catch (error) {
+    console.error('[CHANGE MEMBER ROLE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to change member role',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/teams/:teamId/members/:userId
+ *
+ * Remove a member from the team
+ *
+ * The last admin of a team cannot be removed.
+ *
+ * @access Team members with 'member:remove' permission
+ * @param teamId - The team ID
+ * @param userId - The member to remove
+ */
+export async function removeMember(req: Request, res: Response) {
+  try {
+    const { teamId, userId } = req.params;
+
+    await removeUserFromTeam(userId, teamId, getAuditContext(req));
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('MEMBER_REMOVED', teamId, {
+      memberId: userId
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `User '${userId}' removed from team`,
+      data: { removed: true }
+    });
+
+  } catch (error) {
+    console.error('[REMOVE MEMBER ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to remove member from team',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  listMembers,
+  addMember,
+  changeMemberRole,
+  removeMember
+};
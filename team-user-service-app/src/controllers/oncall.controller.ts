@@ -0,0 +1,839 @@
+import { Request, Response } from 'express';
+import {
+  listSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  getOnCallNow,
+  getOnCallTimeline,
+  DEFAULT_ONCALL_RANGE_DAYS
+} from '../services/oncall.service';
+import {
+  listOverrides,
+  getOverride,
+  createOverride,
+  deleteOverride,
+  listSwaps,
+  requestSwap,
+  acceptSwap,
+  declineSwap,
+  cancelSwap
+} from '../services/oncall.override.service';
+import { checkUserPermission } from '../services/permission.service';
+import { SwapStatus } from '../models/OnCallSwap.model';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { AppError, ForbiddenError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * On-Call Controller
+ *
+ * Handles HTTP requests for team on-call schedules, overrides and shift
+ * swaps, and answers "who is on call?" for team members and for internal
+ * services deciding who to page.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Parse an optional ISO 8601 query parameter
+ *
+ * @returns The date, undefined if absent, or null if unparseable
+ */
+function parseDateParam(value: unknown): Date | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function scheduleIdParam(req: Request): string | undefined {
+  return typeof req.query.schedule_id === 'string' ? req.query.schedule_id : undefined;
+}
+
+/**
+ * Members may put themselves on call; putting (or taking) anyone else
+ * needs 'oncall:edit'
+ */
+async function canEditOthersOnCall(req: Request, teamId: string): Promise<boolean> {
+  return checkUserPermission(req.principal!.id, teamId, 'oncall:edit');
+}
+
+// ============================================
+// WHO IS ON CALL
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/oncall/now
+ *
+ * Who is on call right now, per schedule
+ *
+ * @access Team members and internal services
+ * @param teamId - The team ID
+ * @query schedule_id - Only this schedule
+ */
+export async function getCurrentOnCall(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const at = new Date();
+
+    const onCall = await getOnCallNow(teamId, at, scheduleIdParam(req));
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Current on-call retrieved successfully',
+      data: {
+        team_id: teamId,
+        at,
+        on_call: onCall
+      }
+    });
+
+  } catch (error) {
+    console.error('[GET CURRENT ONCALL ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve current on-call',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * GET /api/v1/teams/:teamId/oncall?from=&to=
+ *
+ * On-call shifts over a range, per schedule
+ *
+ * @access Team members and internal services
+ * @param teamId - The team ID
+ * @query from - ISO 8601 (default: now)
+ * @query to - ISO 8601 (default: from + 7 days; at most 90 days after from)
+ * @query schedule_id - Only this schedule
+ */
+export async function getOnCallRange(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const from = parseDateParam(req.query.from);
+    const to = parseDateParam(req.query.to);
+
+    if (from === null || to === null) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'from and to must be ISO 8601 timestamps'
+      });
+    }
+
+    const rangeFrom = from ?? new Date();
+    const rangeTo = to ?? new Date(rangeFrom.getTime() + DEFAULT_ONCALL_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const schedules = await getOnCallTimeline(teamId, rangeFrom, rangeTo, scheduleIdParam(req));
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'On-call shifts retrieved successfully',
+      data: {
+        team_id: teamId,
+        from: rangeFrom,
+        to: rangeTo,
+        schedules
+      }
+    });
+
+  } catch (error) {
+    console.error('[GET ONCALL RANGE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve on-call shifts',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// SCHEDULE ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/oncall/schedules
+ *
+ * List the team's schedules
+ *
+ * @access Team members and internal services
+ * @param teamId - The team ID
+ */
+export async function listTeamSchedules(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+
+    const schedules = await listSchedules(teamId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Schedules retrieved successfully',
+      data: {
+        schedules,
+        count: schedules.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST SCHEDULES ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve schedules',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * GET /api/v1/teams/:teamId/oncall/schedules/:scheduleId
+ *
+ * Get one schedule
+ *
+ * @access Team members and internal services
+ */
+export async function getTeamSchedule(req: Request, res: Response) {
+  try {
+    const { teamId, scheduleId } = req.params;
+
+    const schedule = await getSchedule(teamId, scheduleId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Schedule retrieved successfully',
+      data: { schedule }
+    });
+
+  } catch (error) {
+    console.error('[GET SCHEDULE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve schedule',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/oncall/schedules
+ *
+ * Create a schedule
+ *
+ * @access Members with 'oncall:edit'
+ * @body {
+ *   name: string,
+ *   description?: string,
+ *   time_zone: string,           // IANA, e.g. 'Europe/Berlin'
+ *   layers: Array<{
+ *     name: string,
+ *     participants: string[],    // user_ids of team members, in rotation order
+ *     rotation_type: 'daily' | 'weekly',
+ *     handoff_time: string,      // 'HH:mm', schedule time zone
+ *     handoff_day?: number,      // weekly: 0 (Sunday) - 6, default 1
+ *     starts_at: string,         // ISO 8601
+ *     active_hours?: { start: 'HH:mm', end: 'HH:mm', days?: number[] }
+ *   }>                           // later layers take precedence
+ * }
+ */
+export async function createTeamSchedule(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const { name, description, time_zone, layers } = req.body;
+
+    if (!name || !layers) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: name and layers are required'
+      });
+    }
+
+    const schedule = await createSchedule(
+      teamId,
+      { name, description, time_zone: time_zone ?? 'UTC', layers },
+      req.principal!.id
+    );
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ONCALL_SCHEDULE_CREATED', teamId, {
+      scheduleId: schedule.schedule_id,
+      name: schedule.name
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: `Schedule '${schedule.name}' created successfully`,
+      data: { schedule }
+    });
+
+  } catch (error) {
+    console.error('[CREATE SCHEDULE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create schedule',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PUT /api/v1/teams/:teamId/oncall/schedules/:scheduleId
+ *
+ * Update a schedule. Given fields replace the stored ones; layers are
+ * replaced as a whole.
+ *
+ * @access Members with 'oncall:edit'
+ * @body { name?, description?, time_zone?, layers? }
+ */
+export async function updateTeamSchedule(req: Request, res: Response) {
+  try {
+    const { teamId, scheduleId } = req.params;
+    const { name, description, time_zone, layers } = req.body;
+
+    const schedule = await updateSchedule(teamId, scheduleId, { name, description, time_zone, layers });
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ONCALL_SCHEDULE_UPDATED', teamId, {
+      scheduleId,
+      name: schedule.name
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Schedule '${schedule.name}' updated successfully`,
+      data: { schedule }
+    });
+
+  } catch (error) {
+    console.error('[UPDATE SCHEDULE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update schedule',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/teams/:teamId/oncall/schedules/:scheduleId
+ *
+ * Delete a schedule
+ *
+ * @access Members with 'oncall:edit'
+ */
+export async function deleteTeamSchedule(req: Request, res: Response) {
+  try {
+    const { teamId, scheduleId } = req.params;
+
+    const deleted = await deleteSchedule(teamId, scheduleId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Schedule ${scheduleId} not found on team ${teamId}`
+      });
+    }
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ONCALL_SCHEDULE_DELETED', teamId, {
+      scheduleId
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Schedule deleted successfully',
+      data: { schedule_id: scheduleId }
+    });
+
+  } catch (error) {
+    console.error('[DELETE SCHEDULE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to delete schedule',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// OVERRIDE ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/oncall/schedules/:scheduleId/overrides?from=&to=
+ *
+ * List a schedule's overrides
+ *
+ * @access Team members and internal services
+ * @query from - ISO 8601 (default: now)
+ * @query to - ISO 8601 (default: from + 7 days; at most 90 days after from)
+ */
+export async function listScheduleOverrides(req: Request, res: Response) {
+  try {
+    const { teamId, scheduleId } = req.params;
+    const from = parseDateParam(req.query.from);
+    const to = parseDateParam(req.query.to);
+
+    if (from === null || to === null) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'from and to must be ISO 8601 timestamps'
+      });
+    }
+
+    const rangeFrom = from ?? new Date();
+    const rangeTo = to ?? new Date(rangeFrom.getTime() + DEFAULT_ONCALL_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const overrides = await listOverrides(teamId, scheduleId, rangeFrom, rangeTo);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Overrides retrieved successfully',
+      data: {
+        overrides,
+        count: overrides.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST OVERRIDES ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve overrides',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/oncall/schedules/:scheduleId/overrides
+ *
+ * Put someone on call for part of a layer, ahead of the rotation
+ *
+ * @access Team members for themselves; members with 'oncall:edit' for others
+ * @body {
+ *   layer: string,
+ *   user_id?: string,            // who covers (default: the caller)
+ *   replaces_user_id?: string,   // whose shift is being covered
+ *   start: string,               // ISO 8601
+ *   end: string,                 // ISO 8601
+ *   reason?: string
+ * }
+ */
+export async function createScheduleOverride(req: Request, res: Response) {
+  try {
+    const { teamId, scheduleId } = req.params;
+    const { layer, user_id, replaces_user_id, start, end, reason } = req.body;
+    const principalId = req.principal!.id;
+    const userId = user_id ?? principalId;
+
+    if (!layer || !start || !end) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: layer, start and end are required'
+      });
+    }
+
+    if (userId !== principalId && !await canEditOthersOnCall(req, teamId)) {
+      throw new ForbiddenError("Only members with 'oncall:edit' can create overrides for others");
+    }
+
+    const override = await createOverride(
+      teamId,
+      scheduleId,
+      { layer, user_id: userId, replaces_user_id, start, end, reason },
+      principalId
+    );
+
+    createLogger(getRequestId(req), principalId).onCallUpdate(teamId, override.user_id, {
+      action: 'OVERRIDE_CREATED',
+      overrideId: override.override_id,
+      scheduleId,
+      layer: override.layer,
+      replaces: override.replaces_user_id,
+      start: override.start,
+      end: override.end
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: 'Override created successfully',
+      data: { override }
+    });
+
+  } catch (error) {
+    console.error('[CREATE OVERRIDE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create override',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/teams/:teamId/oncall/schedules/:scheduleId/overrides/:overrideId
+ *
+ * Remove an override; the rotation applies again for its window
+ *
+ * @access The override's creator or covering member; members with 'oncall:edit'
+ */
+export async function deleteScheduleOverride(req: Request, res: Response) {
+  try {
+    const { teamId, scheduleId, overrideId } = req.params;
+    const principalId = req.principal!.id;
+
+    const override = await getOverride(teamId, scheduleId, overrideId);
+
+    const ownsOverride = override.created_by === principalId || override.user_id === principalId;
+    if (!ownsOverride && !await canEditOthersOnCall(req, teamId)) {
+      throw new ForbiddenError("Only members with 'oncall:edit' can remove others' overrides");
+    }
+
+    const deleted = await deleteOverride(teamId, scheduleId, overrideId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Override ${overrideId} not found on schedule ${scheduleId}`
+      });
+    }
+
+    createLogger(getRequestId(req), principalId).onCallUpdate(teamId, deleted.user_id, {
+      action: 'OVERRIDE_REMOVED',
+      overrideId,
+      scheduleId,
+      layer: deleted.layer,
+      start: deleted.start,
+      end: deleted.end
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Override removed successfully',
+      data: { override_id: overrideId }
+    });
+
+  } catch (error) {
+    console.error('[DELETE OVERRIDE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to remove override',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// SWAP ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/oncall/swaps
+ *
+ * List the team's swap requests, newest first
+ *
+ * @access Team members
+ * @query status - pending | accepted | declined | cancelled
+ * @query mine - 'true' for only requests the caller made or was asked
+ */
+export async function listTeamSwaps(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const status = req.query.status as SwapStatus | undefined;
+
+    if (status !== undefined && !Object.values(SwapStatus).includes(status)) {
+      return res.status(400).json({
+        status: 'error',
+        message: `status must be one of: ${Object.values(SwapStatus).join(', ')}`
+      });
+    }
+
+    const swaps = await listSwaps(teamId, {
+      status,
+      userId: req.query.mine === 'true' ? req.principal!.id : undefined
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Swaps retrieved successfully',
+      data: {
+        swaps,
+        count: swaps.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST SWAPS ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve swaps',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/oncall/schedules/:scheduleId/swaps
+ *
+ * Ask a teammate to cover part of your shift
+ *
+ * @access Team members
+ * @body {
+ *   layer: string,
+ *   target_id: string,           // the member asked to cover
+ *   start: string,               // ISO 8601
+ *   end: string,                 // ISO 8601
+ *   return_start?: string,       // a window of theirs you cover in exchange
+ *   return_end?: string,
+ *   message?: string
+ * }
+ */
+export async function requestTeamSwap(req: Request, res: Response) {
+  try {
+    const { teamId, scheduleId } = req.params;
+    const { layer, target_id, start, end, return_start, return_end, message } = req.body;
+
+    if (!layer || !target_id || !start || !end) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: layer, target_id, start and end are required'
+      });
+    }
+
+    const swap = await requestSwap(
+      teamId,
+      scheduleId,
+      { layer, target_id, start, end, return_start, return_end, message },
+      req.principal!.id
+    );
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ONCALL_SWAP_REQUESTED', teamId, {
+      swapId: swap.swap_id,
+      scheduleId,
+      targetId: target_id
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: 'Swap requested successfully',
+      data: { swap }
+    });
+
+  } catch (error) {
+    console.error('[REQUEST SWAP ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to request swap',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/oncall/swaps/:swapId/accept
+ *
+ * Accept a swap request; its overrides take effect immediately
+ *
+ * @access The member who was asked
+ */
+export async function acceptTeamSwap(req: Request, res: Response) {
+  try {
+    const { teamId, swapId } = req.params;
+
+    const { swap, overrides } = await acceptSwap(teamId, swapId, req.principal!.id);
+
+    const logger = createLogger(getRequestId(req), req.principal?.id);
+    for (const override of overrides) {
+      logger.onCallUpdate(teamId, override.user_id, {
+        action: 'SWAP_ACCEPTED',
+        swapId,
+        overrideId: override.override_id,
+        scheduleId: swap.schedule_id.toString(),
+        layer: override.layer,
+        replaces: override.replaces_user_id,
+        start: override.start,
+        end: override.end
+      });
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Swap accepted successfully',
+      data: { swap, overrides }
+    });
+
+  } catch (error) {
+    console.error('[ACCEPT SWAP ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to accept swap',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/oncall/swaps/:swapId/decline
+ *
+ * Decline a swap request
+ *
+ * @access The member who was asked
+ */
+export async function declineTeamSwap(req: Request, res: Response) {
+  try {
+    const { teamId, swapId } = req.params;
+
+    const swap = await declineSwap(teamId, swapId, req.principal!.id);
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ONCALL_SWAP_DECLINED', teamId, {
+      swapId
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Swap declined',
+      data: { swap }
+    });
+
+  } catch (error) {
+    console.error('[DECLINE SWAP ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to decline swap',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams/:teamId/oncall/swaps/:swapId/cancel
+ *
+ * Withdraw a swap request
+ *
+ * @access The member who asked
+ */
+export async function cancelTeamSwap(req: Request, res: Response) {
+  try {
+    const { teamId, swapId } = req.params;
+
+    const swap = await cancelSwap(teamId, swapId, req.principal!.id);
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('ONCALL_SWAP_CANCELLED', teamId, {
+      swapId
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Swap cancelled',
+      data: { swap }
+    });
+
+  } catch (error) {
+    console.error('[CANCEL SWAP ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to cancel swap',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  getCurrentOnCall,
+  getOnCallRange,
+  listTeamSchedules,
+  getTeamSchedule,
+  createTeamSchedule,
+  updateTeamSchedule,
+  deleteTeamSchedule,
+  listScheduleOverrides,
+  createScheduleOverride,
+  deleteScheduleOverride,
+  listTeamSwaps,
+  requestTeamSwap,
+  acceptTeamSwap,
+  declineTeamSwap,
+  cancelTeamSwap
+};
@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import {
+  getTeamPermissionOverrides,
+  setTeamPermissionOverride,
+  removeTeamPermissionOverride
+} from '../services/permission.service';
+import { OverrideEffect } from '../models/TeamPermissionOverride.model';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { getAuditContext } from '../utils/audit.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Override Controller
+ *
+ * Handles HTTP requests for team-scoped permission overrides: a team
+ * granting or denying a permission for one of its roles, on top of the
+ * global role permissions.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+// ============================================
+// TEAM PERMISSION OVERRIDE ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/teams/:teamId/permission-overrides
+ *
+ * List the team's permission overrides
+ *
+ * @access Team members
+ * @param teamId - The team ID
+ */
+export async function listOverrides(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+
+    const overrides = await getTeamPermissionOverrides(teamId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Permission overrides retrieved successfully',
+      data: {
+        team_id: teamId,
+        overrides,
+        count: overrides.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST OVERRIDES ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve permission overrides',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PUT /api/v1/teams/:teamId/permission-overrides
+ *
+ * Grant or deny a permission for a role within the team.
+ * Replaces any existing override for the same role and permission.
+ *
+ * @access Team admins
+ * @param teamId - The team ID
+ * @body { role: string, permission_name: string, effect: 'grant' | 'deny' }
+ */
+export async function setOverride(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const { role, permission_name, effect } = req.body;
+
+    if (!role || !permission_name || !effect) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: role, permission_name and effect are required'
+      });
+    }
+
+    await setTeamPermissionOverride(
+      teamId,
+      role,
+      permission_name,
+      effect as OverrideEffect,
+      getAuditContext(req)
+    );
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('PERMISSION_OVERRIDE_SET', teamId, {
+      role,
+      permission: permission_name,
+      effect
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Permission '${permission_name}' ${effect === OverrideEffect.DENY ? 'denied' : 'granted'} for role '${role}' on this team`,
+      data: {
+        team_id: teamId,
+        role,
+        permission: permission_name,
+        effect
+      }
+    });
+
+  } catch (error) {
+    console.error('[SET OVERRIDE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to set permission override',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/teams/:teamId/permission-overrides/:role/:permissionName
+ *
+ * Remove an override so the role falls back to its global permissions
+ *
+ * @access Team admins
+ * @param teamId - The team ID
+ * @param role - The role name
+ * @param permissionName - The permission name
+ */
+export async function removeOverride(req: Request, res: Response) {
+  try {
+    const { teamId, role, permissionName } = req.params;
+
+    const removed = await removeTeamPermissionOverride(teamId, role, permissionName, getAuditContext(req));
+
+    if (!removed) {
+      return res.status(404).json({
+        status: 'error',
+        message: `No override for role '${role}' and permission '${permissionName}' on this team`
+      });
+    }
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('PERMISSION_OVERRIDE_REMOVED', teamId, {
+      role,
+      permission: permissionName
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Override for role '${role}' and permission '${permissionName}' removed`,
+      data: {
+        team_id: teamId,
+        role,
+        permission: permissionName,
+        removed: true
+      }
+    });
+
+  } catch (error) {
+    console.error('[REMOVE OVERRIDE ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to remove permission override',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  listOverrides,
+  setOverride,
+  removeOverride
+};
@@ -13,11 +13,19 @@ import {
   getRolesByPermission,
   validatePermissionExists,
   getRolePermissionSummary,
-  checkUserPermission,
+  checkUserRole,
+  explainUserPermission,
   getUserPermissionsForTeam
 } from '../services/permission.service';
-import { RoleType } from '../models/RolePermission.model';
-import { AuthenticatedRequest } from '../middleware/role.middleware';
+import { recordDecision } from '../services/authz.decision.service';
+import { listRoles } from '../services/role.service';
+import { RoleType } from '../models/Role.model';
+import { DecisionSource } from '../models/AuthzDecision.model';
+import { buildEnvironmentAttributes } from '../utils/condition.utils';
+import { getRequestId } from '../utils/logger.utils';
+import { getAuditContext } from '../utils/audit.utils';
+import { getCacheStats } from '../utils/cache.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
 
 /**
  * Permission Controller
@@ -69,7 +77,7 @@ export async function listAllPermissions(req: Request, res: Response) {
  * Get a specific permission by name
  * 
  * @access Admin only
- * @param permissionName - The permission name (e.g., 'delete_team')
+ * @param permissionName - The permission name (e.g., 'team:delete')
  */
 export async function getPermission(req: Request, res: Response) {
   try {
@@ -141,9 +149,9 @@ export async function getPermissionsByResourceType(req: Request, res: Response)
  * 
  * @access Admin only
  * @body {
- *   permission_name: string,
- *   resource: string,
- *   action: string,
+ *   permission_name: string,   // 'resource:action', e.g. 'incident:acknowledge' or 'team:*'
+ *   resource?: string,         // defaults to the name's resource segment
+ *   action?: string,           // defaults to the name's action segment
  *   description?: string
  * }
  */
@@ -151,34 +159,11 @@ export async function createNewPermission(req: Request, res: Response) {
   try {
     const { permission_name, resource, action, description } = req.body;
     
-    // Validation
-    if (!permission_name || !resource || !action) {
+    // Validation (the 'resource:action' grammar is checked by the service)
+    if (!permission_name || typeof permission_name !== 'string') {
       return res.status(400).json({
         status: 'error',
-        message: 'Missing required fields: permission_name, resource, and action are required'
-      });
-    }
-    
-    // Validate format (lowercase, underscores only)
-    const namePattern = /^[a-z_]+$/;
-    if (!namePattern.test(permission_name)) {
-      return res.status(400).json({
-        status: 'error',
-        message: 'Permission name must be lowercase with underscores only (e.g., "delete_team")'
-      });
-    }
-    
-    if (!namePattern.test(resource)) {
-      return res.status(400).json({
-        status: 'error',
-        message: 'Resource must be lowercase with underscores only (e.g., "team")'
-      });
-    }
-    
-    if (!namePattern.test(action)) {
-      return res.status(400).json({
-        status: 'error',
-        message: 'Action must be lowercase with underscores only (e.g., "create")'
+        message: 'Missing required field: permission_name'
       });
     }
     
@@ -187,7 +172,7 @@ export async function createNewPermission(req: Request, res: Response) {
       resource,
       action,
       description
-    });
+    }, getAuditContext(req));
     
     return res.status(201).json({
       status: 'success',
@@ -198,6 +183,10 @@ export async function createNewPermission(req: Request, res: Response) {
   } catch (error) {
     console.error('[CREATE PERMISSION ERROR]', error);
     
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+    
     // Handle duplicate permission error
     if (error instanceof Error && error.message.includes('already exists')) {
       return res.status(409).json({
@@ -241,7 +230,7 @@ export async function updateExistingPermission(req: Request, res: Response) {
       });
     }
     
-    const permission = await updatePermission(permissionName, updates);
+    const permission = await updatePermission(permissionName, updates, getAuditContext(req));
     
     if (!permission) {
       return res.status(404).json({
@@ -258,6 +247,11 @@ export async function updateExistingPermission(req: Request, res: Response) {
     
   } catch (error) {
     console.error('[UPDATE PERMISSION ERROR]', error);
+    
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+    
     return res.status(500).json({
       status: 'error',
       message: 'Failed to update permission',
@@ -278,7 +272,7 @@ export async function deleteExistingPermission(req: Request, res: Response) {
   try {
     const { permissionName } = req.params;
     
-    const deleted = await deletePermission(permissionName);
+    const deleted = await deletePermission(permissionName, getAuditContext(req));
     
     if (!deleted) {
       return res.status(404).json({
@@ -313,21 +307,22 @@ export async function deleteExistingPermission(req: Request, res: Response) {
  * Get all permissions for a specific role
  * 
  * @access Admin or team members (read-only)
- * @param role - The role ('admin', 'operator', 'viewer')
+ * @param role - The role name ('admin', 'operator', 'viewer' or a custom role)
  */
 export async function getRolePermissions(req: Request, res: Response) {
   try {
     const { role } = req.params;
     
     // Validate role
-    if (!Object.values(RoleType).includes(role as RoleType)) {
+    const roleNames = (await listRoles()).map(r => r.name);
+    if (!roleNames.includes(role)) {
       return res.status(400).json({
         status: 'error',
-        message: `Invalid role. Must be one of: ${Object.values(RoleType).join(', ')}`
+        message: `Invalid role. Must be one of: ${roleNames.join(', ')}`
       });
     }
     
-    const permissions = await getPermissionsByRole(role as RoleType);
+    const permissions = await getPermissionsByRole(role);
     
     return res.status(200).json({
       status: 'success',
@@ -399,18 +394,20 @@ export async function getPermissionRoles(req: Request, res: Response) {
  * 
  * @access Admin only
  * @param role - The role to assign to
- * @body { permission_name: string } OR { permission_names: string[] }
+ * @body { permission_name: string, conditions?: PermissionCondition[] }
+ *       OR { permission_names: string[] }
  */
 export async function assignPermissionsToRole(req: Request, res: Response) {
   try {
     const { role } = req.params;
-    const { permission_name, permission_names } = req.body;
+    const { permission_name, permission_names, conditions } = req.body;
     
     // Validate role
-    if (!Object.values(RoleType).includes(role as RoleType)) {
+    const roleNames = (await listRoles()).map(r => r.name);
+    if (!roleNames.includes(role)) {
       return res.status(400).json({
         status: 'error',
-        message: `Invalid role. Must be one of: ${Object.values(RoleType).join(', ')}`
+        message: `Invalid role. Must be one of: ${roleNames.join(', ')}`
       });
     }
     
@@ -418,8 +415,9 @@ export async function assignPermissionsToRole(req: Request, res: Response) {
     if (permission_names && Array.isArray(permission_names)) {
       // Assign multiple permissions
       const assignments = await assignMultiplePermissionsToRole(
-        role as RoleType,
-        permission_names
+        role,
+        permission_names,
+        getAuditContext(req)
       );
       
       return res.status(200).json({
@@ -435,8 +433,10 @@ export async function assignPermissionsToRole(req: Request, res: Response) {
     } else if (permission_name) {
       // Assign single permission
       const assignment = await assignPermissionToRole(
-        role as RoleType,
-        permission_name
+        role,
+        permission_name,
+        conditions,
+        getAuditContext(req)
       );
       
       return res.status(200).json({
@@ -459,6 +459,10 @@ export async function assignPermissionsToRole(req: Request, res: Response) {
   } catch (error) {
     console.error('[ASSIGN PERMISSION ERROR]', error);
     
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+    
     // Handle specific errors
     if (error instanceof Error) {
       if (error.message.includes('does not exist')) {
@@ -498,16 +502,18 @@ export async function revokePermissionFromRoleHandler(req: Request, res: Respons
     const { role, permissionName } = req.params;
     
     // Validate role
-    if (!Object.values(RoleType).includes(role as RoleType)) {
+    const roleNames = (await listRoles()).map(r => r.name);
+    if (!roleNames.includes(role)) {
       return res.status(400).json({
         status: 'error',
-        message: `Invalid role. Must be one of: ${Object.values(RoleType).join(', ')}`
+        message: `Invalid role. Must be one of: ${roleNames.join(', ')}`
       });
     }
     
     const revoked = await revokePermissionFromRole(
-      role as RoleType,
-      permissionName
+      role,
+      permissionName,
+      getAuditContext(req)
     );
     
     if (!revoked) {
@@ -571,6 +577,33 @@ export async function getRolesSummary(req: Request, res: Response) {
   }
 }
 
+/**
+ * GET /api/v1/permissions/cache/stats
+ * 
+ * Hit/miss counters for the in-process authorization caches
+ * 
+ * @access Admin only
+ */
+export async function getPermissionCacheStats(req: Request, res: Response) {
+  try {
+    const caches = getCacheStats();
+    
+    return res.status(200).json({
+      status: 'success',
+      message: 'Cache statistics retrieved successfully',
+      data: { caches }
+    });
+    
+  } catch (error) {
+    console.error('[GET CACHE STATS ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve cache statistics',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
 // ============================================
 // USER PERMISSION CHECK ENDPOINTS
 // ============================================
@@ -583,9 +616,9 @@ export async function getRolesSummary(req: Request, res: Response) {
  * @access Authenticated users
  * @query team_id - The team ID to check permissions for
  */
-export async function getCurrentUserPermissions(req: AuthenticatedRequest, res: Response) {
+export async function getCurrentUserPermissions(req: Request, res: Response) {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.principal) {
       return res.status(401).json({
         status: 'error',
         message: 'Authentication required'
@@ -601,7 +634,7 @@ export async function getCurrentUserPermissions(req: AuthenticatedRequest, res:
       });
     }
     
-    const userId = req.user.id;
+    const userId = req.principal.id;
     const permissions = await getUserPermissionsForTeam(userId, team_id);
     
     return res.status(200).json({
@@ -625,17 +658,31 @@ export async function getCurrentUserPermissions(req: AuthenticatedRequest, res:
   }
 }
 
+/**
+ * Decision explanations reveal how a team's permissions are configured,
+ * so only permission admins and admins of the team may see them
+ */
+async function canViewExplanation(req: Request, teamId: string): Promise<boolean> {
+  if (!req.principal) {
+    return false;
+  }
+  
+  return req.principal.scopes.includes('permissions:admin')
+    || await checkUserRole(req.principal.id, teamId, RoleType.ADMIN);
+}
+
 /**
  * POST /api/v1/users/me/permissions/check
  * 
  * Check if the current user has a specific permission on a team
  * 
- * @access Authenticated users
+ * @access Authenticated users (`explain=true`: team admins and permission admins)
  * @body { team_id: string, permission_name: string }
+ * @query explain - 'true' to include how the decision was reached
  */
-export async function checkCurrentUserPermission(req: AuthenticatedRequest, res: Response) {
+export async function checkCurrentUserPermission(req: Request, res: Response) {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.principal) {
       return res.status(401).json({
         status: 'error',
         message: 'Authentication required'
@@ -651,8 +698,23 @@ export async function checkCurrentUserPermission(req: AuthenticatedRequest, res:
       });
     }
     
-    const userId = req.user.id;
-    const hasPermission = await checkUserPermission(userId, team_id, permission_name);
+    const explain = req.query.explain === 'true';
+    
+    if (explain && !(await canViewExplanation(req, team_id))) {
+      return res.status(403).json({
+        status: 'error',
+        message: 'Only team admins can request a decision explanation',
+        error: 'PERMISSION_DENIED'
+      });
+    }
+    
+    const userId = req.principal.id;
+    const explanation = await explainUserPermission(userId, team_id, permission_name, {
+      principal: { id: userId, type: req.principal.type },
+      env: buildEnvironmentAttributes()
+    });
+    
+    recordDecision(explanation, { source: DecisionSource.CHECK, requestId: getRequestId(req) });
     
     return res.status(200).json({
       status: 'success',
@@ -661,7 +723,8 @@ export async function checkCurrentUserPermission(req: AuthenticatedRequest, res:
         user_id: userId,
         team_id,
         permission_name,
-        has_permission: hasPermission
+        has_permission: explanation.allowed,
+        ...(explain && { explanation })
       }
     });
     
@@ -696,6 +759,7 @@ export default {
   
   // Summaries
   getRolesSummary,
+  getPermissionCacheStats,
   
   // User Permissions
   getCurrentUserPermissions,
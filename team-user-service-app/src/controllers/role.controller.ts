@@ -0,0 +1,242 @@
+import { Request, Response } from 'express';
+import {
+  listRoles,
+  getRoleByName,
+  createRole,
+  updateRole,
+  deleteRole
+} from '../services/role.service';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Role Controller
+ *
+ * Handles HTTP requests for the role catalogue: the built-in
+ * admin/operator/viewer roles and custom roles.
+ * What each role may do is managed through permission.controller.ts.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+// ============================================
+// ROLE CRUD ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/roles
+ *
+ * List all roles, highest rank first
+ *
+ * @access Authenticated users
+ */
+export async function listAllRoles(req: Request, res: Response) {
+  try {
+    const roles = await listRoles();
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Roles retrieved successfully',
+      data: {
+        roles,
+        count: roles.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST ROLES ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve roles',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * GET /api/v1/roles/:role
+ *
+ * Get a specific role
+ *
+ * @access Authenticated users
+ * @param role - The role name
+ */
+export async function getRole(req: Request, res: Response) {
+  try {
+    const { role: roleName } = req.params;
+
+    const role = await getRoleByName(roleName);
+
+    if (!role) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Role '${roleName}' not found`
+      });
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Role retrieved successfully',
+      data: { role }
+    });
+
+  } catch (error) {
+    console.error('[GET ROLE ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve role',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/roles
+ *
+ * Create a custom role
+ *
+ * @access Admin only
+ * @body {
+ *   name: string,         // e.g. 'incident-commander'
+ *   rank: number,         // admin 300, operator 200, viewer 100
+ *   description?: string
+ * }
+ */
+export async function createNewRole(req: Request, res: Response) {
+  try {
+    const { name, rank, description } = req.body;
+
+    if (!name || rank === undefined) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required fields: name and rank are required'
+      });
+    }
+
+    const role = await createRole({ name, rank, description });
+
+    createLogger(getRequestId(req), req.principal?.id).info(`ROLE_CREATED: ${role.name}`, {
+      roleId: role.id,
+      rank: role.rank
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: `Role '${role.name}' created successfully`,
+      data: { role }
+    });
+
+  } catch (error) {
+    console.error('[CREATE ROLE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create role',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PATCH /api/v1/roles/:role
+ *
+ * Update a role's description or rank. System roles only allow their
+ * description to change.
+ *
+ * @access Admin only
+ * @param role - The role name
+ * @body { description?: string, rank?: number }
+ */
+export async function updateExistingRole(req: Request, res: Response) {
+  try {
+    const { role: roleName } = req.params;
+    const { description, rank } = req.body;
+
+    if (description === undefined && rank === undefined) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Nothing to update: provide description and/or rank'
+      });
+    }
+
+    const role = await updateRole(roleName, { description, rank });
+
+    createLogger(getRequestId(req), req.principal?.id).info(`ROLE_UPDATED: ${role.name}`, {
+      roleId: role.id,
+      rank: role.rank
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Role '${role.name}' updated successfully`,
+      data: { role }
+    });
+
+  } catch (error) {
+    console.error('[UPDATE ROLE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update role',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/roles/:role
+ *
+ * Delete a custom role. System roles and roles still held by a team
+ * member cannot be deleted.
+ *
+ * @access Admin only
+ * @param role - The role name
+ */
+export async function deleteExistingRole(req: Request, res: Response) {
+  try {
+    const { role: roleName } = req.params;
+
+    await deleteRole(roleName);
+
+    createLogger(getRequestId(req), req.principal?.id).info(`ROLE_DELETED: ${roleName}`);
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Role '${roleName}' deleted successfully`,
+      data: { role: roleName }
+    });
+
+  } catch (error) {
+    console.error('[DELETE ROLE ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to delete role',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  listAllRoles,
+  getRole,
+  createNewRole,
+  updateExistingRole,
+  deleteExistingRole
+};
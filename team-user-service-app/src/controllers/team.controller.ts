@@ -0,0 +1,275 @@
+import { Request, Response } from 'express';
+import {
+  getTeamById,
+  getTeamsForUser,
+  createTeam,
+  updateTeam,
+  deleteTeam,
+  TeamUpdates
+} from '../services/team.service';
+import { createLogger, getRequestId } from '../utils/logger.utils';
+import { getAuditContext } from '../utils/audit.utils';
+import { AppError, toErrorBody } from '../utils/errors.utils';
+
+/**
+ * Team Controller
+ *
+ * Handles HTTP requests for team lifecycle management.
+ * Membership of a team is handled by member.controller.ts.
+ *
+ * All endpoints should be protected with appropriate middleware!
+ */
+
+// ============================================
+// TEAM CRUD ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/teams
+ *
+ * List the teams the current user belongs to
+ *
+ * @access Authenticated users
+ * @returns Array of teams with the user's role on each
+ */
+export async function listMyTeams(req: Request, res: Response) {
+  try {
+    if (!req.principal) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+    }
+
+    const teams = await getTeamsForUser(req.principal.id);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Teams retrieved successfully',
+      data: {
+        teams: teams.map(({ team, role }) => ({ ...team.toJSON(), role })),
+        count: teams.length
+      }
+    });
+
+  } catch (error) {
+    console.error('[LIST TEAMS ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve teams',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * GET /api/v1/teams/:teamId
+ *
+ * Get a specific team
+ *
+ * @access Team members
+ * @param teamId - The team ID
+ */
+export async function getTeam(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+
+    const team = await getTeamById(teamId);
+
+    if (!team) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Team '${teamId}' not found`
+      });
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Team retrieved successfully',
+      data: { team }
+    });
+
+  } catch (error) {
+    console.error('[GET TEAM ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve team',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * POST /api/v1/teams
+ *
+ * Create a new team. The caller becomes its owner and first admin.
+ *
+ * @access Authenticated users
+ * @body {
+ *   name: string,
+ *   slug?: string,
+ *   description?: string
+ * }
+ */
+export async function createNewTeam(req: Request, res: Response) {
+  try {
+    if (!req.principal) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+    }
+
+    const { name, slug, description } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required field: name'
+      });
+    }
+
+    const team = await createTeam({
+      name,
+      slug,
+      description,
+      owner_id: req.principal.id
+    }, getAuditContext(req));
+
+    createLogger(getRequestId(req), req.principal.id).teamEvent('TEAM_CREATED', team._id.toString(), {
+      slug: team.slug,
+      ownerId: team.owner_id
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      message: 'Team created successfully',
+      data: { team }
+    });
+
+  } catch (error) {
+    console.error('[CREATE TEAM ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create team',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * PUT /api/v1/teams/:teamId
+ *
+ * Update an existing team
+ *
+ * @access Team members with 'team:edit' permission
+ * @param teamId - The team to update
+ * @body { name?, slug?, description? }
+ */
+export async function updateExistingTeam(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+    const { name, slug, description } = req.body;
+
+    // Build updates object (only include provided fields)
+    const updates: TeamUpdates = {};
+    if (name !== undefined) updates.name = name;
+    if (slug !== undefined) updates.slug = slug;
+    if (description !== undefined) updates.description = description;
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'No update fields provided'
+      });
+    }
+
+    const team = await updateTeam(teamId, updates);
+
+    if (!team) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Team '${teamId}' not found`
+      });
+    }
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('TEAM_UPDATED', teamId, {
+      fields: Object.keys(updates)
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Team updated successfully',
+      data: { team }
+    });
+
+  } catch (error) {
+    console.error('[UPDATE TEAM ERROR]', error);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json(toErrorBody(error));
+    }
+
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update team',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/teams/:teamId
+ *
+ * Delete a team (and all its memberships)
+ *
+ * @access Team members with 'team:delete' permission
+ * @param teamId - The team to delete
+ */
+export async function deleteExistingTeam(req: Request, res: Response) {
+  try {
+    const { teamId } = req.params;
+
+    const deleted = await deleteTeam(teamId, getAuditContext(req));
+
+    if (!deleted) {
+      return res.status(404).json({
+        status: 'error',
+        message: `Team '${teamId}' not found`
+      });
+    }
+
+    createLogger(getRequestId(req), req.principal?.id).teamEvent('TEAM_DELETED', teamId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Team deleted successfully',
+      data: { deleted: true }
+    });
+
+  } catch (error) {
+    console.error('[DELETE TEAM ERROR]', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to delete team',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// ============================================
+// EXPORT ALL CONTROLLERS
+// ============================================
+
+export default {
+  listMyTeams,
+  getTeam,
+  createNewTeam,
+  updateExistingTeam,
+  deleteExistingTeam
+};
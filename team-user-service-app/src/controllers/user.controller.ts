@@ -1,21 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
 import userService from '../services/user.service';
+import { getTeammateIds } from '../services/member.service';
+import { env } from '../config/env.config';
+import { AppError } from '../utils/errors.utils';
 
-// Extended Request with userId from middleware
-interface AuthRequest<P = any, ResBody = any, ReqBody = any, ReqQuery = any>
-  extends Request<P, ResBody, ReqBody, ReqQuery> {
-  userId?: string;
+// Typed errors carry their status: 404 for unknown users, 502/504 when
+// the auth service fails or times out. Anything else is ours: 500.
+function statusFor(error: unknown): number {
+  return error instanceof AppError ? error.statusCode : 500;
 }
 
 class UserController {
   // GET /users/me - Get my own profile
   async getMyProfile(
-    req: AuthRequest,
+    req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      const userId = req.userId;
+      const userId = req.principal?.id;
 
       if (!userId) {
         res.status(401).json({ message: 'User not authenticated' });
@@ -29,7 +32,7 @@ class UserController {
         data: user,
       });
     } catch (error) {
-      res.status(500).json({
+      res.status(statusFor(error)).json({
         success: false,
         message:
           error instanceof Error
@@ -41,7 +44,7 @@ class UserController {
 
   // GET /users/:id - Get any user's profile (for internal lookups)
   async getUserById(
-    req: AuthRequest<{ id: string }>, // 👈 add params type
+    req: Request<{ id: string }>, // 👈 add params type
     res: Response,
     next: NextFunction
   ): Promise<void> {
@@ -55,13 +58,157 @@ class UserController {
         data: user,
       });
     } catch (error) {
-      res.status(500).json({
+      res.status(statusFor(error)).json({
         success: false,
         message:
           error instanceof Error ? error.message : 'Failed to fetch user',
       });
     }
   }
+
+  // POST /users/batch - Look up many users at once
+  // Body: { ids: string[] } (deduplicated; at most USER_BATCH_MAX_IDS)
+  // Users only see themselves and teammates; anyone else is reported as
+  // missing, so the endpoint doesn't reveal who exists
+  async getUsersBatch(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const ids = req.body?.ids;
+
+      if (!Array.isArray(ids) || ids.length === 0
+        || !ids.every(id => typeof id === 'string' && id.length > 0)) {
+        res.status(400).json({
+          success: false,
+          message: 'ids must be a non-empty array of user ids',
+        });
+        return;
+      }
+
+      const unique: string[] = [...new Set<string>(ids)];
+
+      if (unique.length > env.USER_BATCH_MAX_IDS) {
+        res.status(400).json({
+          success: false,
+          message: `At most ${env.USER_BATCH_MAX_IDS} ids can be looked up at once`,
+        });
+        return;
+      }
+
+      let visible = unique;
+
+      if (req.principal?.type === 'user') {
+        const teammates = await getTeammateIds(req.principal.id);
+        teammates.add(req.principal.id);
+        visible = unique.filter(id => teammates.has(id));
+      }
+
+      const result = await userService.getUsersByIds(visible);
+      const missing = new Set(result.missing);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          users: result.users,
+          missing: unique.filter(id => missing.has(id) || !visible.includes(id)),
+          unavailable: result.unavailable,
+        },
+      });
+    } catch (error) {
+      res.status(statusFor(error)).json({
+        success: false,
+        message:
+          error instanceof Error ? error.message : 'Failed to fetch users',
+      });
+    }
+  }
+
+  // PUT /users/me/profile - Edit my team service profile fields
+  // Body: { time_zone?, locale?, title?, avatar_url?, skills? } (null clears a field)
+  async updateMyProfile(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.principal?.id;
+
+      if (!userId) {
+        res.status(401).json({ message: 'User not authenticated' });
+        return;
+      }
+
+      const { time_zone, locale, title, avatar_url, skills } = req.body;
+
+      const user = await userService.updateProfile(userId, {
+        time_zone,
+        locale,
+        title,
+        avatar_url,
+        skills,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: user,
+      });
+    } catch (error) {
+      res.status(statusFor(error)).json({
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : 'Failed to update user profile',
+      });
+    }
+  }
+
+  // POST /users/:id/sync - Refresh our copy of a user (internal services)
+  // The auth service may push the user in the body; otherwise we fetch it
+  async syncUser(
+    req: Request<{ id: string }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const pushed = req.body?.user;
+
+      if (pushed && pushed.user_id !== id) {
+        res.status(400).json({
+          success: false,
+          message: 'user.user_id must match the user in the URL',
+        });
+        return;
+      }
+      if (pushed && (typeof pushed.email !== 'string' || typeof pushed.status !== 'string')) {
+        res.status(400).json({
+          success: false,
+          message: 'user must include email and status',
+        });
+        return;
+      }
+
+      if (pushed) {
+        await userService.applyAuthUser(pushed);
+      } else {
+        await userService.syncUser(id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: await userService.getUserById(id),
+      });
+    } catch (error) {
+      res.status(statusFor(error)).json({
+        success: false,
+        message:
+          error instanceof Error ? error.message : 'Failed to sync user',
+      });
+    }
+  }
 }
 
 export default new UserController();
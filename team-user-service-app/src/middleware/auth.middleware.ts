@@ -1,16 +1,82 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import jwt, { Algorithm, GetPublicKeyOrSecret, JwtPayload, VerifyOptions } from 'jsonwebtoken';
+import { Principal, TokenClaims } from '../types/principal.types';
+import { jwksManager } from '../config/jwks.config';
+import { env, jwtAlgorithms } from '../config/env.config';
 
-// Extend Express Request to include userId
-interface AuthRequest extends Request {
-  userId?: string;
+const verifyOptions: VerifyOptions = {
+  algorithms: jwtAlgorithms as Algorithm[],
+  clockTolerance: env.JWT_CLOCK_TOLERANCE_SEC,
+  ...(env.JWT_ISSUER && { issuer: env.JWT_ISSUER }),
+  ...(env.JWT_AUDIENCE && {
+    audience: env.JWT_AUDIENCE.split(',').map(aud => aud.trim()) as [string, ...string[]]
+  }),
+};
+
+/**
+ * Resolve the verification key from the token header's kid
+ */
+const getSigningKey: GetPublicKeyOrSecret = (header, callback) => {
+  jwksManager.getKey(header.kid, header.alg)
+    .then(key => callback(null, key))
+    .catch(error => callback(error));
+};
+
+/**
+ * Verify a token's signature, algorithm, issuer, audience and expiry
+ */
+export function verifyToken(token: string): Promise<JwtPayload> {
+  return new Promise((resolve, reject) => {
+    jwt.verify(token, getSigningKey, verifyOptions, (error, decoded) => {
+      if (error || !decoded || typeof decoded !== 'object') {
+        return reject(error || new Error('Invalid token payload'));
+      }
+      resolve(decoded);
+    });
+  });
+}
+
+/**
+ * Read scopes from either an OAuth-style space-separated `scope` claim
+ * or a `scopes` array claim
+ */
+function extractScopes(claims: TokenClaims): string[] {
+  if (typeof claims.scope === 'string') {
+    return claims.scope.split(' ').filter(Boolean);
+  }
+  if (Array.isArray(claims.scopes)) {
+    return claims.scopes.filter((scope): scope is string => typeof scope === 'string');
+  }
+  return [];
+}
+
+/**
+ * Build the request principal from verified token claims.
+ * The auth service puts the user id in `sub`; older tokens use `userId`.
+ */
+export function buildUserPrincipal(claims: TokenClaims): Principal | null {
+  const id = typeof claims.sub === 'string' ? claims.sub
+    : typeof claims.userId === 'string' ? claims.userId
+    : null;
+
+  if (!id) {
+    return null;
+  }
+
+  return {
+    id,
+    type: 'user',
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    scopes: extractScopes(claims),
+    claims
+  };
 }
 
-export const authenticateToken = (
-  req: AuthRequest,
+export const authenticateToken = async (
+  req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   // Get token from header
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Format: "Bearer TOKEN"
@@ -22,12 +88,18 @@ export const authenticateToken = (
   }
 
   try {
-    // Verify the token
-    const secret = process.env.JWT_SECRET || 'your-secret-key';
-    const decoded = jwt.verify(token, secret) as { userId: string };
+    // Verify the token against the auth service's public keys
+    const decoded = await verifyToken(token);
+
+    const principal = buildUserPrincipal(decoded as TokenClaims);
 
-    // Attach userId to request so controllers can use it
-    req.userId = decoded.userId;
+    if (!principal) {
+      res.status(403).json({ message: 'Invalid token: missing subject.' });
+      return;
+    }
+
+    // Attach the principal to the request so middleware and controllers can use it
+    req.principal = principal;
 
     // Let them through
     next();
@@ -35,4 +107,20 @@ export const authenticateToken = (
     res.status(403).json({ message: 'Invalid or expired token.' });
     return;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Only allow end users (not service principals).
+ * Use on "/me" endpoints, which have no meaning for a calling service.
+ */
+export const requireUserPrincipal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.principal || req.principal.type !== 'user') {
+    res.status(401).json({ message: 'This endpoint requires a user token.' });
+    return;
+  }
+  next();
+};
@@ -0,0 +1,105 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { AppError, isDuplicateKeyError, toErrorBody } from '../utils/errors.utils';
+import { logger, getRequestId } from '../utils/logger.utils';
+import { isProduction } from '../config/env.config';
+
+/**
+ * Error Middleware
+ *
+ * Last stop for every request. Anything a route or middleware throws
+ * (or passes to next(error)) ends up here and is turned into the same
+ * `{ status, message, error }` envelope used by role.middleware.ts.
+ */
+
+// ============================================
+// 404 HANDLER
+// ============================================
+
+/**
+ * Respond to requests that matched no route
+ */
+export function notFoundHandler(req: Request, res: Response) {
+  return res.status(404).json({
+    status: 'error',
+    message: `Route ${req.method} ${req.originalUrl} not found`,
+    error: 'NOT_FOUND'
+  });
+}
+
+// ============================================
+// ERROR MAPPING
+// ============================================
+
+/**
+ * Translate a thrown error into an AppError with an HTTP status
+ */
+function toAppError(error: any): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  // body-parser errors (malformed JSON, payload too large, ...)
+  if (error && typeof error.status === 'number' && error.type) {
+    if (error.type === 'entity.parse.failed') {
+      return new AppError('Request body is not valid JSON', 400, 'BAD_REQUEST');
+    }
+    if (error.type === 'entity.too.large') {
+      return new AppError('Request body is too large', 413, 'PAYLOAD_TOO_LARGE');
+    }
+    return new AppError(error.message, error.status, 'BAD_REQUEST');
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    return new AppError(error.message, 400, 'VALIDATION_ERROR');
+  }
+
+  if (error instanceof mongoose.Error.CastError) {
+    return new AppError(`Invalid value for '${error.path}'`, 400, 'BAD_REQUEST');
+  }
+
+  // Unique index violation
+  if (isDuplicateKeyError(error)) {
+    return new AppError('Resource already exists', 409, 'CONFLICT');
+  }
+
+  // Don't leak internals in production
+  const message = !isProduction && error instanceof Error
+    ? error.message
+    : 'An unexpected error occurred';
+
+  return new AppError(message, 500, 'INTERNAL_SERVER_ERROR');
+}
+
+// ============================================
+// CENTRAL ERROR HANDLER
+// ============================================
+
+/**
+ * Express error handler - must be registered after all routes
+ */
+export function errorHandler(error: any, req: Request, res: Response, next: NextFunction) {
+  // Headers already sent: let Express close the connection
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const appError = toAppError(error);
+
+  if (appError.statusCode >= 500) {
+    logger.error('Unhandled request error', {
+      requestId: getRequestId(req),
+      method: req.method,
+      path: req.originalUrl,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+  }
+
+  return res.status(appError.statusCode).json(toErrorBody(appError));
+}
+
+export default {
+  notFoundHandler,
+  errorHandler
+};
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { env } from '../config/env.config';
+import { authenticateToken } from './auth.middleware';
+
+/**
+ * Internal Service Middleware
+ *
+ * Authenticates calls from other AIMA services (alerting, incidents, ...)
+ * using an HMAC signature keyed by INTERNAL_SERVICE_SECRET.
+ *
+ * A caller signs each request with:
+ *
+ *   X-Service-Name: incident-service
+ *   X-Timestamp:    <unix time in milliseconds>
+ *   X-Signature:    hex(HMAC-SHA256(secret, SERVICE \n METHOD \n PATH \n TIMESTAMP \n hex(SHA256(body))))
+ *
+ * where SERVICE is the X-Service-Name value and PATH is the full request
+ * path including the query string. The service name is signed because
+ * it becomes the principal id, which audit events and decision logs
+ * record.
+ * Requests older than INTERNAL_AUTH_MAX_SKEW_SEC are rejected, and each
+ * signature is accepted only once within that window (replay protection).
+ */
+
+const SERVICE_NAME_HEADER = 'x-service-name';
+const TIMESTAMP_HEADER = 'x-timestamp';
+const SIGNATURE_HEADER = 'x-signature';
+
+// ============================================
+// REPLAY PROTECTION
+// ============================================
+
+/**
+ * Signatures seen within the skew window, with the time they can be forgotten.
+ * A replayed request has an identical signature, so it is rejected here.
+ */
+const seenSignatures = new Map<string, number>();
+
+function pruneSeenSignatures(now: number): void {
+  for (const [signature, expiresAt] of seenSignatures) {
+    if (expiresAt <= now) {
+      seenSignatures.delete(signature);
+    }
+  }
+}
+
+setInterval(() => pruneSeenSignatures(Date.now()), 60 * 1000).unref();
+
+// ============================================
+// SIGNATURES
+// ============================================
+
+/**
+ * Compute the signature for a request. Exported so tests and internal
+ * clients in this codebase sign requests the same way we verify them.
+ */
+export function signInternalRequest(
+  serviceName: string,
+  method: string,
+  path: string,
+  timestamp: string,
+  body: Buffer | string = ''
+): string {
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  const payload = [serviceName, method.toUpperCase(), path, timestamp, bodyHash].join('\n');
+
+  return crypto
+    .createHmac('sha256', env.INTERNAL_SERVICE_SECRET)
+    .update(payload)
+    .digest('hex');
+}
+
+function signaturesMatch(expected: string, provided: string): boolean {
+  const expectedBuf = Buffer.from(expected, 'hex');
+  const providedBuf = Buffer.from(provided, 'hex');
+
+  return expectedBuf.length === providedBuf.length
+    && crypto.timingSafeEqual(expectedBuf, providedBuf);
+}
+
+function sendUnauthorized(res: Response, message: string): Response {
+  return res.status(401).json({
+    status: 'error',
+    message,
+    error: 'UNAUTHORIZED'
+  });
+}
+
+function sendForbidden(res: Response, message: string): Response {
+  return res.status(403).json({
+    status: 'error',
+    message,
+    error: 'PERMISSION_DENIED'
+  });
+}
+
+// ============================================
+// AUTHENTICATION MIDDLEWARE
+// ============================================
+
+/**
+ * Authenticate an HMAC-signed request from another service and attach
+ * a service principal to the request
+ */
+export function authenticateInternalService(req: Request, res: Response, next: NextFunction) {
+  const serviceName = req.header(SERVICE_NAME_HEADER);
+  const timestamp = req.header(TIMESTAMP_HEADER);
+  const signature = req.header(SIGNATURE_HEADER);
+
+  if (!serviceName || !timestamp || !signature) {
+    return sendUnauthorized(res, 'Missing internal service authentication headers');
+  }
+
+  const now = Date.now();
+  const sentAt = Number(timestamp);
+  const maxSkewMs = env.INTERNAL_AUTH_MAX_SKEW_SEC * 1000;
+
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > maxSkewMs) {
+    return sendUnauthorized(res, 'Internal request timestamp is outside the allowed window');
+  }
+
+  const expected = signInternalRequest(serviceName, req.method, req.originalUrl, timestamp, req.rawBody);
+
+  if (!/^[0-9a-f]+$/i.test(signature) || !signaturesMatch(expected, signature)) {
+    return sendUnauthorized(res, 'Invalid internal request signature');
+  }
+
+  if (seenSignatures.has(signature)) {
+    console.warn(`[INTERNAL AUTH] Replayed request from '${serviceName}' rejected`);
+    return sendUnauthorized(res, 'Internal request has already been used');
+  }
+  // Remember it for as long as the timestamp would still be accepted
+  seenSignatures.set(signature, sentAt + maxSkewMs);
+
+  req.principal = {
+    id: serviceName,
+    type: 'service',
+    scopes: ['internal'],
+    claims: { service: serviceName, iat: Math.floor(sentAt / 1000) }
+  };
+
+  next();
+}
+
+/**
+ * Accept either a signed internal request or a user JWT.
+ * Requests carrying an X-Signature header are treated as internal.
+ */
+export function authenticateUserOrService(req: Request, res: Response, next: NextFunction) {
+  if (req.header(SIGNATURE_HEADER)) {
+    return authenticateInternalService(req, res, next);
+  }
+  return authenticateToken(req, res, next);
+}
+
+// ============================================
+// AUTHORIZATION MIDDLEWARE
+// ============================================
+
+/**
+ * Only allow internal service callers
+ */
+export function requireInternalService() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.principal) {
+      return sendUnauthorized(res, 'Authentication required');
+    }
+    if (req.principal.type !== 'service') {
+      return sendForbidden(res, 'This endpoint is only available to internal services');
+    }
+    next();
+  };
+}
+
+/**
+ * Allow internal service callers, or users whose token grants the given scope
+ *
+ * @example
+ * router.post('/', requireInternalOrScope('permissions:admin'), createPermission);
+ */
+export function requireInternalOrScope(scope: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.principal) {
+      return sendUnauthorized(res, 'Authentication required');
+    }
+    if (req.principal.type === 'service' || req.principal.scopes.includes(scope)) {
+      return next();
+    }
+    return sendForbidden(res, `This action requires the '${scope}' scope`);
+  };
+}
+
+export default {
+  authenticateInternalService,
+  authenticateUserOrService,
+  requireInternalService,
+  requireInternalOrScope
+};
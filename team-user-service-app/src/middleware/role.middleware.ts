@@ -2,9 +2,20 @@ import { Request, Response, NextFunction } from 'express';
 import { 
   checkUserPermission, 
   checkUserRole,
+  explainUserPermission,
   getUserPermissionsForTeam 
 } from '../services/permission.service';
-import { RoleType } from '../models/RolePermission.model';
+import { recordDecision } from '../services/authz.decision.service';
+import { DecisionSource } from '../models/AuthzDecision.model';
+import { getRequestId } from '../utils/logger.utils';
+import { getUserRoleInTeam, getUserTeamsWithRoles } from '../services/member.service';
+import { getRoleByName } from '../services/role.service';
+import {
+  AttributeContext,
+  PermissionCondition,
+  buildEnvironmentAttributes,
+  describeCondition
+} from '../utils/condition.utils';
 
 /**
  * Role Middleware
@@ -14,27 +25,9 @@ import { RoleType } from '../models/RolePermission.model';
  * 
  * Every protected route should use one of these middleware functions
  * to ensure only authorized users can access it.
- */
-
-// ============================================
-// EXTENDED REQUEST INTERFACE
-// ============================================
-
-/**
- * Extended Express Request with user information
- * 
- * After auth.middleware.ts validates the JWT, it should attach:
- * - req.user.id (user_id from the token)
  * 
- * This middleware expects that structure.
+ * Expects auth.middleware.ts to have attached req.principal.
  */
-export interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;           // user_id extracted from JWT
-    email?: string;       // optional - if auth middleware includes it
-    [key: string]: any;   // other user properties
-  };
-}
 
 // ============================================
 // UTILITY FUNCTIONS
@@ -68,14 +61,45 @@ function extractTeamId(req: Request): string | null {
   return null;
 }
 
+/**
+ * Pulls the resource attributes a conditional grant is judged on out of
+ * the request, e.g. the incident's severity or the record's owner.
+ * Returned values are available to conditions as `resource.*`.
+ */
+export type AttributeExtractor = (
+  req: Request
+) => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+/**
+ * Build the attributes conditional grants are evaluated against
+ */
+async function buildAttributeContext(
+  req: Request,
+  extractAttributes?: AttributeExtractor
+): Promise<AttributeContext> {
+  return {
+    principal: req.principal ? { id: req.principal.id, type: req.principal.type } : undefined,
+    resource: extractAttributes ? await extractAttributes(req) : undefined,
+    env: buildEnvironmentAttributes()
+  };
+}
+
 /**
  * Send standardized permission denied response
+ * 
+ * When a conditional grant was the reason, the failed conditions are
+ * listed so the caller knows what to change.
  */
-function sendPermissionDenied(res: Response, message?: string): Response {
+function sendPermissionDenied(
+  res: Response,
+  message?: string,
+  failedConditions: Array<PermissionCondition & { actual: unknown }> = []
+): Response {
   return res.status(403).json({
     status: 'error',
     message: message || 'You do not have permission to perform this action',
-    error: 'PERMISSION_DENIED'
+    error: 'PERMISSION_DENIED',
+    ...(failedConditions.length > 0 && { failed_conditions: failedConditions })
   });
 }
 
@@ -111,25 +135,37 @@ function sendBadRequest(res: Response, message: string): Response {
  * This is the PRIMARY middleware function you'll use most.
  * It checks if the authenticated user has a specific permission.
  * 
- * @param permissionName - The permission required (e.g., 'delete_member')
+ * @param permissionName - The permission required (e.g., 'member:remove')
+ * @param extractAttributes - Optional; supplies the `resource.*` attributes
+ *                            that conditional grants of this permission need
  * 
  * @example
  * // Protect a route that deletes team members
  * router.delete(
  *   '/teams/:teamId/members/:memberId',
- *   requirePermission('remove_member'),
+ *   requirePermission('member:remove'),
  *   memberController.removeMember
  * );
+ * 
+ * // Conditional grants (e.g. "only below P1") are judged on the incident
+ * router.post(
+ *   '/teams/:teamId/incidents/:incidentId/close',
+ *   requirePermission('incident:close', async (req) => {
+ *     const incident = await getIncident(req.params.incidentId);
+ *     return { severity: incident.severity, owner_id: incident.owner_id };
+ *   }),
+ *   incidentController.close
+ * );
  */
-export function requirePermission(permissionName: string) {
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+export function requirePermission(permissionName: string, extractAttributes?: AttributeExtractor) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
       // Step 1: Check if user is authenticated
-      if (!req.user || !req.user.id) {
+      if (!req.principal) {
         return sendUnauthorized(res, 'You must be logged in to perform this action');
       }
       
-      const userId = req.user.id;
+      const userId = req.principal.id;
       
       // Step 2: Extract team ID from request
       const teamId = extractTeamId(req);
@@ -138,14 +174,32 @@ export function requirePermission(permissionName: string) {
         return sendBadRequest(res, 'Team ID is required for this operation');
       }
       
-      // Step 3: Check if user has the required permission
-      const hasPermission = await checkUserPermission(userId, teamId, permissionName);
+      // Step 3: Check if user has the required permission, judging any
+      // conditional grants on the request's attributes
+      const context = await buildAttributeContext(req, extractAttributes);
+      const explanation = await explainUserPermission(userId, teamId, permissionName, context);
       
-      if (!hasPermission) {
-        console.warn(`[PERMISSION DENIED] User ${userId} attempted '${permissionName}' on team ${teamId}`);
+      // Sampled decisions are kept in authz_decisions
+      recordDecision(explanation, {
+        source: DecisionSource.MIDDLEWARE,
+        requestId: getRequestId(req),
+        route: `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`
+      });
+      
+      if (!explanation.allowed) {
+        console.warn(
+          `[PERMISSION DENIED] User ${userId} attempted '${permissionName}' on team ${teamId} (${explanation.reason})`
+        );
+        
+        const failedConditions = explanation.failed_conditions;
+        const action = permissionName.replace(/[_:]/g, ' ');
+        
         return sendPermissionDenied(
           res,
-          `You do not have permission to ${permissionName.replace(/_/g, ' ')}`
+          failedConditions.length > 0
+            ? `You may only ${action} when: ${failedConditions.map(describeCondition).join(', ')}`
+            : `You do not have permission to ${action}`,
+          failedConditions
         );
       }
       
@@ -179,27 +233,29 @@ export function requirePermission(permissionName: string) {
  * // Allow if user can either edit OR view team
  * router.get(
  *   '/teams/:teamId',
- *   requireAnyPermission(['edit_team', 'view_team']),
+ *   requireAnyPermission(['team:edit', 'team:read']),
  *   teamController.getTeam
  * );
  */
 export function requireAnyPermission(permissionNames: string[]) {
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.user || !req.user.id) {
+      if (!req.principal) {
         return sendUnauthorized(res);
       }
       
-      const userId = req.user.id;
+      const userId = req.principal.id;
       const teamId = extractTeamId(req);
       
       if (!teamId) {
         return sendBadRequest(res, 'Team ID is required');
       }
       
+      const context = await buildAttributeContext(req);
+      
       // Check each permission - grant access if ANY match
       for (const permission of permissionNames) {
-        const hasPermission = await checkUserPermission(userId, teamId, permission);
+        const hasPermission = await checkUserPermission(userId, teamId, permission, context);
         if (hasPermission) {
           req.params.teamId = teamId;
           console.log(`[PERMISSION GRANTED] User ${userId} has '${permission}' on team ${teamId}`);
@@ -233,27 +289,29 @@ export function requireAnyPermission(permissionNames: string[]) {
  * // Require both edit AND delete permissions
  * router.delete(
  *   '/teams/:teamId',
- *   requireAllPermissions(['edit_team', 'delete_team']),
+ *   requireAllPermissions(['team:edit', 'team:delete']),
  *   teamController.deleteTeam
  * );
  */
 export function requireAllPermissions(permissionNames: string[]) {
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.user || !req.user.id) {
+      if (!req.principal) {
         return sendUnauthorized(res);
       }
       
-      const userId = req.user.id;
+      const userId = req.principal.id;
       const teamId = extractTeamId(req);
       
       if (!teamId) {
         return sendBadRequest(res, 'Team ID is required');
       }
       
+      const context = await buildAttributeContext(req);
+      
       // Check each permission - all must match
       for (const permission of permissionNames) {
-        const hasPermission = await checkUserPermission(userId, teamId, permission);
+        const hasPermission = await checkUserPermission(userId, teamId, permission, context);
         if (!hasPermission) {
           console.warn(`[PERMISSION DENIED] User ${userId} lacks '${permission}' on team ${teamId}`);
           return sendPermissionDenied(
@@ -288,7 +346,7 @@ export function requireAllPermissions(permissionNames: string[]) {
  * 
  * Use this when you want to restrict by role rather than specific permissions.
  * 
- * @param role - The required role
+ * @param role - The name of the required role
  * 
  * @example
  * // Only admins can access this route
@@ -298,14 +356,14 @@ export function requireAllPermissions(permissionNames: string[]) {
  *   teamController.updateSettings
  * );
  */
-export function requireRole(role: RoleType) {
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+export function requireRole(role: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.user || !req.user.id) {
+      if (!req.principal) {
         return sendUnauthorized(res);
       }
       
-      const userId = req.user.id;
+      const userId = req.principal.id;
       const teamId = extractTeamId(req);
       
       if (!teamId) {
@@ -340,9 +398,10 @@ export function requireRole(role: RoleType) {
 /**
  * Require user to be at least a certain role level
  * 
- * Role hierarchy: admin > operator > viewer
+ * Roles are ordered by their rank (see Role.model.ts). Built-in hierarchy:
+ * admin (300) > operator (200) > viewer (100); custom roles slot in by rank.
  * 
- * @param minRole - Minimum required role
+ * @param minRole - Name of the minimum required role
  * 
  * @example
  * // Allow admins and operators, but not viewers
@@ -352,21 +411,14 @@ export function requireRole(role: RoleType) {
  *   memberController.updateMember
  * );
  */
-export function requireMinRole(minRole: RoleType) {
-  // Define role hierarchy
-  const roleHierarchy: Record<RoleType, number> = {
-    [RoleType.ADMIN]: 3,
-    [RoleType.OPERATOR]: 2,
-    [RoleType.VIEWER]: 1
-  };
-  
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+export function requireMinRole(minRole: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.user || !req.user.id) {
+      if (!req.principal) {
         return sendUnauthorized(res);
       }
       
-      const userId = req.user.id;
+      const userId = req.principal.id;
       const teamId = extractTeamId(req);
       
       if (!teamId) {
@@ -374,7 +426,6 @@ export function requireMinRole(minRole: RoleType) {
       }
       
       // Get user's actual role
-      const { getUserRoleInTeam } = await import('../services/mockup.member.service');
       const userRole = await getUserRoleInTeam(userId, teamId);
       
       if (!userRole) {
@@ -382,11 +433,17 @@ export function requireMinRole(minRole: RoleType) {
         return sendPermissionDenied(res, 'You are not a member of this team');
       }
       
-      // Compare role levels
-      const userLevel = roleHierarchy[userRole];
-      const requiredLevel = roleHierarchy[minRole];
+      // Compare role ranks (looked up per request, since ranks can change)
+      const [actualRole, requiredRole] = await Promise.all([
+        getRoleByName(userRole),
+        getRoleByName(minRole)
+      ]);
+      
+      if (!requiredRole) {
+        throw new Error(`requireMinRole: unknown role '${minRole}'`);
+      }
       
-      if (userLevel < requiredLevel) {
+      if (!actualRole || actualRole.rank < requiredRole.rank) {
         console.warn(`[ROLE DENIED] User ${userId} role '${userRole}' is below required '${minRole}'`);
         return sendPermissionDenied(
           res,
@@ -418,6 +475,9 @@ export function requireMinRole(minRole: RoleType) {
  * 
  * Use this for routes that any team member can access.
  * 
+ * @param options.allowServices - Also let internal service principals
+ *                                through (they are never team members)
+ * 
  * @example
  * // Any team member can view team details
  * router.get(
@@ -425,22 +485,28 @@ export function requireMinRole(minRole: RoleType) {
  *   requireTeamMembership(),
  *   teamController.getTeamDetails
  * );
+ * 
+ * // Team members, and incident tooling looking up who to page
+ * router.get('/now', requireTeamMembership({ allowServices: true }), oncallController.getCurrentOnCall);
  */
-export function requireTeamMembership() {
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+export function requireTeamMembership(options: { allowServices?: boolean } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.user || !req.user.id) {
+      if (!req.principal) {
         return sendUnauthorized(res);
       }
       
-      const userId = req.user.id;
+      if (options.allowServices && req.principal.type === 'service') {
+        return next();
+      }
+      
+      const userId = req.principal.id;
       const teamId = extractTeamId(req);
       
       if (!teamId) {
         return sendBadRequest(res, 'Team ID is required');
       }
       
-      const { getUserRoleInTeam } = await import('../services/mockup.member.service');
       const userRole = await getUserRoleInTeam(userId, teamId);
       
       if (!userRole) {
@@ -463,6 +529,64 @@ export function requireTeamMembership() {
   };
 }
 
+/**
+ * Allow access to another user's data only when the caller is that user,
+ * shares at least one team with them, or is an internal service
+ * 
+ * @param paramName - The route param holding the target user ID (default 'id')
+ * 
+ * @example
+ * // Teammates can look each other up, strangers cannot
+ * router.get(
+ *   '/users/:id',
+ *   requireSelfOrTeammate(),
+ *   userController.getUserById
+ * );
+ */
+export function requireSelfOrTeammate(paramName: string = 'id') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.principal) {
+        return sendUnauthorized(res);
+      }
+      
+      if (req.principal.type === 'service') {
+        return next();
+      }
+      
+      const userId = req.principal.id;
+      const targetUserId = req.params[paramName];
+      
+      if (!targetUserId || targetUserId === userId) {
+        return next();
+      }
+      
+      const [callerTeams, targetTeams] = await Promise.all([
+        getUserTeamsWithRoles(userId),
+        getUserTeamsWithRoles(targetUserId)
+      ]);
+      
+      const callerTeamIds = new Set(callerTeams.map(t => t.teamId));
+      const sharesTeam = targetTeams.some(t => callerTeamIds.has(t.teamId));
+      
+      if (!sharesTeam) {
+        console.warn(`[MEMBERSHIP DENIED] User ${userId} shares no team with user ${targetUserId}`);
+        return sendPermissionDenied(res, 'You can only view users who share a team with you');
+      }
+      
+      next();
+      
+    } catch (error) {
+      console.error('[MEMBERSHIP CHECK ERROR]', error);
+      return res.status(500).json({
+        status: 'error',
+        message: 'Error checking team membership',
+        error: 'INTERNAL_SERVER_ERROR'
+      });
+    }
+  };
+}
+
 // ============================================
 // OPTIONAL: ATTACH PERMISSIONS TO REQUEST
 // ============================================
@@ -484,13 +608,13 @@ export function requireTeamMembership() {
  * const permissions = req.permissions; // Array of permission names
  */
 export function attachUserPermissions() {
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.user || !req.user.id) {
+      if (!req.principal) {
         return next(); // Skip if not authenticated
       }
       
-      const userId = req.user.id;
+      const userId = req.principal.id;
       const teamId = extractTeamId(req);
       
       if (!teamId) {
@@ -526,5 +650,6 @@ export default {
   requireRole,
   requireMinRole,
   requireTeamMembership,
+  requireSelfOrTeammate,
   attachUserPermissions
 };
\ No newline at end of file
@@ -0,0 +1,148 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+export enum AuditAction {
+  PERMISSION_CREATED = 'permission.created',
+  PERMISSION_UPDATED = 'permission.updated',
+  PERMISSION_DELETED = 'permission.deleted',
+  ROLE_PERMISSION_ASSIGNED = 'role_permission.assigned',
+  ROLE_PERMISSION_REVOKED = 'role_permission.revoked',
+  TEAM_OVERRIDE_SET = 'team_permission_override.set',
+  TEAM_OVERRIDE_REMOVED = 'team_permission_override.removed',
+  MEMBER_ADDED = 'membership.added',
+  MEMBER_REMOVED = 'membership.removed',
+  MEMBER_ROLE_CHANGED = 'membership.role_changed',
+  INVITATION_CREATED = 'invitation.created',
+  INVITATION_RESENT = 'invitation.resent',
+  INVITATION_REVOKED = 'invitation.revoked'
+}
+
+export type AuditActorType = 'user' | 'service' | 'system';
+
+/**
+ * One administrative change, in an append-only hash chain.
+ *
+ * Events are numbered by `sequence`; each `hash` covers the event's
+ * content and the previous event's hash, so editing or removing any
+ * event breaks every hash after it (see audit.service.ts).
+ *
+ * The model refuses updates and deletes; events are only ever inserted.
+ */
+export interface IAuditEvent extends Document {
+  sequence: number;
+  action: AuditAction;
+  actor_id: string;
+  actor_type: AuditActorType;
+  target_type: string;               // 'permission', 'role', 'user' or 'invitation'
+  target_id: string;
+  team_id?: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  request_id?: string;
+  source_ip?: string;
+  prev_hash: string;
+  hash: string;
+  created_at: Date;
+}
+
+const AuditEventSchema: Schema = new Schema(
+  {
+    sequence: {
+      type: Number,
+      required: true,
+      unique: true,
+      min: 1,
+    },
+    action: {
+      type: String,
+      required: true,
+      enum: Object.values(AuditAction),
+    },
+    actor_id: {
+      type: String,
+      required: true,
+    },
+    actor_type: {
+      type: String,
+      required: true,
+      enum: ['user', 'service', 'system'],
+    },
+    target_type: {
+      type: String,
+      required: true,
+    },
+    target_id: {
+      type: String,
+      required: true,
+    },
+    team_id: {
+      type: String,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    request_id: {
+      type: String,
+    },
+    source_ip: {
+      type: String,
+    },
+    prev_hash: {
+      type: String,
+      required: true,
+    },
+    hash: {
+      type: String,
+      required: true,
+    },
+    // Set explicitly (not by timestamps) because it is part of the hash
+    created_at: {
+      type: Date,
+      required: true,
+    }
+  },
+  {
+    collection: 'audit_events',
+    minimize: false
+  }
+);
+
+AuditEventSchema.index({actor_id: 1, sequence: -1});
+AuditEventSchema.index({target_type: 1, target_id: 1, sequence: -1});
+AuditEventSchema.index({team_id: 1, sequence: -1});
+AuditEventSchema.index({action: 1, sequence: -1});
+
+// Append-only: block every write path except inserting new documents
+const IMMUTABLE_MESSAGE = 'Audit events are append-only and cannot be modified or deleted';
+
+AuditEventSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error(IMMUTABLE_MESSAGE));
+  }
+  next();
+});
+
+AuditEventSchema.pre(
+  [
+    'updateOne', 'updateMany', 'replaceOne',
+    'findOneAndUpdate', 'findOneAndReplace', 'findOneAndDelete',
+    'deleteOne', 'deleteMany'
+  ],
+  function(next) {
+    next(new Error(IMMUTABLE_MESSAGE));
+  }
+);
+
+AuditEventSchema.set('toJSON', {
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
@@ -0,0 +1,104 @@
+import mongoose, {Schema, Document} from "mongoose";
+import { env } from '../config/env.config';
+
+export enum DecisionSource {
+  MIDDLEWARE = 'middleware',     // requirePermission guarding a route
+  CHECK = 'check',               // POST /permissions/users/me/permissions/check
+  BATCH = 'batch'                // POST /authz/decisions
+}
+
+/**
+ * A sampled authorization decision, kept for auditing and debugging
+ * "why was I denied?" after the fact.
+ *
+ * Only a sample of decisions is written (see authz.decision.service.ts),
+ * and documents expire after AUTHZ_DECISION_RETENTION_DAYS.
+ */
+export interface IAuthzDecision extends Document {
+  decision_id: string;
+  user_id: string;
+  team_id: string;
+  permission: string;
+  allowed: boolean;
+  reason: string;
+  role: string | null;
+  source: DecisionSource;
+  request_id?: string;
+  route?: string;                      // e.g. "DELETE /api/v1/teams/:teamId"
+  explanation?: Record<string, unknown>;
+  created_at: Date;
+}
+
+const AuthzDecisionSchema: Schema = new Schema(
+  {
+    user_id: {
+      type: String,
+      required: true,
+    },
+    team_id: {
+      type: String,
+      required: true,
+    },
+    permission: {
+      type: String,
+      required: true,
+    },
+    allowed: {
+      type: Boolean,
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      default: null,
+    },
+    source: {
+      type: String,
+      required: true,
+      enum: Object.values(DecisionSource),
+    },
+    request_id: {
+      type: String,
+    },
+    route: {
+      type: String,
+    },
+    explanation: {
+      type: Schema.Types.Mixed,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: false
+    },
+    collection: 'authz_decisions'
+  }
+);
+
+// Queried newest first, by user, team and/or outcome
+AuthzDecisionSchema.index({user_id: 1, _id: -1});
+AuthzDecisionSchema.index({team_id: 1, _id: -1});
+AuthzDecisionSchema.index({allowed: 1, _id: -1});
+AuthzDecisionSchema.index(
+  {created_at: 1},
+  {expireAfterSeconds: env.AUTHZ_DECISION_RETENTION_DAYS * 24 * 60 * 60}
+);
+
+AuthzDecisionSchema.virtual('decision_id').get(function(this: IAuthzDecision) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+AuthzDecisionSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const AuthzDecision = mongoose.model<IAuthzDecision>('AuthzDecision', AuthzDecisionSchema);
@@ -0,0 +1,86 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+export enum CalendarFeedType {
+  USER = 'user',          // The owner's own shifts, across all their teams
+  TEAM = 'team'           // Every shift on one team's schedules
+}
+
+/**
+ * A subscribable on-call calendar (.ics) URL.
+ *
+ * Calendar clients can't send a JWT, so the URL carries a random token
+ * instead. Only its SHA-256 is stored; the token itself is shown once,
+ * when the feed is created. Revoking a feed makes its URL stop working.
+ */
+export interface ICalendarFeed extends Document {
+  feed_id: string;
+  token_hash: string;
+  type: CalendarFeedType;
+  user_id: string;                        // Owner
+  team_id?: mongoose.Types.ObjectId;      // Team feeds only
+  name?: string;
+  last_accessed_at?: Date;
+  revoked_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const CalendarFeedSchema: Schema = new Schema(
+  {
+    token_hash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    type: {
+      type: String,
+      required: true,
+      enum: Object.values(CalendarFeedType),
+    },
+    user_id: {
+      type: String,
+      required: true,
+    },
+    team_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    last_accessed_at: {
+      type: Date,
+    },
+    revoked_at: {
+      type: Date,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'calendar_feeds'
+  }
+);
+
+CalendarFeedSchema.index({user_id: 1, created_at: -1});
+CalendarFeedSchema.index({team_id: 1});
+
+CalendarFeedSchema.virtual('feed_id').get(function(this: ICalendarFeed) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+CalendarFeedSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    delete ret.token_hash;
+    return ret;
+  }
+});
+
+export const CalendarFeed = mongoose.model<ICalendarFeed>('CalendarFeed', CalendarFeedSchema);
@@ -0,0 +1,86 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+export enum ContactMethodType {
+  EMAIL = 'email',        // address: an email address
+  SMS = 'sms',            // address: an E.164 phone number
+  VOICE = 'voice',        // address: an E.164 phone number
+  PUSH = 'push',          // address: a device push token
+  WEBHOOK = 'webhook'     // address: an https URL
+}
+
+/**
+ * One way to reach a user during an incident.
+ *
+ * Methods start out unverified. Whatever delivers notifications marks
+ * them verified once the user has proven they receive messages there;
+ * changing the address makes a method unverified again.
+ */
+export interface IContactMethod extends Document {
+  contact_method_id: string;
+  user_id: string;
+  type: ContactMethodType;
+  address: string;
+  label?: string;
+  verified: boolean;
+  verified_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const ContactMethodSchema: Schema = new Schema(
+  {
+    user_id: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+      enum: Object.values(ContactMethodType),
+    },
+    address: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    verified: {
+      type: Boolean,
+      required: true,
+      default: false,
+    },
+    verified_at: {
+      type: Date,
+      default: null,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'contact_methods'
+  }
+);
+
+// A user can't add the same address twice for one type
+ContactMethodSchema.index({user_id: 1, type: 1, address: 1}, {unique: true});
+
+ContactMethodSchema.virtual('contact_method_id').get(function(this: IContactMethod) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+ContactMethodSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const ContactMethod = mongoose.model<IContactMethod>('ContactMethod', ContactMethodSchema);
@@ -0,0 +1,119 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+export enum EscalationTargetType {
+  USER = 'user',              // id: a user_id on the team
+  SCHEDULE = 'schedule',      // id: an on-call schedule of the team; whoever is on call
+  ROLE = 'role'               // id: a role name; every team member holding it
+}
+
+/**
+ * A team's escalation policy: who to page, in order, until someone
+ * acknowledges.
+ *
+ * Level n is paged delay_minutes after level n - 1 (the first level's
+ * delay counts from when the incident is triggered). Every target on a
+ * level is paged together.
+ */
+export interface IEscalationTarget {
+  type: EscalationTargetType;
+  id: string;
+}
+
+export interface IEscalationLevel {
+  delay_minutes: number;
+  targets: IEscalationTarget[];
+}
+
+export interface IEscalationPolicy extends Document {
+  policy_id: string;
+  team_id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  levels: IEscalationLevel[];
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const EscalationTargetSchema = new Schema(
+  {
+    type: {
+      type: String,
+      required: true,
+      enum: Object.values(EscalationTargetType),
+    },
+    id: {
+      type: String,
+      required: true,
+    }
+  },
+  { _id: false }
+);
+
+const EscalationLevelSchema = new Schema(
+  {
+    delay_minutes: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    targets: {
+      type: [EscalationTargetSchema],
+      required: true,
+    }
+  },
+  { _id: false }
+);
+
+const EscalationPolicySchema: Schema = new Schema(
+  {
+    team_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    levels: {
+      type: [EscalationLevelSchema],
+      required: true,
+    },
+    created_by: {
+      type: String,
+      required: true,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'escalation_policies'
+  }
+);
+
+// Policy names are unique within a team
+EscalationPolicySchema.index({team_id: 1, name: 1}, {unique: true});
+
+EscalationPolicySchema.virtual('policy_id').get(function(this: IEscalationPolicy) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+EscalationPolicySchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const EscalationPolicy = mongoose.model<IEscalationPolicy>('EscalationPolicy', EscalationPolicySchema);
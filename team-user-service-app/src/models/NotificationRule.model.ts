@@ -0,0 +1,74 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+export enum NotificationUrgency {
+  HIGH = 'high',
+  LOW = 'low'
+}
+
+/**
+ * When to use one of a user's contact methods for an incident.
+ *
+ * "SMS immediately for high urgency" is { urgency: high, sms method,
+ * delay_minutes: 0 }; "email after 5 minutes for low" is { urgency: low,
+ * email method, delay_minutes: 5 }. A user's rules for one urgency,
+ * ordered by delay, are their personal escalation for it.
+ */
+export interface INotificationRule extends Document {
+  rule_id: string;
+  user_id: string;
+  contact_method_id: mongoose.Types.ObjectId;
+  urgency: NotificationUrgency;
+  delay_minutes: number;          // After the user is paged
+  created_at: Date;
+  updated_at: Date;
+}
+
+const NotificationRuleSchema: Schema = new Schema(
+  {
+    user_id: {
+      type: String,
+      required: true,
+    },
+    contact_method_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'ContactMethod',
+      required: true,
+    },
+    urgency: {
+      type: String,
+      required: true,
+      enum: Object.values(NotificationUrgency),
+    },
+    delay_minutes: {
+      type: Number,
+      required: true,
+      min: 0,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'notification_rules'
+  }
+);
+
+// The same method at the same delay for the same urgency is one rule
+NotificationRuleSchema.index({user_id: 1, urgency: 1, contact_method_id: 1, delay_minutes: 1}, {unique: true});
+NotificationRuleSchema.index({contact_method_id: 1});
+
+NotificationRuleSchema.virtual('rule_id').get(function(this: INotificationRule) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+NotificationRuleSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const NotificationRule = mongoose.model<INotificationRule>('NotificationRule', NotificationRuleSchema);
@@ -0,0 +1,99 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+/**
+ * A temporary takeover of part of an on-call layer.
+ *
+ * Between start and end, user_id is on call for `layer` of the schedule
+ * instead of whoever the rotation puts there. Overrides take precedence
+ * over every rotation layer, and overrides of the same layer never
+ * overlap. swap_id is set when the override came from an accepted swap.
+ */
+export interface IOnCallOverride extends Document {
+  override_id: string;
+  team_id: mongoose.Types.ObjectId;
+  schedule_id: mongoose.Types.ObjectId;
+  layer: string;                   // Layer name within the schedule
+  user_id: string;                 // Who is on call instead
+  replaces_user_id?: string;       // Whose shift is being covered, if known
+  start: Date;
+  end: Date;
+  reason?: string;
+  swap_id?: mongoose.Types.ObjectId;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const OnCallOverrideSchema: Schema = new Schema(
+  {
+    team_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    schedule_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'OnCallSchedule',
+      required: true,
+    },
+    layer: {
+      type: String,
+      required: true,
+    },
+    user_id: {
+      type: String,
+      required: true,
+    },
+    replaces_user_id: {
+      type: String,
+    },
+    start: {
+      type: Date,
+      required: true,
+    },
+    end: {
+      type: Date,
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    swap_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'OnCallSwap',
+    },
+    created_by: {
+      type: String,
+      required: true,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'oncall_overrides'
+  }
+);
+
+// Range lookups per schedule (timelines) and per layer (overlap checks)
+OnCallOverrideSchema.index({schedule_id: 1, layer: 1, start: 1});
+OnCallOverrideSchema.index({schedule_id: 1, end: 1});
+OnCallOverrideSchema.index({team_id: 1});
+
+OnCallOverrideSchema.virtual('override_id').get(function(this: IOnCallOverride) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+OnCallOverrideSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const OnCallOverride = mongoose.model<IOnCallOverride>('OnCallOverride', OnCallOverrideSchema);
@@ -0,0 +1,145 @@
+import mongoose, {Schema, Document} from "mongoose";
+import { ROTATION_TYPES, RotationType } from '../utils/rotation.utils';
+
+/**
+ * A team's on-call schedule.
+ *
+ * Layers are listed in increasing precedence: where two layers both have
+ * someone on call, the later one wins. How shifts are computed from a
+ * layer is described in utils/rotation.utils.ts.
+ */
+export interface IOnCallLayer {
+  name: string;
+  participants: string[];          // user_ids, in rotation order
+  rotation_type: RotationType;
+  handoff_time: string;            // 'HH:mm' in the schedule's time zone
+  handoff_day?: number;            // weekly rotations, 0 = Sunday
+  starts_at: Date;
+  active_hours?: {
+    start: string;
+    end: string;
+    days?: number[];
+  } | null;
+}
+
+export interface IOnCallSchedule extends Document {
+  schedule_id: string;
+  team_id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  time_zone: string;               // IANA, e.g. 'Europe/Berlin'
+  layers: IOnCallLayer[];
+  created_by: string;
+  overrides_version: number;       // Bumped by every override insert (see oncall.override.service)
+  created_at: Date;
+  updated_at: Date;
+}
+
+const ActiveHoursSchema = new Schema(
+  {
+    start: { type: String, required: true },
+    end: { type: String, required: true },
+    days: { type: [Number], default: undefined },
+  },
+  { _id: false }
+);
+
+const OnCallLayerSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    participants: {
+      type: [String],
+      required: true,
+    },
+    rotation_type: {
+      type: String,
+      required: true,
+      enum: ROTATION_TYPES,
+    },
+    handoff_time: {
+      type: String,
+      required: true,
+    },
+    handoff_day: {
+      type: Number,
+      min: 0,
+      max: 6,
+    },
+    starts_at: {
+      type: Date,
+      required: true,
+    },
+    active_hours: {
+      type: ActiveHoursSchema,
+      default: null,
+    }
+  },
+  { _id: false }
+);
+
+const OnCallScheduleSchema: Schema = new Schema(
+  {
+    team_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    time_zone: {
+      type: String,
+      required: true,
+      default: 'UTC',
+    },
+    layers: {
+      type: [OnCallLayerSchema],
+      required: true,
+    },
+    created_by: {
+      type: String,
+      required: true,
+    },
+    overrides_version: {
+      type: Number,
+      default: 0,
+      select: false,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'oncall_schedules'
+  }
+);
+
+// Schedule names are unique within a team
+OnCallScheduleSchema.index({team_id: 1, name: 1}, {unique: true});
+
+OnCallScheduleSchema.virtual('schedule_id').get(function(this: IOnCallSchedule) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+OnCallScheduleSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const OnCallSchedule = mongoose.model<IOnCallSchedule>('OnCallSchedule', OnCallScheduleSchema);
@@ -0,0 +1,120 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+export enum SwapStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * A request from one team member to another to cover part of a shift.
+ *
+ * The requester asks the target to take [start, end) on `layer`. When
+ * return_start/return_end are given, the requester offers to take that
+ * window for the target in exchange. Accepting turns the request into
+ * one or two on-call overrides (override_ids).
+ */
+export interface IOnCallSwap extends Document {
+  swap_id: string;
+  team_id: mongoose.Types.ObjectId;
+  schedule_id: mongoose.Types.ObjectId;
+  layer: string;
+  requester_id: string;
+  target_id: string;
+  start: Date;
+  end: Date;
+  return_start?: Date;
+  return_end?: Date;
+  message?: string;
+  status: SwapStatus;
+  responded_at?: Date;
+  override_ids: mongoose.Types.ObjectId[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+const OnCallSwapSchema: Schema = new Schema(
+  {
+    team_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    schedule_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'OnCallSchedule',
+      required: true,
+    },
+    layer: {
+      type: String,
+      required: true,
+    },
+    requester_id: {
+      type: String,
+      required: true,
+    },
+    target_id: {
+      type: String,
+      required: true,
+    },
+    start: {
+      type: Date,
+      required: true,
+    },
+    end: {
+      type: Date,
+      required: true,
+    },
+    return_start: {
+      type: Date,
+    },
+    return_end: {
+      type: Date,
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: Object.values(SwapStatus),
+      default: SwapStatus.PENDING,
+    },
+    responded_at: {
+      type: Date,
+    },
+    override_ids: {
+      type: [Schema.Types.ObjectId],
+      ref: 'OnCallOverride',
+      default: [],
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'oncall_swaps'
+  }
+);
+
+OnCallSwapSchema.index({team_id: 1, status: 1, created_at: -1});
+OnCallSwapSchema.index({schedule_id: 1});
+
+OnCallSwapSchema.virtual('swap_id').get(function(this: IOnCallSwap) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+OnCallSwapSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const OnCallSwap = mongoose.model<IOnCallSwap>('OnCallSwap', OnCallSwapSchema);
@@ -0,0 +1,88 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+/**
+ * Built-in (system) roles. They are seeded on startup and cannot be
+ * deleted; any other role is a custom role created through the API.
+ */
+export enum RoleType {
+  ADMIN = 'admin',
+  OPERATOR = 'operator',
+  VIEWER = 'viewer'
+}
+
+// Lowercase, starts with a letter, e.g. 'incident-commander'
+export const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * A role that can be held on a team.
+ *
+ * rank orders roles for requireMinRole: a higher rank satisfies any
+ * lower one. System roles are spaced out (100/200/300) so custom roles
+ * can slot in between them.
+ */
+export interface IRole extends Document {
+  _id: mongoose.Types.ObjectId;
+  role_id: string;
+  name: string;
+  description?: string;
+  rank: number;
+  is_system: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const RoleSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true,
+      maxlength: 50,
+      match: ROLE_NAME_PATTERN,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    rank: {
+      type: Number,
+      required: true,
+      min: 0,
+      validate: {
+        validator: Number.isInteger,
+        message: 'rank must be an integer',
+      },
+    },
+    is_system: {
+      type: Boolean,
+      default: false,
+      immutable: true,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'roles'
+  }
+);
+
+RoleSchema.index({rank: -1});
+
+RoleSchema.virtual('role_id').get(function(this: IRole) {
+  return this._id.toString();
+})
+
+RoleSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const Role = mongoose.model<IRole>('Role', RoleSchema);
@@ -1,15 +1,15 @@
 import mongoose, {Schema, Document, SchemaType} from "mongoose";
 import { Permission } from "./Permission.model";
+import { PermissionCondition, CONDITION_OPERATORS } from "../utils/condition.utils";
 
-export enum RoleType {
-  ADMIN = 'admin',
-  OPERATOR = 'operator',
-  VIEWER = 'viewer'
-}
+// Built-in role names now live with the Role model
+export { RoleType } from "./Role.model";
 
 export interface IRolePermission extends Document {
-  role: RoleType;
+  role_id: mongoose.Types.ObjectId;
   permission_id: mongoose.Types.ObjectId;
+  // All must hold for the grant to apply; empty = unconditional
+  conditions: PermissionCondition[];
   created_at: Date;
   updated_at: Date;
 }
@@ -17,17 +17,28 @@ export interface IRolePermission extends Document {
 
 const RolePermissionSchema: Schema = new Schema(
   {
-    role: {
-      type: String,
+    role_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Role',
       required: true,
-      enum: Object.values(RoleType),
-      lowercase: true,
-      trim: true,
     },
     permission_id: {
       type: Schema.Types.ObjectId,
       ref: 'Permission',
       required: true,
+    },
+    conditions: {
+      type: [
+        new Schema(
+          {
+            attribute: { type: String, required: true, trim: true },
+            operator: { type: String, required: true, enum: CONDITION_OPERATORS },
+            value: { type: Schema.Types.Mixed },
+          },
+          { _id: false }
+        )
+      ],
+      default: [],
     }
   },
   {
@@ -39,8 +50,7 @@ const RolePermissionSchema: Schema = new Schema(
   }
 );
 
-RolePermissionSchema.index({role:1, permission_id: 1}, {unique:true});
-RolePermissionSchema.index({role:1});
+RolePermissionSchema.index({role_id:1, permission_id: 1}, {unique:true});
 RolePermissionSchema.index({permission_id: 1});
 
 RolePermissionSchema.set('toJSON', {
@@ -53,24 +63,24 @@ RolePermissionSchema.set('toJSON', {
 })
 
 interface IRolePermissionModel extends mongoose.Model<IRolePermission> {
-  getPermissionsForRole(role: RoleType): Promise<IRolePermission[]>;
-  hasPermission(role: RoleType, permissionName: string): Promise<boolean>;
+  getPermissionsForRole(roleId: mongoose.Types.ObjectId | string): Promise<IRolePermission[]>;
+  hasPermission(roleId: mongoose.Types.ObjectId | string, permissionName: string): Promise<boolean>;
 }
 
 
-RolePermissionSchema.statics.getPermissionsForRole = async function(role:RoleType) {
-  return this.find({role}).populate('permission_id');
+RolePermissionSchema.statics.getPermissionsForRole = async function(roleId: mongoose.Types.ObjectId | string) {
+  return this.find({role_id: roleId}).populate('permission_id');
 }
 
 RolePermissionSchema.statics.hasPermission = async function(
-  role: RoleType, 
+  roleId: mongoose.Types.ObjectId | string,
   permissionName: string
 ): Promise<boolean> {
   const permission = await Permission.findOne({ permission_name: permissionName });
   if (!permission) return false;
   
   const rolePermission = await this.findOne({
-    role,
+    role_id: roleId,
     permission_id: permission._id
   });
   
@@ -0,0 +1,69 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+
+export interface ITeam extends Document {
+  _id: mongoose.Types.ObjectId;
+  team_id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  owner_id: string;
+  membership_version: number;   // Bumped by changes that may remove an admin (see member.service)
+  created_at: Date;
+  updated_at: Date;
+}
+
+const TeamSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    owner_id: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    membership_version: {
+      type: Number,
+      default: 0,
+      select: false,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'teams'
+  }
+);
+
+TeamSchema.index({owner_id: 1});
+
+TeamSchema.virtual('team_id').get(function(this: ITeam) {
+  return this._id.toString();
+})
+
+TeamSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const Team = mongoose.model<ITeam>('Team', TeamSchema);
@@ -0,0 +1,125 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  REVOKED = 'revoked',
+  EXPIRED = 'expired'     // Set lazily, the next time the invitation is looked at
+}
+
+/**
+ * An invitation for an email address to join a team with a given role.
+ *
+ * The invitee proves they received it by presenting a random token.
+ * Only its SHA-256 is stored; the token itself goes out with the
+ * notification and is replaced on every resend. Accepting it once
+ * creates the membership and uses it up.
+ */
+export interface ITeamInvitation extends Document {
+  invitation_id: string;
+  team_id: mongoose.Types.ObjectId;
+  email: string;                          // Lowercased
+  role: string;                           // Role name given to the invitee
+  token_hash: string;
+  status: InvitationStatus;
+  invited_by: string;
+  expires_at: Date;
+  last_sent_at: Date;
+  send_count: number;
+  accepted_by?: string;                   // user_id of whoever accepted
+  accepted_at?: Date;
+  revoked_by?: string;
+  revoked_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const TeamInvitationSchema: Schema = new Schema(
+  {
+    team_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    role: {
+      type: String,
+      required: true,
+    },
+    token_hash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: Object.values(InvitationStatus),
+      default: InvitationStatus.PENDING,
+    },
+    invited_by: {
+      type: String,
+      required: true,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    last_sent_at: {
+      type: Date,
+      required: true,
+    },
+    send_count: {
+      type: Number,
+      default: 1,
+    },
+    accepted_by: {
+      type: String,
+    },
+    accepted_at: {
+      type: Date,
+    },
+    revoked_by: {
+      type: String,
+    },
+    revoked_at: {
+      type: Date,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'team_invitations'
+  }
+);
+
+TeamInvitationSchema.index({team_id: 1, status: 1, created_at: -1});
+
+// At most one open invitation per address and team
+TeamInvitationSchema.index(
+  {team_id: 1, email: 1},
+  {unique: true, partialFilterExpression: {status: InvitationStatus.PENDING}}
+);
+
+TeamInvitationSchema.virtual('invitation_id').get(function(this: ITeamInvitation) {
+  return (this._id as mongoose.Types.ObjectId).toString();
+});
+
+TeamInvitationSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    delete ret.token_hash;
+    return ret;
+  }
+});
+
+export const TeamInvitation = mongoose.model<ITeamInvitation>('TeamInvitation', TeamInvitationSchema);
@@ -0,0 +1,60 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+/**
+ * A user's membership of a team.
+ *
+ * Users themselves live in the auth service, so user_id is the auth
+ * service's identifier rather than a reference into this database.
+ */
+export interface ITeamMembership extends Document {
+  team_id: mongoose.Types.ObjectId;
+  user_id: string;
+  role_id: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const TeamMembershipSchema: Schema = new Schema(
+  {
+    team_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    user_id: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    role_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Role',
+      required: true,
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'team_memberships'
+  }
+);
+
+TeamMembershipSchema.index({team_id: 1, user_id: 1}, {unique: true});
+TeamMembershipSchema.index({user_id: 1});
+TeamMembershipSchema.index({team_id: 1, role_id: 1});
+
+TeamMembershipSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const TeamMembership = mongoose.model<ITeamMembership>(
+  'TeamMembership',
+  TeamMembershipSchema
+);
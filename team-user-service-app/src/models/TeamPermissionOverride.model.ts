@@ -0,0 +1,72 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+export enum OverrideEffect {
+  GRANT = 'grant',
+  DENY = 'deny'
+}
+
+/**
+ * A team-specific exception to the global role-permission mappings.
+ *
+ * Within team_id, members holding role_id additionally get (grant) or
+ * lose (deny) permission_id, whatever role_permissions says.
+ */
+export interface ITeamPermissionOverride extends Document {
+  team_id: mongoose.Types.ObjectId;
+  role_id: mongoose.Types.ObjectId;
+  permission_id: mongoose.Types.ObjectId;
+  effect: OverrideEffect;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const TeamPermissionOverrideSchema: Schema = new Schema(
+  {
+    team_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    role_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Role',
+      required: true,
+    },
+    permission_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Permission',
+      required: true,
+    },
+    effect: {
+      type: String,
+      required: true,
+      enum: Object.values(OverrideEffect),
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'team_permission_overrides'
+  }
+);
+
+// One override per (team, role, permission); setting it again flips the effect
+TeamPermissionOverrideSchema.index({team_id: 1, role_id: 1, permission_id: 1}, {unique: true});
+TeamPermissionOverrideSchema.index({role_id: 1});
+TeamPermissionOverrideSchema.index({permission_id: 1});
+
+TeamPermissionOverrideSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const TeamPermissionOverride = mongoose.model<ITeamPermissionOverride>(
+  'TeamPermissionOverride',
+  TeamPermissionOverrideSchema
+);
@@ -0,0 +1,103 @@
+import mongoose, {Schema, Document} from "mongoose";
+
+/**
+ * Local copy of a user, as known to the auth service, plus fields only
+ * this service cares about.
+ *
+ * email, display_name, status and the auth_* timestamps mirror the auth
+ * service and are overwritten on every sync; synced_at says how fresh
+ * they are. time_zone, locale, title, avatar_url and skills belong to
+ * this service and are never touched by a sync.
+ */
+export interface IUserProfile extends Document {
+  user_id: string;
+
+  // From the auth service
+  email: string;
+  display_name: string;
+  status: string;
+  auth_created_at?: Date;
+  auth_updated_at?: Date;
+  synced_at: Date;
+
+  // Team service fields
+  time_zone?: string;              // IANA, e.g. 'Europe/Berlin'
+  locale?: string;                 // BCP 47, e.g. 'de-DE'
+  title?: string;
+  avatar_url?: string;
+  skills: string[];
+
+  created_at: Date;
+  updated_at: Date;
+}
+
+const UserProfileSchema: Schema = new Schema(
+  {
+    user_id: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    email: {
+      type: String,
+      required: true,
+    },
+    display_name: {
+      type: String,
+      default: '',
+    },
+    status: {
+      type: String,
+      required: true,
+    },
+    auth_created_at: {
+      type: Date,
+    },
+    auth_updated_at: {
+      type: Date,
+    },
+    synced_at: {
+      type: Date,
+      required: true,
+    },
+    time_zone: {
+      type: String,
+    },
+    locale: {
+      type: String,
+    },
+    title: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    avatar_url: {
+      type: String,
+    },
+    skills: {
+      type: [String],
+      default: [],
+    }
+  },
+  {
+    timestamps: {
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    },
+    collection: 'user_profiles'
+  }
+);
+
+// Finding stale copies to refresh
+UserProfileSchema.index({synced_at: 1});
+
+UserProfileSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(doc, ret:any) {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+export const UserProfile = mongoose.model<IUserProfile>('UserProfile', UserProfileSchema);
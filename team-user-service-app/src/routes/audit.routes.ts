@@ -0,0 +1,27 @@
+import express from 'express';
+import auditController from '../controllers/audit.controller';
+import { authenticateUserOrService, requireInternalOrScope } from '../middleware/internal.middleware';
+
+const router = express.Router();
+
+// Internal services, or users granted the permissions:admin scope
+router.use(authenticateUserOrService);
+router.use(requireInternalOrScope('permissions:admin'));
+
+// ============================================
+// AUDIT EVENTS (read-only)
+// ============================================
+
+// Check the hash chain for tampering
+router.get(
+  '/verify',
+  auditController.verifyChain
+);
+
+// List audit events (filterable, paginated)
+router.get(
+  '/',
+  auditController.listEvents
+);
+
+export default router;
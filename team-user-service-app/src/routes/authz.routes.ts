@@ -0,0 +1,32 @@
+import express from 'express';
+import authzController from '../controllers/authz.controller';
+import {
+  authenticateUserOrService,
+  requireInternalService,
+  requireInternalOrScope
+} from '../middleware/internal.middleware';
+
+const router = express.Router();
+
+// Signed internal requests, or user JWTs where noted
+router.use(authenticateUserOrService);
+
+// ============================================
+// AUTHORIZATION DECISIONS
+// ============================================
+
+// Decide a batch of (subject, team, permission) tuples (internal services only)
+router.post(
+  '/decisions',
+  requireInternalService(),
+  authzController.decideBatch
+);
+
+// Query sampled decisions by user, team and outcome
+router.get(
+  '/decisions',
+  requireInternalOrScope('permissions:admin'),
+  authzController.listDecisions
+);
+
+export default router;
@@ -0,0 +1,17 @@
+import express from 'express';
+import calendarController from '../controllers/calendar.controller';
+
+const router = express.Router();
+
+// ============================================
+// CALENDAR FEEDS
+// No JWT here: the token in the URL is the credential, so calendar apps
+// can subscribe. Feed URLs are created and revoked under /users/me.
+// ============================================
+
+router.get(
+  '/:token.ics',
+  calendarController.getCalendarFeed
+);
+
+export default router;
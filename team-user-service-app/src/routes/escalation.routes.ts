@@ -0,0 +1,63 @@
+import express from 'express';
+import escalationController from '../controllers/escalation.controller';
+import { authenticateUserOrService } from '../middleware/internal.middleware';
+import { requirePermission, requireTeamMembership } from '../middleware/role.middleware';
+
+// mergeParams exposes :teamId from the parent team router
+const router = express.Router({ mergeParams: true });
+
+// ============================================
+// ESCALATION POLICIES
+// Mounted at /teams/:teamId/escalation-policies. Like on-call, this
+// accepts signed internal requests: incident tooling resolves policies
+// here to decide who to page next.
+// ============================================
+
+router.use(authenticateUserOrService);
+
+// Team members, or internal services
+const requireMemberOrService = requireTeamMembership({ allowServices: true });
+
+// List policies
+router.get(
+  '/',
+  requireMemberOrService,
+  escalationController.listTeamPolicies
+);
+
+// Get a policy
+router.get(
+  '/:policyId',
+  requireMemberOrService,
+  escalationController.getTeamPolicy
+);
+
+// Resolve a policy to the users to page (?at=)
+router.get(
+  '/:policyId/resolve',
+  requireMemberOrService,
+  escalationController.resolveTeamPolicy
+);
+
+// Create a policy
+router.post(
+  '/',
+  requirePermission('oncall:edit'),
+  escalationController.createTeamPolicy
+);
+
+// Update a policy
+router.put(
+  '/:policyId',
+  requirePermission('oncall:edit'),
+  escalationController.updateTeamPolicy
+);
+
+// Delete a policy
+router.delete(
+  '/:policyId',
+  requirePermission('oncall:edit'),
+  escalationController.deleteTeamPolicy
+);
+
+export default router;
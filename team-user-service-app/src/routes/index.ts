@@ -0,0 +1,27 @@
+import express from 'express';
+import teamRoutes from './team.routes';
+import userRoutes from './user.routes';
+import permissionRoutes from './permission.routes';
+import roleRoutes from './role.routes';
+import authzRoutes from './authz.routes';
+import auditRoutes from './audit.routes';
+import calendarRoutes from './calendar.routes';
+import invitationRoutes from './invitation.routes';
+
+/**
+ * Versioned API router
+ *
+ * Mounted by app.ts under /api/<API_VERSION>.
+ */
+const router = express.Router();
+
+router.use('/teams', teamRoutes);
+router.use('/users', userRoutes);
+router.use('/permissions', permissionRoutes);
+router.use('/roles', roleRoutes);
+router.use('/authz', authzRoutes);
+router.use('/audit-events', auditRoutes);
+router.use('/calendar', calendarRoutes);
+router.use('/invitations', invitationRoutes);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from 'express';
+import invitationController from '../controllers/invitation.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// ============================================
+// INVITATIONS
+// Invitations are sent and managed under /teams/:teamId/invitations.
+// ============================================
+
+// Accept an invitation (the invitee, signed in with the invited address)
+router.post(
+  '/:token/accept',
+  authenticateToken,
+  invitationController.acceptTeamInvitation
+);
+
+export default router;
@@ -0,0 +1,41 @@
+import express from 'express';
+import memberController from '../controllers/member.controller';
+import { requirePermission, requireTeamMembership } from '../middleware/role.middleware';
+
+// mergeParams exposes :teamId from the parent team router
+const router = express.Router({ mergeParams: true });
+
+// ============================================
+// TEAM MEMBERSHIP
+// Mounted at /teams/:teamId/members (authentication applied by team router)
+// ============================================
+
+// List members of a team (any member)
+router.get(
+  '/',
+  requireTeamMembership(),
+  memberController.listMembers
+);
+
+// Add a user to the team
+router.post(
+  '/',
+  requirePermission('member:add'),
+  memberController.addMember
+);
+
+// Change a member's role
+router.patch(
+  '/:userId',
+  requirePermission('member:change_role'),
+  memberController.changeMemberRole
+);
+
+// Remove a member from the team
+router.delete(
+  '/:userId',
+  requirePermission('member:remove'),
+  memberController.removeMember
+);
+
+export default router;
@@ -0,0 +1,138 @@
+import express from 'express';
+import oncallController from '../controllers/oncall.controller';
+import { authenticateUserOrService } from '../middleware/internal.middleware';
+import { requirePermission, requireTeamMembership } from '../middleware/role.middleware';
+
+// mergeParams exposes :teamId from the parent team router
+const router = express.Router({ mergeParams: true });
+
+// ============================================
+// ON-CALL
+// Mounted at /teams/:teamId/oncall. Unlike the rest of the team router,
+// this accepts signed internal requests too: incident tooling asks here
+// who to page.
+// ============================================
+
+router.use(authenticateUserOrService);
+
+// Team members, or internal services
+const requireMemberOrService = requireTeamMembership({ allowServices: true });
+
+// Who is on call now
+router.get(
+  '/now',
+  requireMemberOrService,
+  oncallController.getCurrentOnCall
+);
+
+// Who is on call over a range (?from=&to=)
+router.get(
+  '/',
+  requireMemberOrService,
+  oncallController.getOnCallRange
+);
+
+// ============================================
+// SCHEDULES
+// ============================================
+
+// List schedules
+router.get(
+  '/schedules',
+  requireMemberOrService,
+  oncallController.listTeamSchedules
+);
+
+// Get a schedule
+router.get(
+  '/schedules/:scheduleId',
+  requireMemberOrService,
+  oncallController.getTeamSchedule
+);
+
+// Create a schedule
+router.post(
+  '/schedules',
+  requirePermission('oncall:edit'),
+  oncallController.createTeamSchedule
+);
+
+// Update a schedule
+router.put(
+  '/schedules/:scheduleId',
+  requirePermission('oncall:edit'),
+  oncallController.updateTeamSchedule
+);
+
+// Delete a schedule
+router.delete(
+  '/schedules/:scheduleId',
+  requirePermission('oncall:edit'),
+  oncallController.deleteTeamSchedule
+);
+
+// ============================================
+// OVERRIDES
+// Members may cover shifts themselves; the controller requires
+// 'oncall:edit' to put anyone else on call
+// ============================================
+
+// List a schedule's overrides
+router.get(
+  '/schedules/:scheduleId/overrides',
+  requireMemberOrService,
+  oncallController.listScheduleOverrides
+);
+
+// Create an override
+router.post(
+  '/schedules/:scheduleId/overrides',
+  requireTeamMembership(),
+  oncallController.createScheduleOverride
+);
+
+// Remove an override
+router.delete(
+  '/schedules/:scheduleId/overrides/:overrideId',
+  requireTeamMembership(),
+  oncallController.deleteScheduleOverride
+);
+
+// ============================================
+// SWAPS
+// ============================================
+
+// List swap requests
+router.get(
+  '/swaps',
+  requireTeamMembership(),
+  oncallController.listTeamSwaps
+);
+
+// Ask a teammate to cover a shift
+router.post(
+  '/schedules/:scheduleId/swaps',
+  requireTeamMembership(),
+  oncallController.requestTeamSwap
+);
+
+// Answer a swap request (the asked member accepts or declines, the requester cancels)
+router.post(
+  '/swaps/:swapId/accept',
+  requireTeamMembership(),
+  oncallController.acceptTeamSwap
+);
+
+router.post(
+  '/swaps/:swapId/decline',
+  requireTeamMembership(),
+  oncallController.declineTeamSwap
+);
+
+router.post(
+  '/swaps/:swapId/cancel',
+  requireTeamMembership(),
+  oncallController.cancelTeamSwap
+);
+
+export default router;
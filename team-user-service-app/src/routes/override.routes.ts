@@ -0,0 +1,35 @@
+import express from 'express';
+import overrideController from '../controllers/override.controller';
+import { requireRole, requireTeamMembership } from '../middleware/role.middleware';
+import { RoleType } from '../models/Role.model';
+
+// mergeParams exposes :teamId from the parent team router
+const router = express.Router({ mergeParams: true });
+
+// ============================================
+// TEAM PERMISSION OVERRIDES
+// Mounted at /teams/:teamId/permission-overrides (authentication applied by team router)
+// ============================================
+
+// List the team's overrides (any member)
+router.get(
+  '/',
+  requireTeamMembership(),
+  overrideController.listOverrides
+);
+
+// Grant or deny a permission for a role within the team (team admins)
+router.put(
+  '/',
+  requireRole(RoleType.ADMIN),
+  overrideController.setOverride
+);
+
+// Remove an override, restoring the global default (team admins)
+router.delete(
+  '/:role/:permissionName',
+  requireRole(RoleType.ADMIN),
+  overrideController.removeOverride
+);
+
+export default router;
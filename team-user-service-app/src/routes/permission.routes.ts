@@ -1,12 +1,16 @@
 import express from 'express';
 import permissionController from '../controllers/permission.controller';
-import { authenticateToken } from '../middleware/auth.middleware';
+import { requireUserPrincipal } from '../middleware/auth.middleware';
+import { authenticateUserOrService, requireInternalOrScope } from '../middleware/internal.middleware';
 
 
 const router = express.Router();
 
-// Apply authentication to all routes
-router.use(authenticateToken)
+// Apply authentication to all routes (user JWT or signed internal request)
+router.use(authenticateUserOrService)
+
+// Changes to the global permission catalogue: internal services, or users granted this scope
+const requirePermissionAdmin = requireInternalOrScope('permissions:admin');
 
 // ============================================
 // PERMISSION CRUD (Admin Only)
@@ -34,21 +38,21 @@ router.get(
 // Create new permission (Admin only)
 router.post(
   '/',
-  // requireRole(RoleType.ADMIN), // Uncomment when auth is ready
+  requirePermissionAdmin,
   permissionController.createNewPermission
 );
 
 // Update permission (Admin only)
 router.put(
   '/:permissionName',
-  // requireRole(RoleType.ADMIN),
+  requirePermissionAdmin,
   permissionController.updateExistingPermission
 );
 
 // Delete permission (Admin only)
 router.delete(
   '/:permissionName',
-  // requireRole(RoleType.ADMIN),
+  requirePermissionAdmin,
   permissionController.deleteExistingPermission
 );
 
@@ -77,17 +81,24 @@ router.get(
 // Assign permission(s) to role (Admin only)
 router.post(
   '/roles/:role/permissions',
-  // requireRole(RoleType.ADMIN),
+  requirePermissionAdmin,
   permissionController.assignPermissionsToRole
 );
 
 // Revoke permission from role (Admin only)
 router.delete(
   '/roles/:role/permissions/:permissionName',
-  // requireRole(RoleType.ADMIN),
+  requirePermissionAdmin,
   permissionController.revokePermissionFromRoleHandler
 );
 
+// Authorization cache hit/miss counters (Admin only)
+router.get(
+  '/cache/stats',
+  requirePermissionAdmin,
+  permissionController.getPermissionCacheStats
+);
+
 // ============================================
 // USER PERMISSION CHECKS
 // ============================================
@@ -95,12 +106,14 @@ router.delete(
 // Get current user's permissions on a team
 router.get(
   '/users/me/permissions',
+  requireUserPrincipal,
   permissionController.getCurrentUserPermissions
 );
 
 // Check if current user has specific permission
 router.post(
   '/users/me/permissions/check',
+  requireUserPrincipal,
   permissionController.checkCurrentUserPermission
 );
 
@@ -0,0 +1,50 @@
+import express from 'express';
+import roleController from '../controllers/role.controller';
+import { authenticateUserOrService, requireInternalOrScope } from '../middleware/internal.middleware';
+
+const router = express.Router();
+
+// Apply authentication to all routes (user JWT or signed internal request)
+router.use(authenticateUserOrService);
+
+// Roles are part of the global permission catalogue
+const requirePermissionAdmin = requireInternalOrScope('permissions:admin');
+
+// ============================================
+// ROLE CRUD
+// ============================================
+
+// List all roles
+router.get(
+  '/',
+  roleController.listAllRoles
+);
+
+// Get specific role
+router.get(
+  '/:role',
+  roleController.getRole
+);
+
+// Create custom role (Admin only)
+router.post(
+  '/',
+  requirePermissionAdmin,
+  roleController.createNewRole
+);
+
+// Update role description/rank (Admin only)
+router.patch(
+  '/:role',
+  requirePermissionAdmin,
+  roleController.updateExistingRole
+);
+
+// Delete custom role (Admin only)
+router.delete(
+  '/:role',
+  requirePermissionAdmin,
+  roleController.deleteExistingRole
+);
+
+export default router;
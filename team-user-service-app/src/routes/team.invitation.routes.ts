@@ -0,0 +1,40 @@
+import express from 'express';
+import invitationController from '../controllers/invitation.controller';
+import { requirePermission } from '../middleware/role.middleware';
+
+// mergeParams exposes :teamId from the parent team router
+const router = express.Router({ mergeParams: true });
+
+// ============================================
+// TEAM INVITATIONS
+// Mounted at /teams/:teamId/invitations (authentication applied by team router).
+// Inviting someone is adding a member, so it takes the same permission.
+// ============================================
+
+router.use(requirePermission('member:add'));
+
+// List invitations (?status=)
+router.get(
+  '/',
+  invitationController.listTeamInvitations
+);
+
+// Invite an email address
+router.post(
+  '/',
+  invitationController.createTeamInvitation
+);
+
+// Send an invitation again, with a new link
+router.post(
+  '/:invitationId/resend',
+  invitationController.resendTeamInvitation
+);
+
+// Revoke an invitation
+router.delete(
+  '/:invitationId',
+  invitationController.revokeTeamInvitation
+);
+
+export default router;
@@ -0,0 +1,76 @@
+import express from 'express';
+import teamController from '../controllers/team.controller';
+import memberRoutes from './member.routes';
+import overrideRoutes from './override.routes';
+import oncallRoutes from './oncall.routes';
+import escalationRoutes from './escalation.routes';
+import teamInvitationRoutes from './team.invitation.routes';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission, requireTeamMembership } from '../middleware/role.middleware';
+
+const router = express.Router();
+
+// On-call and escalation authenticate on their own (users or internal
+// services), so they are mounted before the user-only authentication below
+router.use('/:teamId/oncall', oncallRoutes);
+router.use('/:teamId/escalation-policies', escalationRoutes);
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// ============================================
+// TEAM CRUD
+// ============================================
+
+// List teams the current user belongs to
+router.get(
+  '/',
+  teamController.listMyTeams
+);
+
+// Create a new team (caller becomes owner and admin)
+router.post(
+  '/',
+  teamController.createNewTeam
+);
+
+// Get a specific team (any member)
+router.get(
+  '/:teamId',
+  requireTeamMembership(),
+  teamController.getTeam
+);
+
+// Update a team
+router.put(
+  '/:teamId',
+  requirePermission('team:edit'),
+  teamController.updateExistingTeam
+);
+
+// Delete a team
+router.delete(
+  '/:teamId',
+  requirePermission('team:delete'),
+  teamController.deleteExistingTeam
+);
+
+// ============================================
+// TEAM MEMBERSHIP
+// ============================================
+
+router.use('/:teamId/members', memberRoutes);
+
+// ============================================
+// TEAM INVITATIONS
+// ============================================
+
+router.use('/:teamId/invitations', teamInvitationRoutes);
+
+// ============================================
+// TEAM PERMISSION OVERRIDES
+// ============================================
+
+router.use('/:teamId/permission-overrides', overrideRoutes);
+
+export default router;
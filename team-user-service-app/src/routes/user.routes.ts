@@ -1,28 +1,171 @@
 import express from 'express';
 import userController from '../controllers/user.controller';
+import calendarController from '../controllers/calendar.controller';
+import contactController from '../controllers/contact.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
+import { authenticateUserOrService, requireInternalService } from '../middleware/internal.middleware';
+import { requireSelfOrTeammate } from '../middleware/role.middleware';
 
 const router = express.Router();
 
-// ============================================
-// APPLY AUTHENTICATION TO ALL ROUTES
-// ============================================
-router.use(authenticateToken);
-
 // ============================================
 // USER ENDPOINTS
 // ============================================
 
-// Get my own profile
+// Get my own profile (end users only)
 router.get(
   '/me',
+  authenticateToken,
   userController.getMyProfile
 );
 
-// Get any user's profile by ID (for internal lookups)
+// Edit my team service profile fields (time zone, locale, title, avatar, skills)
+router.put(
+  '/me/profile',
+  authenticateToken,
+  userController.updateMyProfile
+);
+
+// Look up many users at once (dashboards listing team members)
+// Internal services can look up anyone; users only themselves and teammates
+router.post(
+  '/batch',
+  authenticateUserOrService,
+  userController.getUsersBatch
+);
+
+// Get a user's profile by ID
+// Internal services can look up anyone; users only themselves and teammates
 router.get(
   '/:id',
+  authenticateUserOrService,
+  requireSelfOrTeammate(),
   userController.getUserById
 );
 
+// Refresh our copy of a user from the auth service (internal services only)
+router.post(
+  '/:id/sync',
+  authenticateUserOrService,
+  requireInternalService(),
+  userController.syncUser
+);
+
+// ============================================
+// MY CALENDAR FEEDS
+// ============================================
+
+// List my on-call calendar feeds
+router.get(
+  '/me/calendar-feeds',
+  authenticateToken,
+  calendarController.listMyFeeds
+);
+
+// Create a calendar feed URL (shown once)
+router.post(
+  '/me/calendar-feeds',
+  authenticateToken,
+  calendarController.createMyFeed
+);
+
+// Revoke a calendar feed
+router.delete(
+  '/me/calendar-feeds/:feedId',
+  authenticateToken,
+  calendarController.revokeMyFeed
+);
+
+// ============================================
+// MY CONTACT METHODS
+// ============================================
+
+// List my contact methods
+router.get(
+  '/me/contact-methods',
+  authenticateToken,
+  contactController.listUserContactMethods
+);
+
+// Add a contact method
+router.post(
+  '/me/contact-methods',
+  authenticateToken,
+  contactController.addMyContactMethod
+);
+
+// Change a contact method's address or label
+router.put(
+  '/me/contact-methods/:methodId',
+  authenticateToken,
+  contactController.updateMyContactMethod
+);
+
+// Remove a contact method
+router.delete(
+  '/me/contact-methods/:methodId',
+  authenticateToken,
+  contactController.removeMyContactMethod
+);
+
+// ============================================
+// MY NOTIFICATION RULES
+// ============================================
+
+// List my notification rules
+router.get(
+  '/me/notification-rules',
+  authenticateToken,
+  contactController.listUserNotificationRules
+);
+
+// Add a notification rule
+router.post(
+  '/me/notification-rules',
+  authenticateToken,
+  contactController.addMyNotificationRule
+);
+
+// Update a notification rule
+router.put(
+  '/me/notification-rules/:ruleId',
+  authenticateToken,
+  contactController.updateMyNotificationRule
+);
+
+// Remove a notification rule
+router.delete(
+  '/me/notification-rules/:ruleId',
+  authenticateToken,
+  contactController.removeMyNotificationRule
+);
+
+// ============================================
+// CONTACT DETAILS FOR NOTIFICATION DELIVERY (internal services only)
+// ============================================
+
+// Read a user's contact methods
+router.get(
+  '/:id/contact-methods',
+  authenticateUserOrService,
+  requireInternalService(),
+  contactController.listUserContactMethods
+);
+
+// Read a user's notification rules
+router.get(
+  '/:id/notification-rules',
+  authenticateUserOrService,
+  requireInternalService(),
+  contactController.listUserNotificationRules
+);
+
+// Record whether a contact method is verified
+router.put(
+  '/:id/contact-methods/:methodId/verification',
+  authenticateUserOrService,
+  requireInternalService(),
+  contactController.setUserContactMethodVerification
+);
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { timeStamp } from 'node:console';
 import app from './app';
 import { databaseManager } from './config/db.config';
+import { jwksManager } from './config/jwks.config';
+import { cacheInvalidationWatcher } from './services/cache.invalidation.service';
+import { seedSystemRoles } from './services/role.service';
+import { seedSystemPermissions } from './services/permission.service';
 import { logger, Logger } from './utils/logger.utils';
 
 const PORT = process.env.PORT || 3000;
@@ -10,6 +14,10 @@ async function startServer() {
     logger.info("Starting Team-User-Service...");
     logger.info("Connecting to dependencies...");
     await databaseManager.connect();
+    await seedSystemRoles();
+    await seedSystemPermissions();
+    await jwksManager.initialize();
+    await cacheInvalidationWatcher.start();
 
     logger.info("Starting Express server...");
     app.listen(PORT, () => {
@@ -31,6 +39,8 @@ async function startServer() {
 async function gracefulShutdown(signal: string) {
   logger.info(`Recieved ${signal}, starting graceful shutdown...`)
   try {
+    jwksManager.stop();
+    await cacheInvalidationWatcher.stop();
     await databaseManager.disconnect();
 
     logger.info("Graceful shutdown completed");
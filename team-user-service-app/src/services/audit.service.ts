@@ -0,0 +1,283 @@
+import { AuditEvent, AuditAction, IAuditEvent } from '../models/AuditEvent.model';
+import {
+  AuditContext,
+  GENESIS_HASH,
+  SYSTEM_AUDIT_CONTEXT,
+  checkAuditChainLink,
+  computeAuditHash
+} from '../utils/audit.utils';
+import { createLogger } from '../utils/logger.utils';
+import { BadRequestError, isDuplicateKeyError } from '../utils/errors.utils';
+
+/**
+ * Audit Service
+ *
+ * Appends administrative changes (permissions, role grants, team
+ * overrides, memberships) to the audit_events collection and reads them
+ * back for admins.
+ *
+ * Events form a hash chain: event N stores the hash of event N-1 and a
+ * SHA-256 over its own content plus that hash. verifyAuditChain recomputes
+ * the chain, so an edited, removed or reordered event is detected even if
+ * someone bypasses the model's append-only guards.
+ *
+ * Appends are serialized within the process; across instances, the unique
+ * index on `sequence` makes concurrent appends retry rather than fork the
+ * chain. A failed append is logged and never fails the change itself.
+ */
+
+const logger = createLogger('audit');
+
+const MAX_APPEND_ATTEMPTS = 5;
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+export const MAX_VERIFY_BATCH = 10000;
+
+export interface AuditEventInput {
+  action: AuditAction;
+  targetType: string;
+  targetId: string;
+  teamId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditEventQuery {
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  teamId?: string;
+  from?: Date;
+  to?: Date;
+  before?: number;    // sequence cursor from a previous page
+  limit?: number;
+}
+
+export interface AuditEventPage {
+  events: IAuditEvent[];
+  next_cursor: number | null;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  first_sequence: number | null;
+  last_sequence: number | null;
+  // The first event whose hash or link doesn't match, if any
+  broken_at: number | null;
+  problem: string | null;
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+async function appendEvent(input: AuditEventInput, context: AuditContext): Promise<void> {
+  for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+    const last = await AuditEvent.findOne({}, { sequence: 1, hash: 1 })
+      .sort({ sequence: -1 })
+      .lean();
+
+    const event = {
+      sequence: (last?.sequence ?? 0) + 1,
+      action: input.action,
+      actor_id: context.actorId,
+      actor_type: context.actorType,
+      target_type: input.targetType,
+      target_id: input.targetId,
+      team_id: input.teamId,
+      before: input.before ?? null,
+      after: input.after ?? null,
+      request_id: context.requestId,
+      source_ip: context.sourceIp,
+      created_at: new Date(),
+      prev_hash: last?.hash ?? GENESIS_HASH
+    };
+
+    try {
+      await AuditEvent.create({ ...event, hash: computeAuditHash(event) });
+      return;
+    } catch (error) {
+      // Another instance took this sequence number; link onto its event instead
+      if (isDuplicateKeyError(error) && attempt < MAX_APPEND_ATTEMPTS) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+// Tail of the in-process append queue
+let appendQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Append an audit event for a change that has just been made
+ *
+ * Never throws: the change is already committed, so a failure to audit
+ * it is logged loudly instead of being reported as a failed change.
+ *
+ * @param input - What changed
+ * @param context - Who changed it (defaults to the system itself)
+ *
+ * @example
+ * await recordAuditEvent({
+ *   action: AuditAction.MEMBER_ROLE_CHANGED,
+ *   targetType: 'user',
+ *   targetId: userId,
+ *   teamId,
+ *   before: { role: 'viewer' },
+ *   after: { role: 'operator' }
+ * }, getAuditContext(req));
+ */
+export async function recordAuditEvent(
+  input: AuditEventInput,
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<void> {
+  const append = appendQueue.then(() => appendEvent(input, context));
+  appendQueue = append.catch(() => undefined);
+
+  try {
+    await append;
+  } catch (error) {
+    logger.error('Failed to record audit event', {
+      action: input.action,
+      target: `${input.targetType}:${input.targetId}`,
+      actorId: context.actorId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// ============================================
+// QUERYING
+// ============================================
+
+/**
+ * Query audit events, newest first
+ *
+ * @param query - Filters; all optional and combined with AND
+ * @returns One page, plus the cursor for the next one (null on the last page)
+ */
+export async function listAuditEvents(query: AuditEventQuery): Promise<AuditEventPage> {
+  try {
+    const limit = query.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+      throw new BadRequestError(`limit must be an integer between 1 and ${MAX_AUDIT_PAGE_SIZE}`);
+    }
+
+    if (query.before !== undefined && (!Number.isInteger(query.before) || query.before < 1)) {
+      throw new BadRequestError('before must be a sequence number from a previous page');
+    }
+
+    const filter: Record<string, unknown> = {};
+    if (query.actorId) filter.actor_id = query.actorId;
+    if (query.action) filter.action = query.action;
+    if (query.targetType) filter.target_type = query.targetType;
+    if (query.targetId) filter.target_id = query.targetId;
+    if (query.teamId) filter.team_id = query.teamId;
+    if (query.before !== undefined) filter.sequence = { $lt: query.before };
+
+    if (query.from || query.to) {
+      filter.created_at = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lt: query.to })
+      };
+    }
+
+    // One extra document tells us whether there is a next page
+    const events = await AuditEvent.find(filter)
+      .sort({ sequence: -1 })
+      .limit(limit + 1);
+
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return {
+      events: page,
+      next_cursor: hasMore ? page[page.length - 1].sequence : null
+    };
+
+  } catch (error) {
+    console.error('Error listing audit events:', error);
+    throw error;
+  }
+}
+
+/**
+ * Recompute the hash chain over a range of events
+ *
+ * @param fromSequence - First sequence to check (default 1). Starting
+ *                       later trusts the stored hash of the event before it.
+ * @param limit - How many events to check (max MAX_VERIFY_BATCH)
+ */
+export async function verifyAuditChain(
+  fromSequence: number = 1,
+  limit: number = MAX_VERIFY_BATCH
+): Promise<AuditChainVerification> {
+  try {
+    if (!Number.isInteger(fromSequence) || fromSequence < 1) {
+      throw new BadRequestError('from must be a positive sequence number');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_VERIFY_BATCH) {
+      throw new BadRequestError(`limit must be an integer between 1 and ${MAX_VERIFY_BATCH}`);
+    }
+
+    const previous = fromSequence > 1
+      ? await AuditEvent.findOne({ sequence: fromSequence - 1 }, { hash: 1 }).lean()
+      : null;
+
+    const result: AuditChainVerification = {
+      valid: true,
+      checked: 0,
+      first_sequence: null,
+      last_sequence: null,
+      broken_at: null,
+      problem: null
+    };
+
+    const fail = (sequence: number, problem: string): AuditChainVerification =>
+      ({ ...result, valid: false, broken_at: sequence, problem });
+
+    if (fromSequence > 1 && !previous) {
+      return fail(fromSequence - 1, 'event is missing');
+    }
+
+    let expectedSequence = fromSequence;
+    let expectedPrevHash = previous?.hash ?? GENESIS_HASH;
+
+    const cursor = AuditEvent.find({ sequence: { $gte: fromSequence } })
+      .sort({ sequence: 1 })
+      .limit(limit)
+      .lean()
+      .cursor();
+
+    for await (const event of cursor) {
+      const broken = checkAuditChainLink(event, expectedSequence, expectedPrevHash);
+      if (broken) {
+        return fail(broken.sequence, broken.problem);
+      }
+
+      result.checked++;
+      result.first_sequence = result.first_sequence ?? event.sequence;
+      result.last_sequence = event.sequence;
+      expectedSequence++;
+      expectedPrevHash = event.hash;
+    }
+
+    return result;
+
+  } catch (error) {
+    console.error('Error verifying audit chain:', error);
+    throw error;
+  }
+}
+
+export default {
+  recordAuditEvent,
+  listAuditEvents,
+  verifyAuditChain
+};
@@ -0,0 +1,157 @@
+import mongoose from 'mongoose';
+import { AuthzDecision, DecisionSource, IAuthzDecision } from '../models/AuthzDecision.model';
+import { DecisionExplanation } from './permission.service';
+import { env } from '../config/env.config';
+import { createLogger } from '../utils/logger.utils';
+import { BadRequestError } from '../utils/errors.utils';
+
+/**
+ * Authorization Decision Log
+ *
+ * Persists a sample of authorization decisions (with their explanation)
+ * to the authz_decisions collection, and queries them back by user, team
+ * and outcome.
+ *
+ * Denials and grants are sampled at separate rates
+ * (AUTHZ_DENIED_DECISION_SAMPLE_RATE / AUTHZ_DECISION_SAMPLE_RATE), since
+ * denials are rarer and the ones people ask about. Writes never block or
+ * fail the request being authorized.
+ */
+
+const logger = createLogger('authz-decisions');
+
+export const DEFAULT_DECISION_PAGE_SIZE = 50;
+export const MAX_DECISION_PAGE_SIZE = 200;
+
+export interface DecisionRecordContext {
+  source: DecisionSource;
+  requestId?: string;
+  route?: string;
+}
+
+export interface DecisionQuery {
+  userId?: string;
+  teamId?: string;
+  allowed?: boolean;
+  permission?: string;
+  before?: string;     // decision_id cursor from a previous page
+  limit?: number;
+}
+
+export interface DecisionPage {
+  decisions: IAuthzDecision[];
+  next_cursor: string | null;
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * Whether a decision with this outcome should be persisted
+ */
+export function shouldSampleDecision(allowed: boolean): boolean {
+  const rate = allowed ? env.AUTHZ_DECISION_SAMPLE_RATE : env.AUTHZ_DENIED_DECISION_SAMPLE_RATE;
+  return rate > 0 && Math.random() < rate;
+}
+
+/**
+ * Persist a decision if it is sampled
+ *
+ * Fire-and-forget: returns immediately, and a failed write is only logged.
+ *
+ * @param explanation - From explainUserPermission
+ * @param context - Where the decision was made
+ */
+export function recordDecision(explanation: DecisionExplanation, context: DecisionRecordContext): void {
+  if (shouldSampleDecision(explanation.allowed)) {
+    saveDecision(explanation, context);
+  }
+}
+
+/**
+ * Persist a decision that has already been sampled
+ *
+ * For callers that sample before building the explanation, so unsampled
+ * decisions don't pay for one. Fire-and-forget, like recordDecision.
+ */
+export function saveDecision(explanation: DecisionExplanation, context: DecisionRecordContext): void {
+  AuthzDecision.create({
+    user_id: explanation.principal.id,
+    team_id: explanation.team_id,
+    permission: explanation.permission,
+    allowed: explanation.allowed,
+    reason: explanation.reason,
+    role: explanation.role,
+    source: context.source,
+    request_id: context.requestId,
+    route: context.route,
+    explanation
+  }).catch(error => {
+    logger.warn('Failed to record authorization decision', {
+      error: error instanceof Error ? error.message : String(error),
+      permission: explanation.permission,
+      teamId: explanation.team_id
+    });
+  });
+}
+
+// ============================================
+// QUERYING
+// ============================================
+
+/**
+ * Query recorded decisions, newest first
+ *
+ * @param query - Filters; all optional and combined with AND
+ * @returns One page, plus the cursor for the next one (null on the last page)
+ *
+ * @example
+ * // Recent denials for a user on a team
+ * const page = await queryDecisions({ userId: 'user-123', teamId: '652f...', allowed: false });
+ * const next = await queryDecisions({ userId: 'user-123', before: page.next_cursor! });
+ */
+export async function queryDecisions(query: DecisionQuery): Promise<DecisionPage> {
+  try {
+    const limit = query.limit ?? DEFAULT_DECISION_PAGE_SIZE;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DECISION_PAGE_SIZE) {
+      throw new BadRequestError(`limit must be an integer between 1 and ${MAX_DECISION_PAGE_SIZE}`);
+    }
+
+    if (query.before !== undefined && !mongoose.Types.ObjectId.isValid(query.before)) {
+      throw new BadRequestError('before must be a decision_id from a previous page');
+    }
+
+    const filter: Record<string, unknown> = {};
+    if (query.userId) filter.user_id = query.userId;
+    if (query.teamId) filter.team_id = query.teamId;
+    if (query.allowed !== undefined) filter.allowed = query.allowed;
+    if (query.permission) filter.permission = query.permission;
+    if (query.before) filter._id = { $lt: new mongoose.Types.ObjectId(query.before) };
+
+    // One extra document tells us whether there is a next page
+    const decisions = await AuthzDecision.find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1);
+
+    const hasMore = decisions.length > limit;
+    const page = hasMore ? decisions.slice(0, limit) : decisions;
+
+    return {
+      decisions: page,
+      next_cursor: hasMore ? page[page.length - 1].decision_id : null
+    };
+
+  } catch (error) {
+    console.error('Error querying authorization decisions:', error);
+    throw error;
+  }
+}
+
+export default {
+  shouldSampleDecision,
+  recordDecision,
+  saveDecision,
+  queryDecisions
+};
@@ -0,0 +1,244 @@
+import mongoose, { mongo } from 'mongoose';
+import { Permission } from '../models/Permission.model';
+import { Role } from '../models/Role.model';
+import { RolePermission } from '../models/RolePermission.model';
+import { TeamMembership } from '../models/TeamMembership.model';
+import { TeamPermissionOverride } from '../models/TeamPermissionOverride.model';
+import { databaseManager } from '../config/db.config';
+import { env } from '../config/env.config';
+import { createLogger } from '../utils/logger.utils';
+import {
+  invalidateRolePermissions,
+  invalidatePermissionCatalogue,
+  invalidateTeamPermissionOverrides
+} from './permission.cache.service';
+import { invalidateRoles } from './role.service';
+import {
+  invalidateMembership,
+  invalidateAllMemberships
+} from './member.service';
+
+const logger = createLogger('cache-invalidation');
+
+/**
+ * Cache Invalidation Watcher
+ *
+ * The permission and membership caches are per process. When several
+ * replicas run, a change made through one instance has to reach the
+ * caches of all the others. Every instance therefore tails MongoDB change
+ * streams on the collections behind those caches and invalidates locally.
+ *
+ * Change streams need a replica set. On a standalone server the watcher
+ * stays off and caches fall back to TTL-only expiry.
+ */
+
+// Errors after which the stored resume token can no longer be used
+const NON_RESUMABLE_ERROR_CODES = new Set([
+  260, // InvalidResumeToken
+  280, // ChangeStreamFatalError
+  286, // ChangeStreamHistoryLost
+]);
+
+interface WatchTarget {
+  name: string;
+  model: mongoose.Model<any>;
+  onChange: (change: mongo.ChangeStreamDocument) => void;
+  // Called when events may have been missed and the whole cache must go
+  onReset: () => void;
+}
+
+const watchTargets: WatchTarget[] = [
+  {
+    name: 'roles',
+    model: Role,
+    onChange: () => invalidateRoles(),
+    onReset: () => invalidateRoles(),
+  },
+  {
+    name: 'permissions',
+    model: Permission,
+    onChange: () => {
+      invalidateRolePermissions();
+      invalidatePermissionCatalogue();
+    },
+    onReset: () => {
+      invalidateRolePermissions();
+      invalidatePermissionCatalogue();
+    },
+  },
+  {
+    name: 'role_permissions',
+    model: RolePermission,
+    // Deletes only carry the _id, so drop every role rather than guess
+    onChange: () => invalidateRolePermissions(),
+    onReset: () => invalidateRolePermissions(),
+  },
+  {
+    name: 'team_permission_overrides',
+    model: TeamPermissionOverride,
+    onChange: (change) => {
+      const override = 'fullDocument' in change ? change.fullDocument : undefined;
+
+      if (override && override.team_id) {
+        invalidateTeamPermissionOverrides(override.team_id.toString());
+      } else {
+        invalidateTeamPermissionOverrides();
+      }
+    },
+    onReset: () => invalidateTeamPermissionOverrides(),
+  },
+  {
+    name: 'team_memberships',
+    model: TeamMembership,
+    onChange: (change) => {
+      const membership = 'fullDocument' in change ? change.fullDocument : undefined;
+
+      if (membership && membership.team_id && membership.user_id) {
+        invalidateMembership(membership.user_id, membership.team_id.toString());
+      } else {
+        // Deletes (and updates of since-deleted documents) don't say whose
+        // membership it was
+        invalidateAllMemberships();
+      }
+    },
+    onReset: () => invalidateAllMemberships(),
+  },
+];
+
+class CacheInvalidationWatcher {
+  private static instance: CacheInvalidationWatcher;
+  private running: boolean = false;
+  private streams: Map<string, mongo.ChangeStream> = new Map();
+  private resumeTokens: Map<string, unknown> = new Map();
+  private retryAttempts: Map<string, number> = new Map();
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly initialRetryDelay: number = 1000; // 1 second
+  private readonly maxRetryDelay: number = 30000;
+
+  private constructor() {}
+
+  public static getInstance(): CacheInvalidationWatcher {
+    if (!CacheInvalidationWatcher.instance) {
+      CacheInvalidationWatcher.instance = new CacheInvalidationWatcher();
+    }
+    return CacheInvalidationWatcher.instance;
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  public async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    if (!env.CACHE_CHANGE_STREAMS_ENABLED) {
+      logger.info('📭 Change stream cache invalidation disabled - caches use TTL expiry only');
+      return;
+    }
+
+    if (!(await databaseManager.supportsChangeStreams())) {
+      logger.warn('⚠️ MongoDB is not a replica set - caches use TTL expiry only');
+      return;
+    }
+
+    this.running = true;
+    watchTargets.forEach(target => this.watch(target));
+    logger.info(`👀 Watching ${watchTargets.length} collection(s) for cache invalidation`);
+  }
+
+  private watch(target: WatchTarget): void {
+    const resumeAfter = this.resumeTokens.get(target.name);
+
+    const stream = target.model.watch([], {
+      fullDocument: 'updateLookup',
+      ...(resumeAfter ? { resumeAfter } : {}),
+    });
+    this.streams.set(target.name, stream);
+
+    stream.on('change', (change: mongo.ChangeStreamDocument) => {
+      this.retryAttempts.set(target.name, 0);
+
+      // 'invalidate' ends the stream (collection dropped/renamed); its token
+      // can't be resumed after, so start over from "now"
+      if (change.operationType === 'invalidate') {
+        this.resumeTokens.delete(target.name);
+        target.onReset();
+        return;
+      }
+
+      this.resumeTokens.set(target.name, change._id);
+
+      try {
+        target.onChange(change);
+      } catch (error: any) {
+        logger.error(`❌ Failed to apply ${target.name} change, resetting cache`, { error: error.message });
+        target.onReset();
+      }
+    });
+
+    stream.on('error', (error: any) => {
+      logger.warn(`⚠️ Change stream on ${target.name} failed`, { error: error.message, code: error.code });
+
+      if (NON_RESUMABLE_ERROR_CODES.has(error.code)) {
+        this.resumeTokens.delete(target.name);
+      }
+      this.restart(target);
+    });
+
+    stream.on('close', () => {
+      // Only react to closes we didn't initiate
+      if (this.streams.get(target.name) === stream) {
+        this.restart(target);
+      }
+    });
+  }
+
+  /**
+   * Re-open a stream with exponential backoff, resuming where it left off
+   * if we still have a usable resume token
+   */
+  private restart(target: WatchTarget): void {
+    const stream = this.streams.get(target.name);
+    this.streams.delete(target.name);
+    stream?.close().catch(() => undefined);
+
+    if (!this.running || this.retryTimers.has(target.name)) {
+      return;
+    }
+
+    // Without a resume token we can't replay what happened in the gap
+    if (!this.resumeTokens.has(target.name)) {
+      target.onReset();
+    }
+
+    const attempt = (this.retryAttempts.get(target.name) ?? 0) + 1;
+    this.retryAttempts.set(target.name, attempt);
+    const delay = Math.min(this.initialRetryDelay * Math.pow(2, attempt - 1), this.maxRetryDelay);
+
+    logger.info(`🔄 Reopening ${target.name} change stream in ${delay}ms (attempt ${attempt})`);
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(target.name);
+      if (this.running) {
+        this.watch(target);
+      }
+    }, delay);
+    timer.unref();
+    this.retryTimers.set(target.name, timer);
+  }
+
+  public async stop(): Promise<void> {
+    this.running = false;
+
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+
+    const streams = [...this.streams.values()];
+    this.streams.clear();
+    await Promise.all(streams.map(stream => stream.close().catch(() => undefined)));
+  }
+}
+
+export const cacheInvalidationWatcher = CacheInvalidationWatcher.getInstance();
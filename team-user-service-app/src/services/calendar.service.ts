@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { CalendarFeed, CalendarFeedType, ICalendarFeed } from '../models/CalendarFeed.model';
+import { Team } from '../models/Team.model';
+import { getUserTeamsWithRoles, isUserInTeam } from './member.service';
+import { getOnCallTimeline, ScheduleTimeline } from './oncall.service';
+import { Shift } from '../utils/rotation.utils';
+import { DAY_MS } from '../utils/timezone.utils';
+import { IcsEvent, renderCalendar } from '../utils/ical.utils';
+import { BadRequestError, ConflictError, ForbiddenError } from '../utils/errors.utils';
+
+/**
+ * Calendar Service
+ *
+ * Serves on-call shifts (rotations plus overrides, as computed by the
+ * on-call service) as iCalendar feeds that calendar apps subscribe to
+ * by URL.
+ *
+ * A feed covers FEED_PAST_DAYS before today to FEED_FUTURE_DAYS after.
+ * Event UIDs are derived from the shift itself, so a client refreshing
+ * the feed updates events in place instead of duplicating them.
+ */
+
+export const FEED_PAST_DAYS = 14;
+export const FEED_FUTURE_DAYS = 60;
+export const MAX_FEEDS_PER_USER = 20;
+
+const UID_DOMAIN = 'team-user-service';
+
+export interface FeedInput {
+  type: CalendarFeedType;
+  teamId?: string;
+  name?: string;
+}
+
+export interface CreatedFeed {
+  feed: ICalendarFeed;
+  token: string;                  // Only available now; just the hash is stored
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The range a feed covers, starting at a UTC midnight so it only moves
+ * once a day
+ */
+function feedRange(now: Date = new Date()): { from: Date; to: Date } {
+  const today = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+  return {
+    from: new Date(today - FEED_PAST_DAYS * DAY_MS),
+    to: new Date(today + (FEED_FUTURE_DAYS + 1) * DAY_MS)
+  };
+}
+
+/**
+ * A stable UID for a shift
+ *
+ * Shifts are clipped to the feed's range, so a clipped edge can't
+ * identify them: use the start when it is real, otherwise the end. Only
+ * a shift covering the whole range has neither, and there is at most
+ * one of those per layer and person.
+ */
+function shiftUid(scheduleId: string, shift: Shift, from: Date, to: Date): string {
+  const anchor = shift.start > from
+    ? `start:${shift.start.toISOString()}`
+    : shift.end < to ? `end:${shift.end.toISOString()}` : 'ongoing';
+
+  const key = [scheduleId, shift.layer, shift.user_id, shift.override_id ?? '', anchor].join('|');
+  return `${crypto.createHash('sha256').update(key).digest('hex').slice(0, 32)}@${UID_DOMAIN}`;
+}
+
+function shiftEvents(
+  timeline: ScheduleTimeline,
+  shifts: Shift[],
+  summary: (shift: Shift) => string,
+  from: Date,
+  to: Date
+): IcsEvent[] {
+  return shifts.map(shift => ({
+    uid: shiftUid(timeline.schedule_id, shift, from, to),
+    start: shift.start,
+    end: shift.end,
+    timeZone: timeline.time_zone,
+    summary: summary(shift),
+    description: `Schedule: ${timeline.schedule_name}\nLayer: ${shift.layer}`
+      + (shift.override_id ? '\nOverride' : '')
+  }));
+}
+
+async function teamNames(teamIds: string[]): Promise<Map<string, string>> {
+  const teams = await Team.find({ _id: { $in: teamIds } }).select('name').lean();
+  return new Map(teams.map(team => [team._id.toString(), team.name]));
+}
+
+// ============================================
+// FEED MANAGEMENT
+// ============================================
+
+/**
+ * Create a calendar feed
+ *
+ * @param userId - The owner
+ * @param input - 'user' for the owner's own shifts, 'team' (with teamId)
+ *                for a whole team's
+ * @returns The feed and its token; the token is not stored and can't be
+ *          shown again
+ * @throws ForbiddenError if the owner isn't a member of the team
+ * @throws ConflictError if the owner already has MAX_FEEDS_PER_USER feeds
+ */
+export async function createFeed(userId: string, input: FeedInput): Promise<CreatedFeed> {
+  try {
+    if (!Object.values(CalendarFeedType).includes(input.type)) {
+      throw new BadRequestError(`type must be one of: ${Object.values(CalendarFeedType).join(', ')}`);
+    }
+
+    if (input.type === CalendarFeedType.TEAM) {
+      if (!input.teamId) {
+        throw new BadRequestError('team_id is required for team feeds');
+      }
+      if (!await isUserInTeam(userId, input.teamId)) {
+        throw new ForbiddenError('You are not a member of this team');
+      }
+    }
+
+    const active = await CalendarFeed.countDocuments({ user_id: userId, revoked_at: { $exists: false } });
+    if (active >= MAX_FEEDS_PER_USER) {
+      throw new ConflictError(`You can have at most ${MAX_FEEDS_PER_USER} calendar feeds; revoke one first`);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const feed = await CalendarFeed.create({
+      token_hash: hashToken(token),
+      type: input.type,
+      user_id: userId,
+      team_id: input.type === CalendarFeedType.TEAM ? input.teamId : undefined,
+      name: input.name
+    });
+
+    return { feed, token };
+
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    throw error;
+  }
+}
+
+/**
+ * List a user's active feeds
+ */
+export async function listFeeds(userId: string): Promise<ICalendarFeed[]> {
+  try {
+    return await CalendarFeed.find({ user_id: userId, revoked_at: { $exists: false } })
+      .sort({ created_at: -1 });
+  } catch (error) {
+    console.error('Error listing calendar feeds:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke one of a user's feeds; its URL stops working immediately
+ *
+ * @returns true if an active feed was revoked
+ */
+export async function revokeFeed(userId: string, feedId: string): Promise<boolean> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(feedId)) {
+      return false;
+    }
+
+    const result = await CalendarFeed.updateOne(
+      { _id: feedId, user_id: userId, revoked_at: { $exists: false } },
+      { revoked_at: new Date() }
+    );
+    return result.modifiedCount > 0;
+
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// FEED RENDERING
+// ============================================
+
+/**
+ * Look up the feed a URL token belongs to
+ *
+ * Team feeds stop resolving when their owner leaves the team.
+ *
+ * @returns The feed, or null if the token is unknown or revoked
+ */
+export async function resolveFeedToken(token: string): Promise<ICalendarFeed | null> {
+  try {
+    const feed = await CalendarFeed.findOne({
+      token_hash: hashToken(token),
+      revoked_at: { $exists: false }
+    });
+
+    if (!feed) {
+      return null;
+    }
+
+    if (feed.type === CalendarFeedType.TEAM
+      && !await isUserInTeam(feed.user_id, feed.team_id!.toString())) {
+      return null;
+    }
+
+    // Off the response path; only informational
+    CalendarFeed.updateOne({ _id: feed._id }, { last_accessed_at: new Date() })
+      .catch(error => console.error('Error recording calendar feed access:', error));
+
+    return feed;
+
+  } catch (error) {
+    console.error('Error resolving calendar feed token:', error);
+    throw error;
+  }
+}
+
+/**
+ * Render a feed as an iCalendar document
+ */
+export async function renderFeed(feed: ICalendarFeed): Promise<string> {
+  try {
+    const { from, to } = feedRange();
+    const events: IcsEvent[] = [];
+
+    if (feed.type === CalendarFeedType.TEAM) {
+      const teamId = feed.team_id!.toString();
+      const [timelines, names] = await Promise.all([
+        getOnCallTimeline(teamId, from, to),
+        teamNames([teamId])
+      ]);
+
+      for (const timeline of timelines) {
+        events.push(...shiftEvents(
+          timeline,
+          timeline.shifts,
+          shift => `On call: ${shift.user_id} (${timeline.schedule_name})`,
+          from,
+          to
+        ));
+      }
+
+      return renderCalendar({
+        name: feed.name ?? `${names.get(teamId) ?? 'Team'} on-call`,
+        description: 'Every on-call shift on the team\'s schedules',
+        events,
+        from,
+        to
+      });
+    }
+
+    const teamIds = (await getUserTeamsWithRoles(feed.user_id)).map(team => team.teamId);
+    const names = await teamNames(teamIds);
+
+    for (const teamId of teamIds) {
+      for (const timeline of await getOnCallTimeline(teamId, from, to)) {
+        events.push(...shiftEvents(
+          timeline,
+          timeline.shifts.filter(shift => shift.user_id === feed.user_id),
+          () => `On call: ${names.get(teamId) ?? 'Team'} - ${timeline.schedule_name}`,
+          from,
+          to
+        ));
+      }
+    }
+
+    return renderCalendar({
+      name: feed.name ?? 'My on-call shifts',
+      description: 'Your on-call shifts across all your teams',
+      events,
+      from,
+      to
+    });
+
+  } catch (error) {
+    console.error('Error rendering calendar feed:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORT ALL FUNCTIONS
+// ============================================
+
+export default {
+  createFeed,
+  listFeeds,
+  revokeFeed,
+  resolveFeedToken,
+  renderFeed
+};
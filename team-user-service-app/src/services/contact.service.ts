@@ -0,0 +1,412 @@
+import mongoose from 'mongoose';
+import { ContactMethod, ContactMethodType, IContactMethod } from '../models/ContactMethod.model';
+import { NotificationRule, NotificationUrgency, INotificationRule } from '../models/NotificationRule.model';
+import { isProduction } from '../config/env.config';
+import { BadRequestError, ConflictError, NotFoundError, isDuplicateKeyError } from '../utils/errors.utils';
+
+/**
+ * Contact Service
+ *
+ * Owns how to reach a user during an incident: their contact methods
+ * (email, SMS, voice, push, webhook) and the notification rules that say
+ * which method to use, for which urgency, how long after they're paged.
+ *
+ * User profiles themselves live in the auth service (see user.service);
+ * this is the incident-response data it has no place for.
+ */
+
+export const MAX_CONTACT_METHODS_PER_USER = 20;
+export const MAX_NOTIFICATION_RULES_PER_USER = 50;
+export const MAX_NOTIFICATION_DELAY_MINUTES = 24 * 60;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+const MAX_PUSH_TOKEN_LENGTH = 4096;
+
+export interface ContactMethodInput {
+  type: ContactMethodType;
+  address: string;
+  label?: string;
+}
+
+export interface NotificationRuleInput {
+  contact_method_id: string;
+  urgency: NotificationUrgency;
+  delay_minutes: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Check an address is valid for its contact method type
+ *
+ * @returns The address to store (trimmed, emails lowercased)
+ * @throws BadRequestError if it isn't
+ */
+function normalizeAddress(type: ContactMethodType, address: unknown): string {
+  if (typeof address !== 'string' || address.trim().length === 0) {
+    throw new BadRequestError('address is required');
+  }
+
+  const value = address.trim();
+
+  switch (type) {
+    case ContactMethodType.EMAIL:
+      if (!EMAIL_PATTERN.test(value)) {
+        throw new BadRequestError('address must be an email address');
+      }
+      return value.toLowerCase();
+
+    case ContactMethodType.SMS:
+    case ContactMethodType.VOICE:
+      if (!E164_PATTERN.test(value)) {
+        throw new BadRequestError('address must be a phone number in E.164 format, e.g. +4915112345678');
+      }
+      return value;
+
+    case ContactMethodType.PUSH:
+      if (value.length > MAX_PUSH_TOKEN_LENGTH) {
+        throw new BadRequestError(`address must be at most ${MAX_PUSH_TOKEN_LENGTH} characters`);
+      }
+      return value;
+
+    case ContactMethodType.WEBHOOK: {
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch {
+        throw new BadRequestError('address must be a URL');
+      }
+      // Plain http is allowed outside production, for local receivers
+      if (url.protocol !== 'https:' && (isProduction || url.protocol !== 'http:')) {
+        throw new BadRequestError('address must be an https URL');
+      }
+      return url.toString();
+    }
+
+    default:
+      throw new BadRequestError(`type must be one of: ${Object.values(ContactMethodType).join(', ')}`);
+  }
+}
+
+function assertValidRule(input: Partial<NotificationRuleInput>): void {
+  if (input.urgency !== undefined && !Object.values(NotificationUrgency).includes(input.urgency)) {
+    throw new BadRequestError(`urgency must be one of: ${Object.values(NotificationUrgency).join(', ')}`);
+  }
+
+  if (input.delay_minutes !== undefined && !(Number.isInteger(input.delay_minutes)
+    && input.delay_minutes >= 0 && input.delay_minutes <= MAX_NOTIFICATION_DELAY_MINUTES)) {
+    throw new BadRequestError(`delay_minutes must be a whole number from 0 to ${MAX_NOTIFICATION_DELAY_MINUTES}`);
+  }
+}
+
+// ============================================
+// CONTACT METHODS
+// ============================================
+
+/**
+ * List a user's contact methods
+ */
+export async function listContactMethods(userId: string): Promise<IContactMethod[]> {
+  try {
+    return await ContactMethod.find({ user_id: userId }).sort({ created_at: 1 });
+  } catch (error) {
+    console.error('Error listing contact methods:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one of a user's contact methods
+ *
+ * @throws NotFoundError if the user has no such method
+ */
+export async function getContactMethod(userId: string, methodId: string): Promise<IContactMethod> {
+  const method = mongoose.Types.ObjectId.isValid(methodId)
+    ? await ContactMethod.findOne({ _id: methodId, user_id: userId })
+    : null;
+
+  if (!method) {
+    throw new NotFoundError(`Contact method ${methodId} not found`);
+  }
+
+  return method;
+}
+
+/**
+ * Add a contact method (unverified)
+ *
+ * @example
+ * await addContactMethod('user-1', { type: ContactMethodType.SMS, address: '+4915112345678', label: 'Work phone' });
+ */
+export async function addContactMethod(userId: string, input: ContactMethodInput): Promise<IContactMethod> {
+  try {
+    if (!Object.values(ContactMethodType).includes(input.type)) {
+      throw new BadRequestError(`type must be one of: ${Object.values(ContactMethodType).join(', ')}`);
+    }
+
+    const address = normalizeAddress(input.type, input.address);
+
+    const count = await ContactMethod.countDocuments({ user_id: userId });
+    if (count >= MAX_CONTACT_METHODS_PER_USER) {
+      throw new ConflictError(`You can have at most ${MAX_CONTACT_METHODS_PER_USER} contact methods`);
+    }
+
+    return await ContactMethod.create({
+      user_id: userId,
+      type: input.type,
+      address,
+      label: input.label
+    });
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`You already have ${input.type} contact method ${input.address}`);
+    }
+    console.error('Error adding contact method:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a contact method's address or label
+ *
+ * A new address has to be verified again.
+ */
+export async function updateContactMethod(
+  userId: string,
+  methodId: string,
+  updates: { address?: string; label?: string }
+): Promise<IContactMethod> {
+  try {
+    const method = await getContactMethod(userId, methodId);
+
+    if (updates.address !== undefined) {
+      const address = normalizeAddress(method.type, updates.address);
+      if (address !== method.address) {
+        method.address = address;
+        method.verified = false;
+        method.verified_at = null;
+      }
+    }
+
+    if (updates.label !== undefined) {
+      method.label = updates.label;
+    }
+
+    await method.save();
+    return method;
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`You already have a contact method with address ${updates.address}`);
+    }
+    console.error('Error updating contact method:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a contact method, and the notification rules that use it
+ *
+ * @returns true if it existed
+ */
+export async function removeContactMethod(userId: string, methodId: string): Promise<boolean> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(methodId)) {
+      return false;
+    }
+
+    const result = await ContactMethod.deleteOne({ _id: methodId, user_id: userId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await NotificationRule.deleteMany({ user_id: userId, contact_method_id: methodId });
+    return true;
+
+  } catch (error) {
+    console.error('Error removing contact method:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record whether a contact method is verified
+ *
+ * Called by whatever delivers notifications, once the user has proven
+ * they receive messages at the address (or it turns out they don't).
+ */
+export async function setContactMethodVerified(
+  userId: string,
+  methodId: string,
+  verified: boolean
+): Promise<IContactMethod> {
+  try {
+    const method = await getContactMethod(userId, methodId);
+
+    method.verified = verified;
+    method.verified_at = verified ? new Date() : null;
+    await method.save();
+
+    return method;
+
+  } catch (error) {
+    console.error('Error setting contact method verification:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// NOTIFICATION RULES
+// ============================================
+
+/**
+ * List a user's notification rules, by urgency then delay
+ *
+ * @param urgency - Only rules for this urgency
+ */
+export async function listNotificationRules(
+  userId: string,
+  urgency?: NotificationUrgency
+): Promise<INotificationRule[]> {
+  try {
+    const query: Record<string, unknown> = { user_id: userId };
+    if (urgency) {
+      query.urgency = urgency;
+    }
+
+    return await NotificationRule.find(query).sort({ urgency: 1, delay_minutes: 1 });
+
+  } catch (error) {
+    console.error('Error listing notification rules:', error);
+    throw error;
+  }
+}
+
+/**
+ * Add a notification rule
+ *
+ * @throws NotFoundError if the contact method isn't one of the user's
+ *
+ * @example
+ * // Email after 5 minutes for low urgency
+ * await addNotificationRule('user-1', {
+ *   contact_method_id: emailMethodId,
+ *   urgency: NotificationUrgency.LOW,
+ *   delay_minutes: 5
+ * });
+ */
+export async function addNotificationRule(
+  userId: string,
+  input: NotificationRuleInput
+): Promise<INotificationRule> {
+  try {
+    if (input.urgency === undefined || input.delay_minutes === undefined) {
+      throw new BadRequestError('urgency and delay_minutes are required');
+    }
+    assertValidRule(input);
+
+    await getContactMethod(userId, input.contact_method_id);
+
+    const count = await NotificationRule.countDocuments({ user_id: userId });
+    if (count >= MAX_NOTIFICATION_RULES_PER_USER) {
+      throw new ConflictError(`You can have at most ${MAX_NOTIFICATION_RULES_PER_USER} notification rules`);
+    }
+
+    return await NotificationRule.create({
+      user_id: userId,
+      contact_method_id: input.contact_method_id,
+      urgency: input.urgency,
+      delay_minutes: input.delay_minutes
+    });
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError('An identical notification rule already exists');
+    }
+    console.error('Error adding notification rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a notification rule
+ */
+export async function updateNotificationRule(
+  userId: string,
+  ruleId: string,
+  updates: Partial<NotificationRuleInput>
+): Promise<INotificationRule> {
+  try {
+    const rule = mongoose.Types.ObjectId.isValid(ruleId)
+      ? await NotificationRule.findOne({ _id: ruleId, user_id: userId })
+      : null;
+
+    if (!rule) {
+      throw new NotFoundError(`Notification rule ${ruleId} not found`);
+    }
+
+    assertValidRule(updates);
+
+    if (updates.contact_method_id !== undefined) {
+      await getContactMethod(userId, updates.contact_method_id);
+      rule.contact_method_id = new mongoose.Types.ObjectId(updates.contact_method_id);
+    }
+    if (updates.urgency !== undefined) {
+      rule.urgency = updates.urgency;
+    }
+    if (updates.delay_minutes !== undefined) {
+      rule.delay_minutes = updates.delay_minutes;
+    }
+
+    await rule.save();
+    return rule;
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError('An identical notification rule already exists');
+    }
+    console.error('Error updating notification rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a notification rule
+ *
+ * @returns true if it existed
+ */
+export async function removeNotificationRule(userId: string, ruleId: string): Promise<boolean> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(ruleId)) {
+      return false;
+    }
+
+    const result = await NotificationRule.deleteOne({ _id: ruleId, user_id: userId });
+    return result.deletedCount > 0;
+
+  } catch (error) {
+    console.error('Error removing notification rule:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORT ALL FUNCTIONS
+// ============================================
+
+export default {
+  listContactMethods,
+  getContactMethod,
+  addContactMethod,
+  updateContactMethod,
+  removeContactMethod,
+  setContactMethodVerified,
+  listNotificationRules,
+  addNotificationRule,
+  updateNotificationRule,
+  removeNotificationRule
+};
@@ -0,0 +1,426 @@
+import mongoose from 'mongoose';
+import {
+  EscalationPolicy,
+  EscalationTargetType,
+  IEscalationLevel,
+  IEscalationPolicy,
+  IEscalationTarget
+} from '../models/EscalationPolicy.model';
+import { OnCallSchedule } from '../models/OnCallSchedule.model';
+import { Team } from '../models/Team.model';
+import { getTeamMembers } from './member.service';
+import { getOnCallNow } from './oncall.service';
+import { getRoleByName } from './role.service';
+import { BadRequestError, ConflictError, NotFoundError, isDuplicateKeyError } from '../utils/errors.utils';
+
+/**
+ * Escalation Service
+ *
+ * Owns team escalation policies and resolves them to the people to page:
+ * "if the primary doesn't acknowledge, page the secondary, then the team
+ * admin".
+ *
+ * Policies only ever name the team's own members, schedules and (global)
+ * roles; that is checked whenever one is saved. Members who leave later
+ * are dropped when a policy is resolved, the same way on-call rotations
+ * skip them.
+ */
+
+export const MAX_ESCALATION_LEVELS = 10;
+export const MAX_ESCALATION_DELAY_MINUTES = 24 * 60;
+
+export interface PolicyInput {
+  name: string;
+  description?: string | null;      // null clears it on update
+  levels: IEscalationLevel[];
+}
+
+export interface ResolvedEscalationLevel {
+  level: number;                  // 1-based
+  delay_minutes: number;
+  notify_after_minutes: number;   // Since the trigger, if nobody acknowledges
+  users: Array<{
+    user_id: string;
+    via: IEscalationTarget;
+  }>;
+}
+
+export interface EscalationResolution {
+  policy_id: string;
+  policy_name: string;
+  team_id: string;
+  at: Date;
+  levels: ResolvedEscalationLevel[];
+  users: string[];                // Everyone, in paging order, each once
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function assertTeamExists(teamId: string): Promise<void> {
+  const exists = mongoose.Types.ObjectId.isValid(teamId) && await Team.exists({ _id: teamId });
+  if (!exists) {
+    throw new NotFoundError(`Team ${teamId} not found`);
+  }
+}
+
+/**
+ * Check the shape of a policy's levels
+ *
+ * @returns An error message, or null if they are well-formed
+ */
+function validateLevelShape(levels: unknown): string | null {
+  if (!Array.isArray(levels) || levels.length === 0) {
+    return 'levels must be a non-empty array';
+  }
+  if (levels.length > MAX_ESCALATION_LEVELS) {
+    return `A policy can have at most ${MAX_ESCALATION_LEVELS} levels`;
+  }
+
+  const targetTypes = Object.values(EscalationTargetType) as string[];
+
+  for (const [index, level] of levels.entries()) {
+    const where = `levels[${index}]`;
+
+    if (typeof level !== 'object' || level === null) {
+      return `${where} must be an object`;
+    }
+
+    const { delay_minutes, targets } = level as any;
+
+    if (!Number.isInteger(delay_minutes) || delay_minutes < 0 || delay_minutes > MAX_ESCALATION_DELAY_MINUTES) {
+      return `${where}.delay_minutes must be a whole number from 0 to ${MAX_ESCALATION_DELAY_MINUTES}`;
+    }
+
+    if (!Array.isArray(targets) || targets.length === 0) {
+      return `${where}.targets must be a non-empty array`;
+    }
+
+    for (const [targetIndex, target] of targets.entries()) {
+      if (typeof target !== 'object' || target === null
+        || !targetTypes.includes(target.type)
+        || typeof target.id !== 'string' || target.id.length === 0) {
+        return `${where}.targets[${targetIndex}] must be { type: ${targetTypes.join(' | ')}, id: string }`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a policy, and that every target belongs to the team: users
+ * are members, schedules are the team's, roles exist
+ */
+async function assertValidPolicy(teamId: string, input: PolicyInput): Promise<void> {
+  if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+    throw new BadRequestError('name is required');
+  }
+
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    throw new BadRequestError('description must be a string');
+  }
+
+  const invalid = validateLevelShape(input.levels);
+  if (invalid) {
+    throw new BadRequestError(invalid);
+  }
+
+  const targets = input.levels.flatMap(level => level.targets);
+  const idsOf = (type: EscalationTargetType) =>
+    [...new Set(targets.filter(target => target.type === type).map(target => target.id))];
+
+  const userIds = idsOf(EscalationTargetType.USER);
+  if (userIds.length > 0) {
+    const members = new Set((await getTeamMembers(teamId)).map(member => member.userId));
+    const outsiders = userIds.filter(userId => !members.has(userId));
+
+    if (outsiders.length > 0) {
+      throw new BadRequestError(`Escalation targets must be team members; not members: ${outsiders.join(', ')}`);
+    }
+  }
+
+  const scheduleIds = idsOf(EscalationTargetType.SCHEDULE);
+  if (scheduleIds.length > 0) {
+    const found = await OnCallSchedule.find({
+      _id: { $in: scheduleIds.filter(id => mongoose.Types.ObjectId.isValid(id)) },
+      team_id: teamId
+    }).select('_id').lean();
+    const foundIds = new Set(found.map(schedule => schedule._id.toString()));
+    const missing = scheduleIds.filter(id => !foundIds.has(id));
+
+    if (missing.length > 0) {
+      throw new BadRequestError(`Schedules not found on this team: ${missing.join(', ')}`);
+    }
+  }
+
+  const roleNames = idsOf(EscalationTargetType.ROLE);
+  const unknownRoles: string[] = [];
+  for (const roleName of roleNames) {
+    if (!await getRoleByName(roleName)) {
+      unknownRoles.push(roleName);
+    }
+  }
+  if (unknownRoles.length > 0) {
+    throw new BadRequestError(`Roles not found: ${unknownRoles.join(', ')}`);
+  }
+}
+
+/**
+ * Store role targets by their canonical (lowercase) name
+ */
+function normalizeLevels(levels: IEscalationLevel[]): IEscalationLevel[] {
+  return levels.map(level => ({
+    delay_minutes: level.delay_minutes,
+    targets: level.targets.map(target => ({
+      type: target.type,
+      id: target.type === EscalationTargetType.ROLE ? target.id.toLowerCase() : target.id
+    }))
+  }));
+}
+
+// ============================================
+// POLICY MANAGEMENT
+// ============================================
+
+/**
+ * List a team's escalation policies
+ */
+export async function listPolicies(teamId: string): Promise<IEscalationPolicy[]> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return [];
+    }
+    return await EscalationPolicy.find({ team_id: teamId }).sort({ name: 1 });
+  } catch (error) {
+    console.error('Error listing escalation policies:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one of a team's escalation policies
+ *
+ * @throws NotFoundError if the policy doesn't exist on this team
+ */
+export async function getPolicy(teamId: string, policyId: string): Promise<IEscalationPolicy> {
+  const policy = mongoose.Types.ObjectId.isValid(policyId) && mongoose.Types.ObjectId.isValid(teamId)
+    ? await EscalationPolicy.findOne({ _id: policyId, team_id: teamId })
+    : null;
+
+  if (!policy) {
+    throw new NotFoundError(`Escalation policy ${policyId} not found on team ${teamId}`);
+  }
+
+  return policy;
+}
+
+/**
+ * Create an escalation policy
+ *
+ * @param teamId - The team the policy belongs to
+ * @param input - Name and ordered levels
+ * @param createdBy - The user creating it
+ *
+ * @example
+ * await createPolicy(teamId, {
+ *   name: 'Default',
+ *   levels: [
+ *     { delay_minutes: 0, targets: [{ type: 'schedule', id: primaryScheduleId }] },
+ *     { delay_minutes: 15, targets: [{ type: 'schedule', id: secondaryScheduleId }] },
+ *     { delay_minutes: 15, targets: [{ type: 'role', id: 'admin' }] }
+ *   ]
+ * }, 'user-1');
+ */
+export async function createPolicy(
+  teamId: string,
+  input: PolicyInput,
+  createdBy: string
+): Promise<IEscalationPolicy> {
+  try {
+    await assertTeamExists(teamId);
+    await assertValidPolicy(teamId, input);
+
+    return await EscalationPolicy.create({
+      team_id: teamId,
+      name: input.name,
+      description: input.description,
+      levels: normalizeLevels(input.levels),
+      created_by: createdBy
+    });
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`Escalation policy '${input.name}' already exists on this team`);
+    }
+    console.error('Error creating escalation policy:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update an escalation policy
+ *
+ * Fields that are given replace the stored ones (levels as a whole),
+ * so a description of null or '' clears it; the result is validated
+ * like a new policy.
+ */
+export async function updatePolicy(
+  teamId: string,
+  policyId: string,
+  updates: Partial<PolicyInput>
+): Promise<IEscalationPolicy> {
+  try {
+    const policy = await getPolicy(teamId, policyId);
+
+    const merged: PolicyInput = {
+      name: updates.name ?? policy.name,
+      description: updates.description !== undefined ? updates.description : policy.description,
+      levels: updates.levels ?? policy.levels
+    };
+
+    await assertValidPolicy(teamId, merged);
+
+    policy.set({ ...merged, levels: normalizeLevels(merged.levels) });
+    await policy.save();
+
+    return policy;
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`Escalation policy '${updates.name}' already exists on this team`);
+    }
+    console.error('Error updating escalation policy:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an escalation policy
+ *
+ * @returns true if it existed
+ */
+export async function deletePolicy(teamId: string, policyId: string): Promise<boolean> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(policyId) || !mongoose.Types.ObjectId.isValid(teamId)) {
+      return false;
+    }
+
+    const result = await EscalationPolicy.deleteOne({ _id: policyId, team_id: teamId });
+    return result.deletedCount > 0;
+
+  } catch (error) {
+    console.error('Error deleting escalation policy:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Resolve a policy to the people to page, at a given moment
+ *
+ * Schedules resolve to whoever is on call at `at` (overrides included),
+ * roles to every member holding the role (longest-standing first), users
+ * to themselves. Targets that resolve to nobody (an uncovered schedule,
+ * a departed member) are skipped.
+ *
+ * @param teamId - The team
+ * @param policyId - The policy
+ * @param at - The moment (default: now)
+ * @returns Each level's users, and the overall paging order with each
+ *          user listed once, at the first level that reaches them
+ *
+ * @example
+ * const { users } = await resolvePolicy(teamId, policyId);
+ * // ['user-2', 'user-5', 'user-1']
+ */
+export async function resolvePolicy(
+  teamId: string,
+  policyId: string,
+  at: Date = new Date()
+): Promise<EscalationResolution> {
+  try {
+    const policy = await getPolicy(teamId, policyId);
+    const members = await getTeamMembers(teamId);
+    const memberIds = new Set(members.map(member => member.userId));
+
+    const usesSchedules = policy.levels.some(level =>
+      level.targets.some(target => target.type === EscalationTargetType.SCHEDULE));
+    const onCallBySchedule = new Map<string, string | null>(
+      usesSchedules
+        ? (await getOnCallNow(teamId, at)).map(entry => [entry.schedule_id, entry.user_id])
+        : []
+    );
+
+    const resolveTarget = (target: IEscalationTarget): string[] => {
+      switch (target.type) {
+        case EscalationTargetType.USER:
+          return memberIds.has(target.id) ? [target.id] : [];
+        case EscalationTargetType.SCHEDULE: {
+          const onCall = onCallBySchedule.get(target.id);
+          return onCall ? [onCall] : [];
+        }
+        case EscalationTargetType.ROLE:
+          return members.filter(member => member.role === target.id).map(member => member.userId);
+        default:
+          return [];
+      }
+    };
+
+    let notifyAfter = 0;
+    const levels: ResolvedEscalationLevel[] = policy.levels.map((level, index) => {
+      notifyAfter += level.delay_minutes;
+
+      const seen = new Set<string>();
+      const users: ResolvedEscalationLevel['users'] = [];
+
+      for (const target of level.targets) {
+        for (const userId of resolveTarget(target)) {
+          if (!seen.has(userId)) {
+            seen.add(userId);
+            users.push({ user_id: userId, via: { type: target.type, id: target.id } });
+          }
+        }
+      }
+
+      return {
+        level: index + 1,
+        delay_minutes: level.delay_minutes,
+        notify_after_minutes: notifyAfter,
+        users
+      };
+    });
+
+    const order = [...new Set(levels.flatMap(level => level.users.map(user => user.user_id)))];
+
+    return {
+      policy_id: policy.policy_id,
+      policy_name: policy.name,
+      team_id: teamId,
+      at,
+      levels,
+      users: order
+    };
+
+  } catch (error) {
+    console.error('Error resolving escalation policy:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORT ALL FUNCTIONS
+// ============================================
+
+export default {
+  listPolicies,
+  getPolicy,
+  createPolicy,
+  updatePolicy,
+  deletePolicy,
+  resolvePolicy
+};
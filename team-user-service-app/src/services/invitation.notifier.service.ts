@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { env } from '../config/env.config';
+import { createLogger } from '../utils/logger.utils';
+
+/**
+ * Invitation Notifier
+ *
+ * Delivers team invitations to the invitee. This service doesn't send
+ * email itself: whatever does (a mail service, a notification service)
+ * is plugged in with setInvitationNotifier() at startup.
+ *
+ * Until then invitations go to the outbox notifier, which appends each
+ * one as a JSON line to INVITATION_OUTBOX_PATH and logs it, so local
+ * setups can pick the link up from there.
+ */
+
+export interface InvitationMessage {
+  invitationId: string;
+  email: string;
+  teamId: string;
+  teamName: string;
+  role: string;
+  invitedBy: string;
+  acceptUrl: string;              // Carries the token; the only copy of it
+  expiresAt: Date;
+  resend: boolean;
+}
+
+export interface InvitationNotifier {
+  /**
+   * Deliver an invitation
+   *
+   * @throws if it could not be delivered; the caller reports the failure
+   */
+  sendInvitation(message: InvitationMessage): Promise<void>;
+}
+
+const logger = createLogger('invitation-notifier');
+
+/**
+ * Writes invitations to a local file and the log instead of sending them
+ */
+export class OutboxInvitationNotifier implements InvitationNotifier {
+  constructor(private filePath: string) {}
+
+  async sendInvitation(message: InvitationMessage): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, sentAt: new Date() }) + '\n'
+    );
+
+    logger.info(`Invitation for ${message.email} to ${message.teamName} written to ${this.filePath}`, {
+      invitationId: message.invitationId,
+      acceptUrl: message.acceptUrl
+    });
+  }
+}
+
+let notifier: InvitationNotifier = new OutboxInvitationNotifier(env.INVITATION_OUTBOX_PATH);
+
+/**
+ * Replace the notifier invitations are delivered through
+ */
+export function setInvitationNotifier(next: InvitationNotifier): void {
+  notifier = next;
+}
+
+export function getInvitationNotifier(): InvitationNotifier {
+  return notifier;
+}
+
+export default {
+  setInvitationNotifier,
+  getInvitationNotifier
+};
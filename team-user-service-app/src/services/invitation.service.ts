@@ -0,0 +1,490 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { TeamInvitation, InvitationStatus, ITeamInvitation } from '../models/TeamInvitation.model';
+import { Team } from '../models/Team.model';
+import { UserProfile } from '../models/UserProfile.model';
+import { AuditAction } from '../models/AuditEvent.model';
+import { addUserToTeam, isUserInTeam } from './member.service';
+import { resolveRole } from './role.service';
+import { recordAuditEvent } from './audit.service';
+import userService from './user.service';
+import { getInvitationNotifier } from './invitation.notifier.service';
+import { env } from '../config/env.config';
+import { AuditContext } from '../utils/audit.utils';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UpstreamError,
+  isDuplicateKeyError
+} from '../utils/errors.utils';
+
+/**
+ * Invitation Service
+ *
+ * Lets team admins invite people by email instead of adding a known
+ * user_id. An invitation carries a random token, delivered through the
+ * invitation notifier; whoever signs in with the invited address and
+ * presents the token becomes a member with the invited role.
+ *
+ * Tokens expire after INVITATION_TTL_HOURS and work once. Resending an
+ * invitation replaces its token, so older links stop working.
+ */
+
+export const MAX_PENDING_INVITATIONS_PER_TEAM = 100;
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface InvitationInput {
+  email: string;
+  role: string;
+}
+
+export interface AcceptedInvitation {
+  invitation: ITeamInvitation;
+  team_id: string;
+  role: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function expiresAt(from: Date = new Date()): Date {
+  return new Date(from.getTime() + env.INVITATION_TTL_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Mark pending invitations past their expiry as expired
+ */
+async function expireStale(filter: Record<string, unknown>): Promise<void> {
+  await TeamInvitation.updateMany(
+    { ...filter, status: InvitationStatus.PENDING, expires_at: { $lte: new Date() } },
+    { status: InvitationStatus.EXPIRED }
+  );
+}
+
+async function getTeamName(teamId: string): Promise<string> {
+  const team = mongoose.Types.ObjectId.isValid(teamId)
+    ? await Team.findById(teamId).select('name').lean()
+    : null;
+
+  if (!team) {
+    throw new NotFoundError(`Team ${teamId} not found`);
+  }
+
+  return team.name;
+}
+
+/**
+ * Hand an invitation to the notifier
+ *
+ * @throws UpstreamError if the notifier fails
+ */
+async function deliver(
+  invitation: ITeamInvitation,
+  token: string,
+  teamName: string,
+  resend: boolean
+): Promise<void> {
+  try {
+    await getInvitationNotifier().sendInvitation({
+      invitationId: invitation.invitation_id,
+      email: invitation.email,
+      teamId: invitation.team_id.toString(),
+      teamName,
+      role: invitation.role,
+      invitedBy: invitation.invited_by,
+      acceptUrl: `${env.INVITATION_ACCEPT_URL.replace(/\/+$/, '')}/${token}`,
+      expiresAt: invitation.expires_at,
+      resend
+    });
+  } catch (error) {
+    console.error('Error delivering invitation:', error);
+    throw new UpstreamError(`Could not deliver the invitation to ${invitation.email}`);
+  }
+}
+
+/**
+ * Undo the claim on an invitation whose membership couldn't be created
+ *
+ * While it was marked accepted, a new invitation for the same address
+ * may have been sent; that one wins, and this one is revoked instead.
+ * Never throws, so the caller can report the original failure.
+ */
+async function releaseClaim(invitation: ITeamInvitation): Promise<void> {
+  try {
+    await TeamInvitation.updateOne(
+      { _id: invitation._id, status: InvitationStatus.ACCEPTED },
+      { $set: { status: InvitationStatus.PENDING }, $unset: { accepted_by: 1, accepted_at: 1 } }
+    );
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) {
+      console.error('Error releasing invitation claim:', error);
+      return;
+    }
+
+    await TeamInvitation.updateOne(
+      { _id: invitation._id, status: InvitationStatus.ACCEPTED },
+      {
+        $set: { status: InvitationStatus.REVOKED, revoked_at: new Date() },
+        $unset: { accepted_by: 1, accepted_at: 1 }
+      }
+    ).catch(revokeError => console.error('Error releasing invitation claim:', revokeError));
+  }
+}
+
+// ============================================
+// MANAGING INVITATIONS
+// ============================================
+
+/**
+ * List a team's invitations, newest first
+ *
+ * @param status - Only invitations in this status
+ */
+export async function listInvitations(
+  teamId: string,
+  status?: InvitationStatus
+): Promise<ITeamInvitation[]> {
+  try {
+    if (status !== undefined && !Object.values(InvitationStatus).includes(status)) {
+      throw new BadRequestError(`status must be one of: ${Object.values(InvitationStatus).join(', ')}`);
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return [];
+    }
+
+    await expireStale({ team_id: teamId });
+
+    const query: Record<string, unknown> = { team_id: teamId };
+    if (status) {
+      query.status = status;
+    }
+
+    return await TeamInvitation.find(query).sort({ created_at: -1 });
+
+  } catch (error) {
+    console.error('Error listing invitations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one of a team's invitations
+ *
+ * @throws NotFoundError if the team has no such invitation
+ */
+export async function getInvitation(teamId: string, invitationId: string): Promise<ITeamInvitation> {
+  const invitation = mongoose.Types.ObjectId.isValid(invitationId) && mongoose.Types.ObjectId.isValid(teamId)
+    ? await TeamInvitation.findOne({ _id: invitationId, team_id: teamId })
+    : null;
+
+  if (!invitation) {
+    throw new NotFoundError(`Invitation ${invitationId} not found`);
+  }
+
+  return invitation;
+}
+
+/**
+ * Invite an email address to a team, and send the invitation
+ *
+ * @param invitedBy - user_id of the admin sending it
+ * @throws ConflictError if the address already has a pending invitation
+ *         or belongs to a member
+ * @throws UpstreamError if it could not be delivered (nothing is kept)
+ *
+ * @example
+ * await createInvitation(teamId, { email: 'sam@example.com', role: 'operator' }, 'user-1', audit);
+ */
+export async function createInvitation(
+  teamId: string,
+  input: InvitationInput,
+  invitedBy: string,
+  audit?: AuditContext
+): Promise<ITeamInvitation> {
+  try {
+    if (typeof input.email !== 'string' || !EMAIL_PATTERN.test(input.email.trim())) {
+      throw new BadRequestError('email must be an email address');
+    }
+    if (typeof input.role !== 'string' || input.role.trim().length === 0) {
+      throw new BadRequestError('role is required');
+    }
+
+    const email = input.email.trim().toLowerCase();
+    const teamName = await getTeamName(teamId);
+    const role = await resolveRole(input.role.trim().toLowerCase());
+
+    // Best effort: only users we have a profile for can be recognised by email
+    const existing = await UserProfile.findOne({ email })
+      .collation({ locale: 'en', strength: 2 })
+      .select('user_id')
+      .lean();
+    if (existing && await isUserInTeam(existing.user_id, teamId)) {
+      throw new ConflictError(`${email} is already a member of this team`);
+    }
+
+    await expireStale({ team_id: teamId, email });
+
+    const pending = await TeamInvitation.countDocuments({ team_id: teamId, status: InvitationStatus.PENDING });
+    if (pending >= MAX_PENDING_INVITATIONS_PER_TEAM) {
+      throw new ConflictError(
+        `A team can have at most ${MAX_PENDING_INVITATIONS_PER_TEAM} pending invitations; revoke some first`
+      );
+    }
+
+    const token = newToken();
+    const now = new Date();
+
+    const invitation = await TeamInvitation.create({
+      team_id: teamId,
+      email,
+      role: role.name,
+      token_hash: hashToken(token),
+      invited_by: invitedBy,
+      expires_at: expiresAt(now),
+      last_sent_at: now
+    });
+
+    try {
+      await deliver(invitation, token, teamName, false);
+    } catch (error) {
+      // Nobody has the token, so the invitation would be useless
+      await TeamInvitation.deleteOne({ _id: invitation._id });
+      throw error;
+    }
+
+    await recordAuditEvent({
+      action: AuditAction.INVITATION_CREATED,
+      targetType: 'invitation',
+      targetId: invitation.invitation_id,
+      teamId,
+      after: { email, role: role.name }
+    }, audit);
+
+    return invitation;
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`${input.email} already has a pending invitation to this team; resend it instead`);
+    }
+    console.error('Error creating invitation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send an invitation again, with a new token and a new expiry
+ *
+ * Works for pending and expired invitations. The previous link stops
+ * working.
+ *
+ * @throws ConflictError if it was accepted or revoked, or was sent less
+ *         than RESEND_COOLDOWN_SECONDS ago
+ */
+export async function resendInvitation(
+  teamId: string,
+  invitationId: string,
+  audit?: AuditContext
+): Promise<ITeamInvitation> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(invitationId) || !mongoose.Types.ObjectId.isValid(teamId)) {
+      throw new NotFoundError(`Invitation ${invitationId} not found`);
+    }
+
+    await expireStale({ _id: invitationId, team_id: teamId });
+    const invitation = await getInvitation(teamId, invitationId);
+
+    if (invitation.status !== InvitationStatus.PENDING && invitation.status !== InvitationStatus.EXPIRED) {
+      throw new ConflictError(`Invitation ${invitationId} has been ${invitation.status}`);
+    }
+
+    const before = { status: invitation.status, expires_at: invitation.expires_at };
+
+    const sinceLastSend = Date.now() - invitation.last_sent_at.getTime();
+    if (sinceLastSend < RESEND_COOLDOWN_SECONDS * 1000) {
+      throw new ConflictError(`Invitation ${invitationId} was just sent; wait a minute before resending it`);
+    }
+
+    const token = newToken();
+    const now = new Date();
+
+    invitation.status = InvitationStatus.PENDING;
+    invitation.expires_at = expiresAt(now);
+
+    // Only switch to the new token once it has gone out
+    await deliver(invitation, token, await getTeamName(teamId), true);
+
+    invitation.token_hash = hashToken(token);
+    invitation.last_sent_at = now;
+    invitation.send_count += 1;
+    await invitation.save();
+
+    await recordAuditEvent({
+      action: AuditAction.INVITATION_RESENT,
+      targetType: 'invitation',
+      targetId: invitation.invitation_id,
+      teamId,
+      before,
+      after: {
+        status: invitation.status,
+        expires_at: invitation.expires_at,
+        send_count: invitation.send_count
+      }
+    }, audit);
+
+    return invitation;
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError('There is already a newer pending invitation for this address');
+    }
+    console.error('Error resending invitation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke a pending (or expired) invitation; its link stops working
+ *
+ * @throws ConflictError if it was already accepted or revoked
+ */
+export async function revokeInvitation(
+  teamId: string,
+  invitationId: string,
+  audit?: AuditContext
+): Promise<ITeamInvitation> {
+  try {
+    const invitation = await getInvitation(teamId, invitationId);
+
+    const revoked = await TeamInvitation.findOneAndUpdate(
+      {
+        _id: invitation._id,
+        status: { $in: [InvitationStatus.PENDING, InvitationStatus.EXPIRED] }
+      },
+      {
+        status: InvitationStatus.REVOKED,
+        revoked_by: audit?.actorId,
+        revoked_at: new Date()
+      },
+      { new: true }
+    );
+
+    if (!revoked) {
+      throw new ConflictError(`Invitation ${invitationId} has already been ${invitation.status}`);
+    }
+
+    await recordAuditEvent({
+      action: AuditAction.INVITATION_REVOKED,
+      targetType: 'invitation',
+      targetId: revoked.invitation_id,
+      teamId,
+      before: { email: revoked.email, role: revoked.role, status: invitation.status }
+    }, audit);
+
+    return revoked;
+
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// ACCEPTING INVITATIONS
+// ============================================
+
+/**
+ * Accept an invitation, making the user a member of the team
+ *
+ * The user must be signed in with the address the invitation was sent
+ * to. The invitation is claimed before the membership is created, so a
+ * token can't be used twice; if creating the membership fails, the
+ * claim is released again (see releaseClaim).
+ *
+ * @param token - The token from the invitation link
+ * @param userId - The user accepting it
+ * @param email - Their email from the token, if it carries one;
+ *                otherwise it is read from their profile
+ * @throws NotFoundError if the token is unknown
+ * @throws ForbiddenError if it was sent to a different address
+ * @throws ConflictError if it was already used, revoked or has expired
+ */
+export async function acceptInvitation(
+  token: string,
+  userId: string,
+  email: string | undefined,
+  audit?: AuditContext
+): Promise<AcceptedInvitation> {
+  try {
+    const tokenHash = hashToken(token);
+
+    await expireStale({ token_hash: tokenHash });
+    const invitation = await TeamInvitation.findOne({ token_hash: tokenHash });
+
+    if (!invitation) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new ConflictError(`This invitation has ${invitation.status === InvitationStatus.EXPIRED
+        ? 'expired'
+        : `already been ${invitation.status}`}`);
+    }
+
+    const userEmail = email ?? (await userService.getUserById(userId)).email;
+    if (!userEmail || userEmail.trim().toLowerCase() !== invitation.email) {
+      throw new ForbiddenError('This invitation was sent to a different email address');
+    }
+
+    const claimed = await TeamInvitation.findOneAndUpdate(
+      { _id: invitation._id, status: InvitationStatus.PENDING, expires_at: { $gt: new Date() } },
+      { status: InvitationStatus.ACCEPTED, accepted_by: userId, accepted_at: new Date() },
+      { new: true }
+    );
+
+    if (!claimed) {
+      throw new ConflictError('This invitation is no longer valid');
+    }
+
+    const teamId = claimed.team_id.toString();
+
+    try {
+      await addUserToTeam(userId, teamId, claimed.role, audit);
+    } catch (error) {
+      await releaseClaim(claimed);
+      throw error;
+    }
+
+    return { invitation: claimed, team_id: teamId, role: claimed.role };
+
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORT ALL FUNCTIONS
+// ============================================
+
+export default {
+  listInvitations,
+  getInvitation,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation
+};
@@ -0,0 +1,530 @@
+import mongoose from 'mongoose';
+import { RoleType } from '../models/Role.model';
+import { Team } from '../models/Team.model';
+import { TeamMembership } from '../models/TeamMembership.model';
+import { ConflictError, NotFoundError, isDuplicateKeyError } from '../utils/errors.utils';
+import { TtlCache } from '../utils/cache.utils';
+import { env } from '../config/env.config';
+import { databaseManager } from '../config/db.config';
+import { getRoleById, getRoleByName, getRoleNamesById, resolveRole } from './role.service';
+import { recordAuditEvent } from './audit.service';
+import { AuditAction } from '../models/AuditEvent.model';
+import { AuditContext } from '../utils/audit.utils';
+
+/**
+ * Member Service
+ *
+ * Owns the User_Team relationship: which users belong to which teams,
+ * and with what role. Backed by the team_memberships collection, which
+ * stores role ids; this service speaks role names (see role.service.ts).
+ *
+ * permission.service.ts and role.middleware.ts resolve every
+ * authorization decision through getUserRoleInTeam, so its answers
+ * (including "not a member") are cached per (team, user) and invalidated
+ * by every membership change below.
+ *
+ * Every membership change is also appended to the audit log; pass the
+ * caller's AuditContext so the event names who made it.
+ */
+
+// (team, user) → role name, or null for "not a member"
+const membershipCache = new TtlCache<string, string | null>({
+  name: 'memberships',
+  ttlMs: env.MEMBERSHIP_CACHE_TTL_MS,
+  maxSize: env.MEMBERSHIP_CACHE_MAX_ENTRIES
+});
+
+// Attempts at a membership transaction that keeps hitting write conflicts
+const MAX_MEMBERSHIP_TRANSACTION_ATTEMPTS = 3;
+
+function membershipCacheKey(userId: string, teamId: string): string {
+  return `${teamId}:${userId}`;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Team IDs come straight from URLs and request bodies. Anything that
+ * is not a valid ObjectId cannot match a team, so callers can treat
+ * it as "not a member" instead of hitting a CastError.
+ */
+function isValidTeamId(teamId: string): boolean {
+  return mongoose.Types.ObjectId.isValid(teamId);
+}
+
+/**
+ * Read a user's role straight from the database, bypassing the cache.
+ * Used where a stale answer would be unsafe.
+ */
+async function findMembershipRole(userId: string, teamId: string): Promise<string | null> {
+  const membership = await TeamMembership.findOne(
+    { team_id: teamId, user_id: userId },
+    { role_id: 1 }
+  ).lean();
+
+  if (!membership) {
+    return null;
+  }
+
+  const role = await getRoleById(membership.role_id.toString());
+  return role ? role.name : null;
+}
+
+/**
+ * A team must always keep at least one admin, otherwise nobody is left
+ * who can manage its members. Throws if the user is the only admin.
+ *
+ * On its own this is only a pre-check; see writeKeepingAnAdmin.
+ */
+async function assertNotLastAdmin(userId: string, teamId: string): Promise<void> {
+  const currentRole = await findMembershipRole(userId, teamId);
+
+  if (currentRole !== RoleType.ADMIN) {
+    return;
+  }
+
+  const adminRole = await getRoleByName(RoleType.ADMIN);
+  const adminCount = adminRole
+    ? await TeamMembership.countDocuments({ team_id: teamId, role_id: adminRole.id })
+    : 0;
+
+  if (adminCount <= 1) {
+    throw new ConflictError(`User ${userId} is the last admin of team ${teamId}`);
+  }
+}
+
+function isTransientTransactionError(error: any): boolean {
+  return !!error && typeof error.hasErrorLabel === 'function' && error.hasErrorLabel('TransientTransactionError');
+}
+
+/**
+ * Run a membership write that may take away a user's admin role, and
+ * refuse it if the team would be left without an admin
+ *
+ * The admin count is taken after the write, in the same transaction,
+ * and the transaction also bumps the team's membership_version. Two
+ * admins demoting or removing each other at once therefore conflict on
+ * the team document: one commits, the other is retried against the new
+ * state and refused.
+ *
+ * Transactions need a replica set. On a standalone server (local
+ * development) the check runs just before the write instead.
+ *
+ * @param write - The write, using the given session when there is one
+ */
+async function writeKeepingAnAdmin<T>(
+  userId: string,
+  teamId: string,
+  write: (session?: mongoose.ClientSession) => Promise<T>
+): Promise<T> {
+  if (!await databaseManager.supportsTransactions()) {
+    await assertNotLastAdmin(userId, teamId);
+    return write();
+  }
+
+  const adminRole = await getRoleByName(RoleType.ADMIN);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await databaseManager.withTransaction(async session => {
+        await Team.updateOne(
+          { _id: teamId },
+          { $inc: { membership_version: 1 } },
+          { session, timestamps: false }
+        );
+
+        const before = await TeamMembership.findOne(
+          { team_id: teamId, user_id: userId },
+          { role_id: 1 },
+          { session }
+        ).lean();
+
+        const result = await write(session);
+
+        if (adminRole && before && before.role_id.toString() === adminRole.id) {
+          const admins = await TeamMembership.countDocuments(
+            { team_id: teamId, role_id: adminRole.id },
+            { session }
+          );
+
+          if (admins === 0) {
+            throw new ConflictError(`User ${userId} is the last admin of team ${teamId}`);
+          }
+        }
+
+        return result;
+      });
+
+    } catch (error) {
+      if (!isTransientTransactionError(error)) {
+        throw error;
+      }
+      if (attempt >= MAX_MEMBERSHIP_TRANSACTION_ATTEMPTS) {
+        throw new ConflictError(`Team ${teamId} is being changed by another request; try again`);
+      }
+    }
+  }
+}
+
+// ============================================
+// MEMBERSHIP QUERIES
+// ============================================
+
+/**
+ * Get the role a user has on a specific team
+ *
+ * This is the MAIN function that permission.service.ts needs.
+ *
+ * @param userId - The ID of the user
+ * @param teamId - The ID of the team
+ * @returns The user's role on that team, or null if they're not a member
+ *
+ * @example
+ * const role = await getUserRoleInTeam('user-123', '652f1c...');
+ * // Returns: 'admin'
+ */
+export async function getUserRoleInTeam(
+  userId: string,
+  teamId: string
+): Promise<string | null> {
+  try {
+    if (!isValidTeamId(teamId)) {
+      return null;
+    }
+
+    return await membershipCache.getOrLoad(
+      membershipCacheKey(userId, teamId),
+      () => findMembershipRole(userId, teamId)
+    );
+
+  } catch (error) {
+    console.error('Error getting user role in team:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all teams a user belongs to with their roles
+ *
+ * Useful for: "Show me all teams this user is part of"
+ *
+ * @param userId - The ID of the user
+ * @returns Array of teams with the user's role on each
+ */
+export async function getUserTeamsWithRoles(userId: string): Promise<Array<{
+  teamId: string;
+  role: string;
+}>> {
+  try {
+    const memberships = await TeamMembership.find({ user_id: userId })
+      .sort({ created_at: 1 })
+      .lean();
+    const roleNames = await getRoleNamesById(memberships.map(m => m.role_id.toString()));
+
+    return memberships
+      .filter(membership => roleNames.has(membership.role_id.toString()))
+      .map(membership => ({
+        teamId: membership.team_id.toString(),
+        role: roleNames.get(membership.role_id.toString())!
+      }));
+
+  } catch (error) {
+    console.error('Error getting user teams:', error);
+    throw error;
+  }
+}
+
+/**
+ * Everyone who shares at least one team with a user (including the user,
+ * if they are on any team)
+ *
+ * @param userId - The ID of the user
+ * @returns The user_ids of their teammates
+ */
+export async function getTeammateIds(userId: string): Promise<Set<string>> {
+  try {
+    const teamIds = await TeamMembership.distinct('team_id', { user_id: userId });
+
+    if (teamIds.length === 0) {
+      return new Set();
+    }
+
+    const userIds = await TeamMembership.distinct('user_id', { team_id: { $in: teamIds } });
+    return new Set(userIds.map(String));
+
+  } catch (error) {
+    console.error('Error getting teammates:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check if a user is a member of a team (any role)
+ *
+ * @param userId - The ID of the user
+ * @param teamId - The ID of the team
+ * @returns true if user is a member of the team
+ */
+export async function isUserInTeam(
+  userId: string,
+  teamId: string
+): Promise<boolean> {
+  try {
+    if (!isValidTeamId(teamId)) {
+      return false;
+    }
+
+    const membership = await TeamMembership.exists({ team_id: teamId, user_id: userId });
+    return !!membership;
+
+  } catch (error) {
+    console.error('Error checking team membership:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all members of a team with their roles
+ *
+ * @param teamId - The ID of the team
+ * @returns Array of users and their roles on the team
+ */
+export async function getTeamMembers(teamId: string): Promise<Array<{
+  userId: string;
+  role: string;
+}>> {
+  try {
+    if (!isValidTeamId(teamId)) {
+      return [];
+    }
+
+    const memberships = await TeamMembership.find({ team_id: teamId })
+      .sort({ created_at: 1 })
+      .lean();
+    const roleNames = await getRoleNamesById(memberships.map(m => m.role_id.toString()));
+
+    return memberships
+      .filter(membership => roleNames.has(membership.role_id.toString()))
+      .map(membership => ({
+        userId: membership.user_id,
+        role: roleNames.get(membership.role_id.toString())!
+      }));
+
+  } catch (error) {
+    console.error('Error getting team members:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// MEMBERSHIP MANAGEMENT
+// ============================================
+
+/**
+ * Add a user to a team with a specific role
+ *
+ * @param userId - The ID of the user to add
+ * @param teamId - The ID of the team
+ * @param role - The name of the role to assign
+ * @param audit - Who is making the change
+ */
+export async function addUserToTeam(
+  userId: string,
+  teamId: string,
+  role: string,
+  audit?: AuditContext
+): Promise<void> {
+  try {
+    const teamExists = isValidTeamId(teamId) && await Team.exists({ _id: teamId });
+
+    if (!teamExists) {
+      throw new NotFoundError(`Team ${teamId} not found`);
+    }
+
+    const resolvedRole = await resolveRole(role);
+
+    await TeamMembership.create({
+      team_id: teamId,
+      user_id: userId,
+      role_id: resolvedRole.id
+    });
+
+    invalidateMembership(userId, teamId);
+
+    await recordAuditEvent({
+      action: AuditAction.MEMBER_ADDED,
+      targetType: 'user',
+      targetId: userId,
+      teamId,
+      after: { role: resolvedRole.name }
+    }, audit);
+
+  } catch (error) {
+    // The unique (team, user) index is the source of truth for duplicates,
+    // so concurrent adds cannot both succeed
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`User ${userId} is already a member of team ${teamId}`);
+    }
+
+    console.error('Error adding user to team:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a user from a team
+ *
+ * Refuses to remove the team's last admin.
+ *
+ * @param userId - The ID of the user to remove
+ * @param teamId - The ID of the team
+ * @param audit - Who is making the change
+ */
+export async function removeUserFromTeam(
+  userId: string,
+  teamId: string,
+  audit?: AuditContext
+): Promise<void> {
+  try {
+    if (!isValidTeamId(teamId)) {
+      throw new NotFoundError(`User ${userId} is not a member of team ${teamId}`);
+    }
+
+    const removed = await writeKeepingAnAdmin(userId, teamId, session =>
+      TeamMembership.findOneAndDelete({ team_id: teamId, user_id: userId }, { session })
+    );
+    invalidateMembership(userId, teamId);
+
+    if (!removed) {
+      throw new NotFoundError(`User ${userId} is not a member of team ${teamId}`);
+    }
+
+    const removedRole = await getRoleById(removed.role_id.toString());
+
+    await recordAuditEvent({
+      action: AuditAction.MEMBER_REMOVED,
+      targetType: 'user',
+      targetId: userId,
+      teamId,
+      before: { role: removedRole ? removedRole.name : removed.role_id.toString() }
+    }, audit);
+
+  } catch (error) {
+    console.error('Error removing user from team:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a user's role on a team
+ *
+ * Refuses to demote the team's last admin.
+ *
+ * @param userId - The ID of the user
+ * @param teamId - The ID of the team
+ * @param newRole - The name of the new role to assign
+ * @param audit - Who is making the change
+ * @returns The name of the role the user had before the update
+ */
+export async function updateUserRoleInTeam(
+  userId: string,
+  teamId: string,
+  newRole: string,
+  audit?: AuditContext
+): Promise<string> {
+  try {
+    if (!isValidTeamId(teamId)) {
+      throw new NotFoundError(`User ${userId} is not a member of team ${teamId}`);
+    }
+
+    const resolvedRole = await resolveRole(newRole);
+
+    // new: false returns the document as it was before the update
+    const update = (session?: mongoose.ClientSession) => TeamMembership.findOneAndUpdate(
+      { team_id: teamId, user_id: userId },
+      { role_id: resolvedRole.id },
+      { new: false, runValidators: true, session }
+    );
+
+    const previous = resolvedRole.name === RoleType.ADMIN
+      ? await update()
+      : await writeKeepingAnAdmin(userId, teamId, update);
+    invalidateMembership(userId, teamId);
+
+    if (!previous) {
+      throw new NotFoundError(`User ${userId} is not a member of team ${teamId}`);
+    }
+
+    const previousRole = await getRoleById(previous.role_id.toString());
+    const previousRoleName = previousRole ? previousRole.name : previous.role_id.toString();
+
+    await recordAuditEvent({
+      action: AuditAction.MEMBER_ROLE_CHANGED,
+      targetType: 'user',
+      targetId: userId,
+      teamId,
+      before: { role: previousRoleName },
+      after: { role: resolvedRole.name }
+    }, audit);
+
+    return previousRoleName;
+
+  } catch (error) {
+    console.error('Error updating user role in team:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// CACHE INVALIDATION
+// ============================================
+
+/**
+ * Whether a user's role on a team is currently cached, without counting
+ * as a cache hit or miss (for authorization decision explanations)
+ */
+export function isMembershipCached(userId: string, teamId: string): boolean {
+  return membershipCache.has(membershipCacheKey(userId, teamId));
+}
+
+/**
+ * Forget the cached role of one user on one team
+ */
+export function invalidateMembership(userId: string, teamId: string): void {
+  membershipCache.delete(membershipCacheKey(userId, teamId));
+}
+
+/**
+ * Forget every cached membership of a team (e.g. when the team is deleted)
+ */
+export function invalidateTeamMemberships(teamId: string): void {
+  membershipCache.deleteWhere(key => key.startsWith(`${teamId}:`));
+}
+
+/**
+ * Forget every cached membership
+ */
+export function invalidateAllMemberships(): void {
+  membershipCache.clear();
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export default {
+  getUserRoleInTeam,
+  getUserTeamsWithRoles,
+  getTeammateIds,
+  isUserInTeam,
+  getTeamMembers,
+  addUserToTeam,
+  removeUserFromTeam,
+  updateUserRoleInTeam,
+  isMembershipCached,
+  invalidateMembership,
+  invalidateTeamMemberships,
+  invalidateAllMemberships
+};
@@ -0,0 +1,572 @@
+import mongoose from 'mongoose';
+import { OnCallOverride, IOnCallOverride } from '../models/OnCallOverride.model';
+import { OnCallSwap, IOnCallSwap, SwapStatus } from '../models/OnCallSwap.model';
+import { IOnCallSchedule, OnCallSchedule } from '../models/OnCallSchedule.model';
+import { getSchedule, MAX_ONCALL_RANGE_DAYS } from './oncall.service';
+import { isUserInTeam } from './member.service';
+import { rangeDays } from '../utils/rotation.utils';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../utils/errors.utils';
+
+/**
+ * On-Call Override Service
+ *
+ * Overrides let someone temporarily take over part of a layer ("I'll
+ * cover Tuesday night for Sam"). They take precedence over every rotation
+ * layer when timelines are computed, and overrides of the same layer
+ * never overlap.
+ *
+ * Swaps are the member-to-member way to get an override: the requester
+ * asks a teammate to cover a window (optionally offering to cover one of
+ * theirs in return), and accepting the swap creates the override(s).
+ *
+ * Who may create overrides for whom is decided by the caller (see the
+ * on-call controller); this service only checks the data.
+ */
+
+export interface OverrideInput {
+  layer: string;
+  user_id: string;
+  replaces_user_id?: string;
+  start: Date | string;
+  end: Date | string;
+  reason?: string;
+}
+
+export interface SwapInput {
+  layer: string;
+  target_id: string;
+  start: Date | string;
+  end: Date | string;
+  return_start?: Date | string;
+  return_end?: Date | string;
+  message?: string;
+}
+
+// An override as passed to insertWithoutOverlap
+type NewOverride = Pick<IOnCallOverride,
+  'team_id' | 'schedule_id' | 'layer' | 'user_id' | 'replaces_user_id' | 'start' | 'end' | 'reason' | 'swap_id' | 'created_by'>;
+
+// Attempts at inserting overrides while other inserts keep winning the race
+const MAX_OVERRIDE_INSERT_ATTEMPTS = 3;
+
+export interface SwapAcceptance {
+  swap: IOnCallSwap;
+  overrides: IOnCallOverride[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Parse and check an override window: valid, ordered, not entirely in the
+ * past, and no longer than MAX_ONCALL_RANGE_DAYS
+ */
+function parseWindow(start: unknown, end: unknown, label: string): { start: Date; end: Date } {
+  const startDate = new Date(start as any);
+  const endDate = new Date(end as any);
+
+  if (start === undefined || end === undefined
+    || Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+    throw new BadRequestError(`${label} start and end must be ISO 8601 timestamps`);
+  }
+  if (!(startDate < endDate)) {
+    throw new BadRequestError(`${label} start must be before end`);
+  }
+  if (endDate <= new Date()) {
+    throw new BadRequestError(`${label} has already ended`);
+  }
+  if (rangeDays(startDate, endDate) > MAX_ONCALL_RANGE_DAYS) {
+    throw new BadRequestError(`${label} can span at most ${MAX_ONCALL_RANGE_DAYS} days`);
+  }
+
+  return { start: startDate, end: endDate };
+}
+
+function assertLayerExists(schedule: IOnCallSchedule, layer: unknown): void {
+  if (typeof layer !== 'string' || !schedule.layers.some(l => l.name === layer)) {
+    throw new BadRequestError(`Schedule '${schedule.name}' has no layer '${layer}'`);
+  }
+}
+
+async function assertTeamMember(teamId: string, userId: unknown): Promise<void> {
+  if (typeof userId !== 'string' || !await isUserInTeam(userId, teamId)) {
+    throw new BadRequestError(`User ${userId} is not a member of this team`);
+  }
+}
+
+/**
+ * Overrides of the same layer must not overlap
+ *
+ * @throws ConflictError naming the override in the way
+ */
+async function assertNoOverlap(
+  scheduleId: string,
+  layer: string,
+  start: Date,
+  end: Date
+): Promise<void> {
+  const existing = await OnCallOverride.findOne({
+    schedule_id: scheduleId,
+    layer,
+    start: { $lt: end },
+    end: { $gt: start }
+  });
+
+  if (existing) {
+    throw new ConflictError(
+      `Layer '${layer}' already has an override for ${existing.user_id} ` +
+      `from ${existing.start.toISOString()} to ${existing.end.toISOString()}`
+    );
+  }
+}
+
+/**
+ * Insert overrides of one layer, refusing any that would overlap
+ *
+ * The overlap check and the insert are separate operations, so inserts
+ * into a schedule are serialized through its overrides_version: an
+ * insert only stands if the version it was checked against is still
+ * current afterwards. When two race, the loser removes its overrides
+ * and checks again, this time seeing the winner's.
+ *
+ * @throws ConflictError if an override would overlap an existing one
+ */
+async function insertWithoutOverlap(
+  scheduleId: string,
+  layer: string,
+  docs: NewOverride[]
+): Promise<IOnCallOverride[]> {
+  for (let attempt = 1; ; attempt++) {
+    const schedule = await OnCallSchedule.findById(scheduleId).select('+overrides_version').lean();
+
+    if (!schedule) {
+      throw new NotFoundError(`Schedule ${scheduleId} not found`);
+    }
+
+    for (const doc of docs) {
+      await assertNoOverlap(scheduleId, layer, doc.start, doc.end);
+    }
+
+    const overrides = await OnCallOverride.insertMany(docs);
+
+    // Schedules created before the version existed don't have the field
+    const claimed = await OnCallSchedule.updateOne(
+      { _id: scheduleId, overrides_version: schedule.overrides_version ?? { $exists: false } },
+      { $inc: { overrides_version: 1 } },
+      { timestamps: false }
+    );
+
+    if (claimed.modifiedCount > 0) {
+      return overrides;
+    }
+
+    await OnCallOverride.deleteMany({ _id: { $in: overrides.map(override => override._id) } });
+
+    if (attempt >= MAX_OVERRIDE_INSERT_ATTEMPTS) {
+      throw new ConflictError(`Overrides of schedule ${scheduleId} are being changed by another request; try again`);
+    }
+  }
+}
+
+// ============================================
+// OVERRIDES
+// ============================================
+
+/**
+ * List a schedule's overrides that intersect [from, to)
+ */
+export async function listOverrides(
+  teamId: string,
+  scheduleId: string,
+  from: Date,
+  to: Date
+): Promise<IOnCallOverride[]> {
+  try {
+    if (!(from < to)) {
+      throw new BadRequestError('from must be before to');
+    }
+    if (rangeDays(from, to) > MAX_ONCALL_RANGE_DAYS) {
+      throw new BadRequestError(`The range can span at most ${MAX_ONCALL_RANGE_DAYS} days`);
+    }
+
+    await getSchedule(teamId, scheduleId);
+
+    return await OnCallOverride.find({
+      schedule_id: scheduleId,
+      start: { $lt: to },
+      end: { $gt: from }
+    }).sort({ start: 1 });
+
+  } catch (error) {
+    console.error('Error listing on-call overrides:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one of a schedule's overrides
+ *
+ * @throws NotFoundError if it doesn't exist on this schedule
+ */
+export async function getOverride(
+  teamId: string,
+  scheduleId: string,
+  overrideId: string
+): Promise<IOnCallOverride> {
+  const override = mongoose.Types.ObjectId.isValid(overrideId)
+    && mongoose.Types.ObjectId.isValid(scheduleId)
+    && mongoose.Types.ObjectId.isValid(teamId)
+    ? await OnCallOverride.findOne({ _id: overrideId, schedule_id: scheduleId, team_id: teamId })
+    : null;
+
+  if (!override) {
+    throw new NotFoundError(`Override ${overrideId} not found on schedule ${scheduleId}`);
+  }
+
+  return override;
+}
+
+/**
+ * Create an override
+ *
+ * @param teamId - The team
+ * @param scheduleId - The schedule
+ * @param input - Layer, who covers, and the window
+ * @param createdBy - The user creating it
+ * @throws BadRequestError if the layer, window or users are invalid
+ * @throws ConflictError if it overlaps another override of the layer
+ *
+ * @example
+ * // Alex covers Tuesday night for Sam
+ * await createOverride(teamId, scheduleId, {
+ *   layer: 'Weekly',
+ *   user_id: 'alex',
+ *   replaces_user_id: 'sam',
+ *   start: '2026-03-03T18:00:00Z',
+ *   end: '2026-03-04T08:00:00Z'
+ * }, 'alex');
+ */
+export async function createOverride(
+  teamId: string,
+  scheduleId: string,
+  input: OverrideInput,
+  createdBy: string
+): Promise<IOnCallOverride> {
+  try {
+    const schedule = await getSchedule(teamId, scheduleId);
+    assertLayerExists(schedule, input.layer);
+
+    const { start, end } = parseWindow(input.start, input.end, 'The override');
+    await assertTeamMember(teamId, input.user_id);
+
+    if (input.replaces_user_id !== undefined && input.replaces_user_id === input.user_id) {
+      throw new BadRequestError('user_id and replaces_user_id must differ');
+    }
+
+    const [override] = await insertWithoutOverlap(scheduleId, input.layer, [{
+      team_id: schedule.team_id,
+      schedule_id: schedule._id as mongoose.Types.ObjectId,
+      layer: input.layer,
+      user_id: input.user_id,
+      replaces_user_id: input.replaces_user_id,
+      start,
+      end,
+      reason: input.reason,
+      created_by: createdBy
+    }]);
+
+    return override;
+
+  } catch (error) {
+    console.error('Error creating on-call override:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an override
+ *
+ * @returns The deleted override, or null if it didn't exist
+ */
+export async function deleteOverride(
+  teamId: string,
+  scheduleId: string,
+  overrideId: string
+): Promise<IOnCallOverride | null> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(overrideId)
+      || !mongoose.Types.ObjectId.isValid(scheduleId)
+      || !mongoose.Types.ObjectId.isValid(teamId)) {
+      return null;
+    }
+
+    return await OnCallOverride.findOneAndDelete({
+      _id: overrideId,
+      schedule_id: scheduleId,
+      team_id: teamId
+    });
+
+  } catch (error) {
+    console.error('Error deleting on-call override:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// SWAPS
+// ============================================
+
+/**
+ * List a team's swap requests, newest first
+ *
+ * @param filters.status - Only requests in this state
+ * @param filters.userId - Only requests this user made or was asked
+ */
+export async function listSwaps(
+  teamId: string,
+  filters: { status?: SwapStatus; userId?: string } = {}
+): Promise<IOnCallSwap[]> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return [];
+    }
+
+    const query: Record<string, unknown> = { team_id: teamId };
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.userId) {
+      query.$or = [{ requester_id: filters.userId }, { target_id: filters.userId }];
+    }
+
+    return await OnCallSwap.find(query).sort({ created_at: -1 });
+
+  } catch (error) {
+    console.error('Error listing on-call swaps:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one of a team's swap requests
+ *
+ * @throws NotFoundError if it doesn't exist on this team
+ */
+export async function getSwap(teamId: string, swapId: string): Promise<IOnCallSwap> {
+  const swap = mongoose.Types.ObjectId.isValid(swapId) && mongoose.Types.ObjectId.isValid(teamId)
+    ? await OnCallSwap.findOne({ _id: swapId, team_id: teamId })
+    : null;
+
+  if (!swap) {
+    throw new NotFoundError(`Swap ${swapId} not found on team ${teamId}`);
+  }
+
+  return swap;
+}
+
+/**
+ * Ask a teammate to cover a window of a layer
+ *
+ * @param teamId - The team
+ * @param scheduleId - The schedule
+ * @param input - Layer, who is asked, the window, and optionally the
+ *                window the requester covers in return
+ * @param requesterId - The member asking
+ */
+export async function requestSwap(
+  teamId: string,
+  scheduleId: string,
+  input: SwapInput,
+  requesterId: string
+): Promise<IOnCallSwap> {
+  try {
+    const schedule = await getSchedule(teamId, scheduleId);
+    assertLayerExists(schedule, input.layer);
+
+    if (input.target_id === requesterId) {
+      throw new BadRequestError('You cannot swap with yourself');
+    }
+    await assertTeamMember(teamId, input.target_id);
+
+    const window = parseWindow(input.start, input.end, 'The swap');
+
+    let returnWindow: { start: Date; end: Date } | undefined;
+    if (input.return_start !== undefined || input.return_end !== undefined) {
+      returnWindow = parseWindow(input.return_start, input.return_end, 'The return window');
+
+      if (returnWindow.start < window.end && returnWindow.end > window.start) {
+        throw new BadRequestError('The return window must not overlap the swap window');
+      }
+    }
+
+    return await OnCallSwap.create({
+      team_id: teamId,
+      schedule_id: scheduleId,
+      layer: input.layer,
+      requester_id: requesterId,
+      target_id: input.target_id,
+      start: window.start,
+      end: window.end,
+      return_start: returnWindow?.start,
+      return_end: returnWindow?.end,
+      message: input.message
+    });
+
+  } catch (error) {
+    console.error('Error requesting on-call swap:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accept a swap request, creating its override(s)
+ *
+ * The target covers the requester's window; if a return window was
+ * offered, the requester covers that one for the target. Either both
+ * overrides are created or neither is.
+ *
+ * @param userId - Must be the member who was asked
+ * @throws ForbiddenError if userId isn't the target
+ * @throws ConflictError if the swap was already answered, or an override
+ *         would overlap an existing one
+ */
+export async function acceptSwap(teamId: string, swapId: string, userId: string): Promise<SwapAcceptance> {
+  try {
+    const swap = await getSwap(teamId, swapId);
+
+    if (swap.target_id !== userId) {
+      throw new ForbiddenError('Only the member asked to cover can accept this swap');
+    }
+    if (swap.status !== SwapStatus.PENDING) {
+      throw new ConflictError(`Swap is already ${swap.status}`);
+    }
+    if (swap.end <= new Date()) {
+      throw new BadRequestError('The swap window has already ended');
+    }
+
+    const schedule = await getSchedule(teamId, swap.schedule_id.toString());
+    assertLayerExists(schedule, swap.layer);
+    await assertTeamMember(teamId, swap.requester_id);
+
+    const windows = [
+      { user_id: swap.target_id, replaces_user_id: swap.requester_id, start: swap.start, end: swap.end }
+    ];
+    if (swap.return_start && swap.return_end) {
+      windows.push({
+        user_id: swap.requester_id,
+        replaces_user_id: swap.target_id,
+        start: swap.return_start,
+        end: swap.return_end
+      });
+    }
+
+    const overrides = await insertWithoutOverlap(schedule.schedule_id, swap.layer, windows.map(window => ({
+      ...window,
+      team_id: swap.team_id,
+      schedule_id: swap.schedule_id,
+      layer: swap.layer,
+      reason: swap.message,
+      swap_id: swap._id as mongoose.Types.ObjectId,
+      created_by: userId
+    })));
+
+    // Only one answer wins if the requester cancels at the same moment
+    const accepted = await OnCallSwap.findOneAndUpdate(
+      { _id: swap._id, status: SwapStatus.PENDING },
+      {
+        status: SwapStatus.ACCEPTED,
+        responded_at: new Date(),
+        override_ids: overrides.map(override => override._id)
+      },
+      { new: true }
+    );
+
+    if (!accepted) {
+      await OnCallOverride.deleteMany({ _id: { $in: overrides.map(override => override._id) } });
+      throw new ConflictError('Swap was answered by someone else in the meantime');
+    }
+
+    return { swap: accepted, overrides };
+
+  } catch (error) {
+    console.error('Error accepting on-call swap:', error);
+    throw error;
+  }
+}
+
+/**
+ * Decline (target) or cancel (requester) a pending swap request
+ */
+async function closeSwap(
+  teamId: string,
+  swapId: string,
+  userId: string,
+  status: SwapStatus.DECLINED | SwapStatus.CANCELLED
+): Promise<IOnCallSwap> {
+  const swap = await getSwap(teamId, swapId);
+
+  const allowed = status === SwapStatus.DECLINED ? swap.target_id : swap.requester_id;
+  if (allowed !== userId) {
+    throw new ForbiddenError(status === SwapStatus.DECLINED
+      ? 'Only the member asked to cover can decline this swap'
+      : 'Only the member who asked can cancel this swap');
+  }
+
+  const closed = await OnCallSwap.findOneAndUpdate(
+    { _id: swap._id, status: SwapStatus.PENDING },
+    { status, responded_at: new Date() },
+    { new: true }
+  );
+
+  if (!closed) {
+    throw new ConflictError(`Swap is already ${(await getSwap(teamId, swapId)).status}`);
+  }
+
+  return closed;
+}
+
+/**
+ * Decline a swap request
+ *
+ * @param userId - Must be the member who was asked
+ */
+export async function declineSwap(teamId: string, swapId: string, userId: string): Promise<IOnCallSwap> {
+  try {
+    return await closeSwap(teamId, swapId, userId, SwapStatus.DECLINED);
+  } catch (error) {
+    console.error('Error declining on-call swap:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a swap request
+ *
+ * @param userId - Must be the member who asked
+ */
+export async function cancelSwap(teamId: string, swapId: string, userId: string): Promise<IOnCallSwap> {
+  try {
+    return await closeSwap(teamId, swapId, userId, SwapStatus.CANCELLED);
+  } catch (error) {
+    console.error('Error cancelling on-call swap:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORT ALL FUNCTIONS
+// ============================================
+
+export default {
+  listOverrides,
+  getOverride,
+  createOverride,
+  deleteOverride,
+  listSwaps,
+  getSwap,
+  requestSwap,
+  acceptSwap,
+  declineSwap,
+  cancelSwap
+};
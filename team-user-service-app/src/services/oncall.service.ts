@@ -0,0 +1,425 @@
+import mongoose from 'mongoose';
+import { OnCallSchedule, IOnCallSchedule, IOnCallLayer } from '../models/OnCallSchedule.model';
+import { OnCallOverride, IOnCallOverride } from '../models/OnCallOverride.model';
+import { OnCallSwap } from '../models/OnCallSwap.model';
+import { EscalationPolicy, EscalationTargetType } from '../models/EscalationPolicy.model';
+import { Team } from '../models/Team.model';
+import { getTeamMembers } from './member.service';
+import {
+  RotationLayer,
+  Shift,
+  computeLayerShifts,
+  flattenShifts,
+  rangeDays,
+  validateRotationLayers
+} from '../utils/rotation.utils';
+import { DAY_MS } from '../utils/timezone.utils';
+import { BadRequestError, ConflictError, NotFoundError, isDuplicateKeyError } from '../utils/errors.utils';
+
+/**
+ * On-Call Service
+ *
+ * Owns team on-call schedules and answers "who is on call?", now or over
+ * a range, for people and for incident tooling deciding who to page.
+ *
+ * Participants must be team members when a schedule is saved. Someone
+ * who leaves the team later keeps their place in the rotation, but their
+ * shifts are left uncovered (unless a lower layer or an override covers
+ * them), so a departed member is never paged and everyone else's shifts
+ * stay where they were.
+ *
+ * Overrides (see oncall.override.service.ts) are applied on top of the
+ * rotation when timelines are computed.
+ */
+
+// Longest range GET /oncall will compute in one request
+export const MAX_ONCALL_RANGE_DAYS = 90;
+export const DEFAULT_ONCALL_RANGE_DAYS = 7;
+
+// How far either side of "now" to look when reporting the current shift's bounds
+const CURRENT_SHIFT_WINDOW_DAYS = 14;
+
+export interface ScheduleInput {
+  name: string;
+  description?: string | null;      // null clears it on update
+  time_zone: string;
+  layers: IOnCallLayer[];
+}
+
+export interface OnCallNow {
+  schedule_id: string;
+  schedule_name: string;
+  time_zone: string;
+  user_id: string | null;       // null when no layer covers this moment
+  layer: string | null;
+  shift_start: Date | null;     // Bounds are clipped to CURRENT_SHIFT_WINDOW_DAYS
+  shift_end: Date | null;
+  override_id: string | null;   // Set when an override is in effect
+}
+
+export interface ScheduleTimeline {
+  schedule_id: string;
+  schedule_name: string;
+  time_zone: string;
+  shifts: Shift[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toRotationLayers(schedule: IOnCallSchedule): RotationLayer[] {
+  return schedule.layers.map(layer => ({
+    name: layer.name,
+    participants: layer.participants,
+    rotation_type: layer.rotation_type,
+    handoff_time: layer.handoff_time,
+    handoff_day: layer.handoff_day,
+    starts_at: layer.starts_at,
+    active_hours: layer.active_hours
+  }));
+}
+
+/**
+ * A schedule's timeline over [from, to): rotation layers in order, then
+ * overrides above all of them (in the same layer order)
+ *
+ * Rotations are computed with every stored participant and shifts of
+ * non-members are dropped afterwards, so one person leaving doesn't
+ * move anyone else's shifts.
+ */
+function scheduleShifts(
+  schedule: IOnCallSchedule,
+  memberIds: Set<string>,
+  overrides: IOnCallOverride[],
+  from: Date,
+  to: Date
+): Shift[] {
+  const layers = toRotationLayers(schedule);
+  const rotation = layers.map(layer => computeLayerShifts(layer, schedule.time_zone, from, to)
+    .filter(shift => memberIds.has(shift.user_id)));
+
+  const overrideTiers = layers.map(layer => overrides
+    .filter(override => override.schedule_id.toString() === schedule.schedule_id
+      && override.layer === layer.name
+      && memberIds.has(override.user_id))
+    .map(override => ({
+      user_id: override.user_id,
+      layer: layer.name,
+      start: override.start,
+      end: override.end,
+      override_id: override.override_id
+    })));
+
+  return flattenShifts([...rotation, ...overrideTiers], from, to);
+}
+
+/**
+ * Validate a schedule's time zone and layers, and that every participant
+ * belongs to the team
+ */
+async function assertValidSchedule(teamId: string, input: ScheduleInput): Promise<void> {
+  if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+    throw new BadRequestError('name is required');
+  }
+
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    throw new BadRequestError('description must be a string');
+  }
+
+  const invalid = validateRotationLayers(input.time_zone, input.layers);
+  if (invalid) {
+    throw new BadRequestError(invalid);
+  }
+
+  const members = new Set((await getTeamMembers(teamId)).map(member => member.userId));
+  const outsiders = [...new Set(input.layers.flatMap(layer => layer.participants))]
+    .filter(userId => !members.has(userId));
+
+  if (outsiders.length > 0) {
+    throw new BadRequestError(`Participants must be team members; not members: ${outsiders.join(', ')}`);
+  }
+}
+
+async function assertTeamExists(teamId: string): Promise<void> {
+  const exists = mongoose.Types.ObjectId.isValid(teamId) && await Team.exists({ _id: teamId });
+  if (!exists) {
+    throw new NotFoundError(`Team ${teamId} not found`);
+  }
+}
+
+// ============================================
+// SCHEDULE MANAGEMENT
+// ============================================
+
+/**
+ * List a team's schedules
+ */
+export async function listSchedules(teamId: string): Promise<IOnCallSchedule[]> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return [];
+    }
+    return await OnCallSchedule.find({ team_id: teamId }).sort({ name: 1 });
+  } catch (error) {
+    console.error('Error listing on-call schedules:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one of a team's schedules
+ *
+ * @throws NotFoundError if the schedule doesn't exist on this team
+ */
+export async function getSchedule(teamId: string, scheduleId: string): Promise<IOnCallSchedule> {
+  const schedule = mongoose.Types.ObjectId.isValid(scheduleId) && mongoose.Types.ObjectId.isValid(teamId)
+    ? await OnCallSchedule.findOne({ _id: scheduleId, team_id: teamId })
+    : null;
+
+  if (!schedule) {
+    throw new NotFoundError(`Schedule ${scheduleId} not found on team ${teamId}`);
+  }
+
+  return schedule;
+}
+
+/**
+ * Create a schedule
+ *
+ * @param teamId - The team the schedule belongs to
+ * @param input - Name, time zone and layers
+ * @param createdBy - The user creating it
+ *
+ * @example
+ * await createSchedule(teamId, {
+ *   name: 'Primary',
+ *   time_zone: 'Europe/Berlin',
+ *   layers: [{
+ *     name: 'Weekly',
+ *     participants: ['user-1', 'user-2'],
+ *     rotation_type: 'weekly',
+ *     handoff_time: '10:00',
+ *     handoff_day: 1,
+ *     starts_at: new Date('2026-01-05T09:00:00Z')
+ *   }]
+ * }, 'user-1');
+ */
+export async function createSchedule(
+  teamId: string,
+  input: ScheduleInput,
+  createdBy: string
+): Promise<IOnCallSchedule> {
+  try {
+    await assertTeamExists(teamId);
+    await assertValidSchedule(teamId, input);
+
+    return await OnCallSchedule.create({
+      team_id: teamId,
+      name: input.name,
+      description: input.description,
+      time_zone: input.time_zone,
+      layers: input.layers,
+      created_by: createdBy
+    });
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`Schedule '${input.name}' already exists on this team`);
+    }
+    console.error('Error creating on-call schedule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a schedule
+ *
+ * Fields that are given replace the stored ones (layers as a whole),
+ * so a description of null or '' clears it; the result is validated
+ * like a new schedule.
+ */
+export async function updateSchedule(
+  teamId: string,
+  scheduleId: string,
+  updates: Partial<ScheduleInput>
+): Promise<IOnCallSchedule> {
+  try {
+    const schedule = await getSchedule(teamId, scheduleId);
+
+    const merged: ScheduleInput = {
+      name: updates.name ?? schedule.name,
+      description: updates.description !== undefined ? updates.description : schedule.description,
+      time_zone: updates.time_zone ?? schedule.time_zone,
+      layers: updates.layers ?? schedule.layers
+    };
+
+    await assertValidSchedule(teamId, merged);
+
+    schedule.set(merged);
+    await schedule.save();
+
+    return schedule;
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`Schedule '${updates.name}' already exists on this team`);
+    }
+    console.error('Error updating on-call schedule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a schedule, with its overrides and swap requests
+ *
+ * @returns true if it existed
+ * @throws ConflictError if an escalation policy still pages it
+ */
+export async function deleteSchedule(teamId: string, scheduleId: string): Promise<boolean> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(scheduleId) || !mongoose.Types.ObjectId.isValid(teamId)) {
+      return false;
+    }
+
+    const policies = await EscalationPolicy.find({
+      team_id: teamId,
+      'levels.targets': { $elemMatch: { type: EscalationTargetType.SCHEDULE, id: scheduleId } }
+    }).select('name').lean();
+
+    if (policies.length > 0) {
+      throw new ConflictError(
+        `Schedule is used by escalation policies: ${policies.map(policy => policy.name).join(', ')}`
+      );
+    }
+
+    const result = await OnCallSchedule.deleteOne({ _id: scheduleId, team_id: teamId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await OnCallOverride.deleteMany({ schedule_id: scheduleId });
+    await OnCallSwap.deleteMany({ schedule_id: scheduleId });
+
+    return true;
+
+  } catch (error) {
+    console.error('Error deleting on-call schedule:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// WHO IS ON CALL
+// ============================================
+
+async function loadSchedules(teamId: string, scheduleId?: string): Promise<IOnCallSchedule[]> {
+  if (scheduleId) {
+    return [await getSchedule(teamId, scheduleId)];
+  }
+  return listSchedules(teamId);
+}
+
+/**
+ * Compute each schedule's on-call timeline over [from, to)
+ *
+ * @param teamId - The team
+ * @param from - Range start
+ * @param to - Range end (at most MAX_ONCALL_RANGE_DAYS after from)
+ * @param scheduleId - Only this schedule (default: all of the team's)
+ */
+export async function getOnCallTimeline(
+  teamId: string,
+  from: Date,
+  to: Date,
+  scheduleId?: string
+): Promise<ScheduleTimeline[]> {
+  try {
+    if (!(from < to)) {
+      throw new BadRequestError('from must be before to');
+    }
+    if (rangeDays(from, to) > MAX_ONCALL_RANGE_DAYS) {
+      throw new BadRequestError(`The range can span at most ${MAX_ONCALL_RANGE_DAYS} days`);
+    }
+
+    const [schedules, members] = await Promise.all([
+      loadSchedules(teamId, scheduleId),
+      getTeamMembers(teamId)
+    ]);
+    const memberIds = new Set(members.map(member => member.userId));
+
+    const overrides = schedules.length > 0
+      ? await OnCallOverride.find({
+          schedule_id: { $in: schedules.map(schedule => schedule._id) },
+          start: { $lt: to },
+          end: { $gt: from }
+        })
+      : [];
+
+    return schedules.map(schedule => ({
+      schedule_id: schedule.schedule_id,
+      schedule_name: schedule.name,
+      time_zone: schedule.time_zone,
+      shifts: scheduleShifts(schedule, memberIds, overrides, from, to)
+    }));
+
+  } catch (error) {
+    console.error('Error computing on-call timeline:', error);
+    throw error;
+  }
+}
+
+/**
+ * Who is on call at one moment, per schedule
+ *
+ * @param teamId - The team
+ * @param at - The moment (default: now)
+ * @param scheduleId - Only this schedule (default: all of the team's)
+ * @returns One entry per schedule, with the bounds of the current shift
+ *
+ * @example
+ * const [primary] = await getOnCallNow(teamId);
+ * // { schedule_name: 'Primary', user_id: 'user-2', layer: 'Weekly', shift_end: ... }
+ */
+export async function getOnCallNow(
+  teamId: string,
+  at: Date = new Date(),
+  scheduleId?: string
+): Promise<OnCallNow[]> {
+  const windowMs = CURRENT_SHIFT_WINDOW_DAYS * DAY_MS;
+  const timelines = await getOnCallTimeline(
+    teamId,
+    new Date(at.getTime() - windowMs),
+    new Date(at.getTime() + windowMs),
+    scheduleId
+  );
+
+  return timelines.map(timeline => {
+    const current = timeline.shifts.find(shift => shift.start <= at && at < shift.end);
+
+    return {
+      schedule_id: timeline.schedule_id,
+      schedule_name: timeline.schedule_name,
+      time_zone: timeline.time_zone,
+      user_id: current?.user_id ?? null,
+      layer: current?.layer ?? null,
+      shift_start: current?.start ?? null,
+      shift_end: current?.end ?? null,
+      override_id: current?.override_id ?? null
+    };
+  });
+}
+
+// ============================================
+// EXPORT ALL FUNCTIONS
+// ============================================
+
+export default {
+  listSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  getOnCallTimeline,
+  getOnCallNow
+};
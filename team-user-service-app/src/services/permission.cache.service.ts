@@ -0,0 +1,496 @@
+import mongoose from 'mongoose';
+import { Permission } from '../models/Permission.model';
+import { RolePermission } from '../models/RolePermission.model';
+import { TeamPermissionOverride, OverrideEffect } from '../models/TeamPermissionOverride.model';
+import { TtlCache } from '../utils/cache.utils';
+import { env } from '../config/env.config';
+import { getRoleByName } from './role.service';
+import {
+  PermissionTarget,
+  parsePermissionName,
+  isWildcardPermission,
+  permissionCovers
+} from '../utils/permission.utils';
+import {
+  PermissionCondition,
+  AttributeContext,
+  ConditionFailure,
+  evaluateConditions
+} from '../utils/condition.utils';
+
+/**
+ * Permission Cache
+ *
+ * Caches the permissions granted to each role (with any conditions on
+ * those grants), so a guarded request costs a Map lookup instead of
+ * Permission.findOne + RolePermission.findOne.
+ *
+ * permission.service.ts invalidates this cache whenever a role-permission
+ * mapping or a permission changes. Membership (user, team) → role is
+ * cached separately in member.service.ts.
+ *
+ * Entries are keyed by role id, so a deleted role's permissions can never
+ * leak into a new role that reuses its name.
+ *
+ * Team-scoped overrides are cached per team and applied on top of the
+ * role's global set by getEffectivePermissions.
+ *
+ * Granted names may be patterns (`team:*`, `*:read`) and grants may carry
+ * conditions over request attributes, so checks go through
+ * evaluatePermission rather than Map.has. The permission catalogue is
+ * cached too, to know the resource/action of legacy names.
+ *
+ * explainPermission evaluates the same way but also reports where the
+ * deciding grant or deny came from and whether the lookups were cached.
+ */
+
+// Granted permission name (or pattern) → its conditions; [] = unconditional
+export type PermissionGrants = Map<string, PermissionCondition[]>;
+
+export interface EffectivePermissions {
+  grants: PermissionGrants;
+  denies: Set<string>;   // Team denies are unconditional
+}
+
+export type PermissionEvaluationReason =
+  | 'granted'
+  | 'not_granted'
+  | 'denied_by_team'
+  | 'condition_failed';
+
+export interface PermissionEvaluation {
+  allowed: boolean;
+  reason: PermissionEvaluationReason;
+  failedConditions: ConditionFailure[];
+  matchedGrant?: string;   // The grant (name or pattern) that allowed it
+  matchedDeny?: string;    // The team deny (name or pattern) that blocked it
+}
+
+export type CacheOutcome = 'hit' | 'miss';
+
+export interface PermissionExplanation extends PermissionEvaluation {
+  roleId: string | null;
+  grantSource: 'role' | 'team_override' | null;
+  grantConditions: PermissionCondition[];
+  // Team overrides for this role that cover the requested permission
+  overridesApplied: Array<{ permission: string; effect: OverrideEffect }>;
+  cache: {
+    rolePermissions: CacheOutcome;
+    teamOverrides: CacheOutcome;
+  };
+}
+
+// Overrides for one role within one team
+interface RoleOverrides {
+  grants: Set<string>;
+  denies: Set<string>;
+}
+
+const rolePermissionCache = new TtlCache<string, PermissionGrants>({
+  name: 'role_permissions',
+  ttlMs: env.PERMISSION_CACHE_TTL_MS,
+  maxSize: 100
+});
+
+const CATALOGUE_KEY = 'all';
+
+// permission name → resource/action, for every permission
+const permissionCatalogueCache = new TtlCache<string, Map<string, PermissionTarget>>({
+  name: 'permission_catalogue',
+  ttlMs: env.PERMISSION_CACHE_TTL_MS,
+  maxSize: 1
+});
+
+// team id → role id → overrides
+const teamOverrideCache = new TtlCache<string, Map<string, RoleOverrides>>({
+  name: 'team_permission_overrides',
+  ttlMs: env.PERMISSION_CACHE_TTL_MS,
+  maxSize: 1000
+});
+
+// ============================================
+// CACHED LOOKUPS
+// ============================================
+
+/**
+ * Get all permissions granted to a role, with their conditions (cached)
+ *
+ * @param roleName - The role's name
+ * @returns Map of permission name → conditions (empty for unknown roles)
+ */
+export async function getRoleGrants(roleName: string): Promise<PermissionGrants> {
+  const role = await getRoleByName(roleName);
+
+  if (!role) {
+    return new Map();
+  }
+
+  return rolePermissionCache.getOrLoad(role.id, async () => {
+    const rolePermissions = await RolePermission.getPermissionsForRole(role.id);
+
+    return new Map(
+      rolePermissions
+        .filter((rp: any) => rp.permission_id) // Skip mappings to deleted permissions
+        .map((rp: any) => [
+          rp.permission_id.permission_name as string,
+          (rp.conditions || []) as PermissionCondition[]
+        ])
+    );
+  });
+}
+
+/**
+ * Get a team's permission overrides, grouped by role id (cached)
+ *
+ * @param teamId - The team
+ * @returns Map of role id → granted/denied permission names
+ */
+async function getTeamOverrides(teamId: string): Promise<Map<string, RoleOverrides>> {
+  if (!mongoose.Types.ObjectId.isValid(teamId)) {
+    return new Map();
+  }
+
+  return teamOverrideCache.getOrLoad(teamId, async () => {
+    const overrides = await TeamPermissionOverride.find({ team_id: teamId })
+      .populate('permission_id', 'permission_name')
+      .lean();
+
+    const byRole = new Map<string, RoleOverrides>();
+
+    for (const override of overrides as any[]) {
+      if (!override.permission_id) {
+        continue; // Permission was deleted
+      }
+
+      const roleId = override.role_id.toString();
+      if (!byRole.has(roleId)) {
+        byRole.set(roleId, { grants: new Set(), denies: new Set() });
+      }
+
+      const entry = byRole.get(roleId)!;
+      const target = override.effect === OverrideEffect.DENY ? entry.denies : entry.grants;
+      target.add(override.permission_id.permission_name);
+    }
+
+    return byRole;
+  });
+}
+
+/**
+ * Get the grants and denies a role has within one team (cached)
+ *
+ * Grants are the role's global permissions plus the team's grants for
+ * that role; denies are the team's denies. Both may contain patterns
+ * such as `team:*`. Use evaluatePermission / expandPermissions to
+ * evaluate them. A team grant is unconditional, even where the global
+ * grant of the same permission has conditions.
+ *
+ * @param roleName - The role's name
+ * @param teamId - The team
+ */
+export async function getEffectivePermissions(roleName: string, teamId: string): Promise<EffectivePermissions> {
+  const role = await getRoleByName(roleName);
+
+  if (!role) {
+    return { grants: new Map(), denies: new Set() };
+  }
+
+  const [globalGrants, teamOverrides] = await Promise.all([
+    getRoleGrants(roleName),
+    getTeamOverrides(teamId)
+  ]);
+
+  return applyOverrides(globalGrants, teamOverrides.get(role.id));
+}
+
+function applyOverrides(globalGrants: PermissionGrants, overrides?: RoleOverrides): EffectivePermissions {
+  if (!overrides) {
+    return { grants: globalGrants, denies: new Set() };
+  }
+
+  const grants: PermissionGrants = new Map(globalGrants);
+  overrides.grants.forEach(permission => grants.set(permission, []));
+
+  return { grants, denies: overrides.denies };
+}
+
+/**
+ * All permissions in the catalogue by name (cached)
+ */
+async function getPermissionCatalogue(): Promise<Map<string, PermissionTarget>> {
+  return permissionCatalogueCache.getOrLoad(CATALOGUE_KEY, async () => {
+    const permissions = await Permission.find({}, { permission_name: 1, resource: 1, action: 1 }).lean();
+
+    return new Map(permissions.map(p => [
+      p.permission_name,
+      { name: p.permission_name, resource: p.resource, action: p.action }
+    ]));
+  });
+}
+
+/**
+ * Work out what resource/action a requested permission name refers to
+ *
+ * Catalogue entries win (that's how legacy names like `edit_team` get a
+ * resource and action); otherwise the name is parsed as `resource:action`.
+ *
+ * @returns The target, or null for a name that can only match exactly
+ */
+async function resolvePermissionTarget(permissionName: string): Promise<PermissionTarget | null> {
+  const catalogue = await getPermissionCatalogue();
+  const known = catalogue.get(permissionName);
+
+  if (known) {
+    return known;
+  }
+
+  const parsed = parsePermissionName(permissionName);
+  return parsed ? { name: permissionName, ...parsed } : null;
+}
+
+function evaluate(
+  effective: EffectivePermissions,
+  permissionName: string,
+  target: PermissionTarget | null,
+  context: AttributeContext
+): PermissionEvaluation {
+  const covers = (granted: string) =>
+    target ? permissionCovers(granted, target) : granted === permissionName;
+
+  // A matching deny (exact or pattern) always wins
+  const matchedDeny = [...effective.denies].find(covers);
+
+  if (matchedDeny) {
+    return { allowed: false, reason: 'denied_by_team', failedConditions: [], matchedDeny };
+  }
+
+  const matching = [...effective.grants].filter(([granted]) => covers(granted));
+
+  if (matching.length === 0) {
+    return { allowed: false, reason: 'not_granted', failedConditions: [] };
+  }
+
+  // Any one matching grant whose conditions all hold is enough
+  const failedConditions: ConditionFailure[] = [];
+
+  for (const [granted, conditions] of matching) {
+    const failures = evaluateConditions(conditions, context);
+
+    if (failures.length === 0) {
+      return { allowed: true, reason: 'granted', failedConditions: [], matchedGrant: granted };
+    }
+    failedConditions.push(...failures);
+  }
+
+  return { allowed: false, reason: 'condition_failed', failedConditions };
+}
+
+/**
+ * Evaluate one permission against a set of grants and denies
+ *
+ * @param effective - From getEffectivePermissions
+ * @param permissionName - The permission being requested
+ * @param context - Request attributes for conditional grants; without
+ *                  them, conditions on missing attributes fail
+ * @returns Whether it is allowed, and if not, why (including which
+ *          conditions failed)
+ */
+export async function evaluatePermission(
+  effective: EffectivePermissions,
+  permissionName: string,
+  context: AttributeContext = {}
+): Promise<PermissionEvaluation> {
+  const target = await resolvePermissionTarget(permissionName);
+  return evaluate(effective, permissionName, target, context);
+}
+
+/**
+ * Evaluate one permission for a role on a team, and report how the
+ * answer was reached
+ *
+ * Same result as getEffectivePermissions + evaluatePermission, plus the
+ * origin of the deciding grant, the team overrides that touched the
+ * permission and whether each lookup was served from cache. Cache state
+ * is read before loading, without affecting hit/miss counters.
+ *
+ * @param roleName - The role's name
+ * @param teamId - The team
+ * @param permissionName - The permission being requested
+ * @param context - Request attributes for conditional grants
+ */
+export async function explainPermission(
+  roleName: string,
+  teamId: string,
+  permissionName: string,
+  context: AttributeContext = {}
+): Promise<PermissionExplanation> {
+  const role = await getRoleByName(roleName);
+
+  const cache = {
+    rolePermissions: (role && rolePermissionCache.has(role.id) ? 'hit' : 'miss') as CacheOutcome,
+    teamOverrides: (teamOverrideCache.has(teamId) ? 'hit' : 'miss') as CacheOutcome
+  };
+
+  if (!role) {
+    return {
+      allowed: false,
+      reason: 'not_granted',
+      failedConditions: [],
+      roleId: null,
+      grantSource: null,
+      grantConditions: [],
+      overridesApplied: [],
+      cache
+    };
+  }
+
+  const [globalGrants, teamOverrides, target] = await Promise.all([
+    getRoleGrants(roleName),
+    getTeamOverrides(teamId),
+    resolvePermissionTarget(permissionName)
+  ]);
+
+  const overrides = teamOverrides.get(role.id);
+  const effective = applyOverrides(globalGrants, overrides);
+  const evaluation = evaluate(effective, permissionName, target, context);
+
+  const covers = (name: string) =>
+    target ? permissionCovers(name, target) : name === permissionName;
+
+  const overridesApplied = overrides
+    ? [
+      ...[...overrides.grants].filter(covers).map(permission => ({ permission, effect: OverrideEffect.GRANT })),
+      ...[...overrides.denies].filter(covers).map(permission => ({ permission, effect: OverrideEffect.DENY }))
+    ]
+    : [];
+
+  const matchedGrant = evaluation.matchedGrant;
+
+  return {
+    ...evaluation,
+    roleId: role.id,
+    grantSource: !matchedGrant ? null : overrides?.grants.has(matchedGrant) ? 'team_override' : 'role',
+    grantConditions: matchedGrant ? effective.grants.get(matchedGrant) ?? [] : [],
+    overridesApplied,
+    cache
+  };
+}
+
+/**
+ * Boolean form of evaluatePermission
+ */
+export async function permissionAllowed(
+  effective: EffectivePermissions,
+  permissionName: string,
+  context: AttributeContext = {}
+): Promise<boolean> {
+  const evaluation = await evaluatePermission(effective, permissionName, context);
+  return evaluation.allowed;
+}
+
+/**
+ * Expand grants and denies into the concrete catalogue permissions they allow
+ *
+ * Pattern permissions themselves (e.g. `team:*`) are left out; callers
+ * get the names they would actually check. Conditional grants are only
+ * included when their conditions hold for the given context.
+ *
+ * @param effective - From getEffectivePermissions
+ * @param context - Request attributes for conditional grants
+ * @returns Names of the allowed, non-wildcard permissions
+ */
+export async function expandPermissions(
+  effective: EffectivePermissions,
+  context: AttributeContext = {}
+): Promise<string[]> {
+  const catalogue = await getPermissionCatalogue();
+
+  return [...catalogue.values()]
+    .filter(target => !isWildcardPermission(target.name))
+    .filter(target => evaluate(effective, target.name, target, context).allowed)
+    .map(target => target.name);
+}
+
+/**
+ * Cached equivalent of RolePermission.hasPermission, wildcards included
+ *
+ * @param roleName - The role's name
+ * @param permissionName - The permission to check
+ * @param context - Request attributes for conditional grants
+ * @returns true if the role has the permission
+ */
+export async function roleHasPermission(
+  roleName: string,
+  permissionName: string,
+  context: AttributeContext = {}
+): Promise<boolean> {
+  const grants = await getRoleGrants(roleName);
+  return permissionAllowed({ grants, denies: new Set() }, permissionName, context);
+}
+
+/**
+ * Check a role's permission within one team, team overrides included
+ *
+ * @param roleName - The role's name
+ * @param teamId - The team
+ * @param permissionName - The permission to check
+ * @param context - Request attributes for conditional grants
+ * @returns true if the role has the permission on that team
+ */
+export async function roleHasEffectivePermission(
+  roleName: string,
+  teamId: string,
+  permissionName: string,
+  context: AttributeContext = {}
+): Promise<boolean> {
+  const effective = await getEffectivePermissions(roleName, teamId);
+  return permissionAllowed(effective, permissionName, context);
+}
+
+// ============================================
+// INVALIDATION
+// ============================================
+
+/**
+ * Drop cached permissions for one role, or for every role if none is given
+ */
+export function invalidateRolePermissions(roleId?: string): void {
+  if (roleId) {
+    rolePermissionCache.delete(roleId);
+  } else {
+    rolePermissionCache.clear();
+  }
+}
+
+/**
+ * Drop the cached permission catalogue (after permissions are created,
+ * updated or deleted)
+ */
+export function invalidatePermissionCatalogue(): void {
+  permissionCatalogueCache.clear();
+}
+
+/**
+ * Drop cached overrides for one team, or for every team if none is given
+ */
+export function invalidateTeamPermissionOverrides(teamId?: string): void {
+  if (teamId) {
+    teamOverrideCache.delete(teamId);
+  } else {
+    teamOverrideCache.clear();
+  }
+}
+
+export default {
+  getRoleGrants,
+  roleHasPermission,
+  getEffectivePermissions,
+  evaluatePermission,
+  explainPermission,
+  permissionAllowed,
+  expandPermissions,
+  roleHasEffectivePermission,
+  invalidateRolePermissions,
+  invalidatePermissionCatalogue,
+  invalidateTeamPermissionOverrides
+};
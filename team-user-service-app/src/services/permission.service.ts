@@ -1,6 +1,39 @@
+import mongoose from 'mongoose';
 import  { Permission, IPermission } from '../models/Permission.model';
-import  { RolePermission, RoleType, IRolePermission } from '../models/RolePermission.model';
-import { getUserRoleInTeam } from './mockup.member.service'; // Provided by Role 2
+import  { RolePermission, IRolePermission } from '../models/RolePermission.model';
+import { RoleType } from '../models/Role.model';
+import { PrincipalType } from '../types/principal.types';
+import { Team } from '../models/Team.model';
+import { TeamPermissionOverride, OverrideEffect } from '../models/TeamPermissionOverride.model';
+import { getUserRoleInTeam, getUserTeamsWithRoles, isMembershipCached } from './member.service';
+import { getRoleByName, getRoleNamesById, listRoles, resolveRole, RoleInfo } from './role.service';
+import {
+  getEffectivePermissions,
+  evaluatePermission,
+  explainPermission,
+  permissionAllowed,
+  expandPermissions,
+  roleHasEffectivePermission,
+  invalidateRolePermissions,
+  invalidatePermissionCatalogue,
+  invalidateTeamPermissionOverrides,
+  EffectivePermissions,
+  PermissionEvaluationReason,
+  CacheOutcome
+} from './permission.cache.service';
+import { parsePermissionName, validatePermissionName } from '../utils/permission.utils';
+import {
+  AttributeContext,
+  ConditionFailure,
+  PermissionCondition,
+  buildEnvironmentAttributes,
+  describeCondition,
+  validateConditions
+} from '../utils/condition.utils';
+import { BadRequestError, NotFoundError } from '../utils/errors.utils';
+import { AuditContext } from '../utils/audit.utils';
+import { AuditAction } from '../models/AuditEvent.model';
+import { recordAuditEvent } from './audit.service';
 
 
 /**
@@ -14,8 +47,60 @@ import { getUserRoleInTeam } from './mockup.member.service'; // Provided by Role
  * - Manage permissions (CRUD operations)
  * - Manage role-permission assignments
  * - Provide helper functions for authorization
+ * 
+ * Roles are referred to by name here; role.service.ts maps them to the
+ * role ids stored in role_permissions.
+ * 
+ * Role permissions are global defaults. A team can grant or deny
+ * individual permissions for a role within that team only; checks below
+ * always resolve these effective, team-scoped permissions.
+ * 
+ * Permission names follow `resource:action` (see utils/permission.utils.ts),
+ * and grants may be patterns such as `team:*` or `*:read`. Role grants may
+ * also carry conditions over request attributes (see
+ * utils/condition.utils.ts); pass an AttributeContext to judge them.
+ * 
+ * Every mutation below appends an audit event (see audit.service.ts);
+ * pass the caller's AuditContext so the event names who made the change.
  */
 
+/**
+ * Effective permissions of a user on a team, or null if not a member
+ */
+async function getUserEffectivePermissions(
+  userId: string,
+  teamId: string
+): Promise<EffectivePermissions | null> {
+  const userRole = await getUserRoleInTeam(userId, teamId);
+  return userRole ? getEffectivePermissions(userRole, teamId) : null;
+}
+
+/**
+ * The audited fields of a permission
+ */
+function permissionSnapshot(permission: IPermission): Record<string, unknown> {
+  return {
+    permission_name: permission.permission_name,
+    resource: permission.resource,
+    action: permission.action,
+    description: permission.description ?? null
+  };
+}
+
+/**
+ * Look up a role by name, failing the way the role-permission functions
+ * below always have for unknown names
+ */
+async function requireRoleByName(role: string): Promise<RoleInfo> {
+  const resolved = await getRoleByName(role);
+  
+  if (!resolved) {
+    throw new Error(`Role '${role}' does not exist`);
+  }
+  
+  return resolved;
+}
+
 // ============================================
 // CORE PERMISSION CHECKING FUNCTIONS
 // ============================================
@@ -28,11 +113,12 @@ import { getUserRoleInTeam } from './mockup.member.service'; // Provided by Role
  * 
  * @param userId - The ID of the user attempting the action
  * @param teamId - The ID of the team the action is being performed on
- * @param permissionName - The name of the permission (e.g., 'delete_team', 'add_member')
+ * @param permissionName - The name of the permission (e.g., 'team:delete', 'member:add')
+ * @param context - Request attributes for conditional grants (optional)
  * @returns true if user has permission, false otherwise
  * 
  * @example
- * const canDelete = await checkUserPermission('user-123', 'team-456', 'delete_member');
+ * const canDelete = await checkUserPermission('user-123', 'team-456', 'member:remove');
  * if (!canDelete) {
  *   throw new Error('Permission denied');
  * }
@@ -40,10 +126,11 @@ import { getUserRoleInTeam } from './mockup.member.service'; // Provided by Role
 export async function checkUserPermission(
   userId: string,
   teamId: string,
-  permissionName: string
+  permissionName: string,
+  context: AttributeContext = {}
 ): Promise<boolean> {
   try {
-    // Step 1: Get the user's role on this specific team (calls Role 2's service)
+    // Step 1: Get the user's role on this specific team (from the member service)
     const userRole = await getUserRoleInTeam(userId, teamId);
     
     // If user is not in the team, they have no permissions
@@ -51,8 +138,9 @@ export async function checkUserPermission(
       return false;
     }
     
-    // Step 2: Check if that role has the required permission
-    const hasPermission = await RolePermission.hasPermission(userRole, permissionName);
+    // Step 2: Check if that role has the required permission on this team
+    // (global role permissions + team overrides, cached)
+    const hasPermission = await roleHasEffectivePermission(userRole, teamId, permissionName, context);
     
     return hasPermission;
     
@@ -63,6 +151,174 @@ export async function checkUserPermission(
   }
 }
 
+/**
+ * Result of evaluateUserPermission
+ */
+export interface UserPermissionEvaluation {
+  allowed: boolean;
+  reason: PermissionEvaluationReason | 'not_a_member';
+  role: string | null;
+  failedConditions: ConditionFailure[];
+}
+
+/**
+ * Like checkUserPermission, but explains a denial
+ * 
+ * Used by requirePermission so a denied request can say which condition
+ * of a conditional grant failed. Unlike checkUserPermission, lookup
+ * errors are thrown rather than turned into a denial.
+ * 
+ * @param userId - The ID of the user attempting the action
+ * @param teamId - The ID of the team
+ * @param permissionName - The permission being requested
+ * @param context - Request attributes for conditional grants
+ * 
+ * @example
+ * const result = await evaluateUserPermission(userId, teamId, 'incident:close', {
+ *   principal: { id: userId },
+ *   resource: { severity: 'P1' }
+ * });
+ * // { allowed: false, reason: 'condition_failed', failedConditions: [...] }
+ */
+export async function evaluateUserPermission(
+  userId: string,
+  teamId: string,
+  permissionName: string,
+  context: AttributeContext = {}
+): Promise<UserPermissionEvaluation> {
+  const userRole = await getUserRoleInTeam(userId, teamId);
+  
+  if (!userRole) {
+    return { allowed: false, reason: 'not_a_member', role: null, failedConditions: [] };
+  }
+  
+  const effective = await getEffectivePermissions(userRole, teamId);
+  const evaluation = await evaluatePermission(effective, permissionName, context);
+  
+  return { ...evaluation, role: userRole };
+}
+
+/**
+ * Structured account of one authorization decision
+ * 
+ * Returned to admins by the check endpoints (`?explain=true`) and stored
+ * with sampled decisions in authz_decisions, so field names are snake_case.
+ */
+export interface DecisionExplanation {
+  principal: { id: string; type: PrincipalType };
+  team_id: string;
+  permission: string;
+  allowed: boolean;
+  reason: UserPermissionEvaluation['reason'];
+  role: string | null;
+  role_id: string | null;
+  // The grant that allowed the request, and where it came from
+  matched_grant: {
+    permission: string;
+    source: 'role' | 'team_override';
+    conditions: PermissionCondition[];
+  } | null;
+  // The requested permission, when no grant (or only a conditional one) matched
+  missing_grant: string | null;
+  matched_deny: string | null;
+  overrides_applied: Array<{ permission: string; effect: OverrideEffect }>;
+  failed_conditions: Array<PermissionCondition & { actual: unknown }>;
+  cache: {
+    membership: CacheOutcome;
+    role_permissions: CacheOutcome | null;   // null when not a member
+    team_overrides: CacheOutcome | null;
+  };
+  evaluated_at: Date;
+  duration_ms: number;
+}
+
+/**
+ * Evaluate a permission and explain the decision
+ * 
+ * Same answer as evaluateUserPermission, plus the resolved role, the
+ * grant that matched (or the one that is missing), any team overrides
+ * involved and whether each lookup was a cache hit. Lookup errors are
+ * thrown.
+ * 
+ * @param userId - The ID of the user attempting the action
+ * @param teamId - The ID of the team
+ * @param permissionName - The permission being requested
+ * @param context - Request attributes for conditional grants
+ * 
+ * @example
+ * const explanation = await explainUserPermission(userId, teamId, 'team:delete');
+ * // { allowed: false, reason: 'not_granted', role: 'operator',
+ * //   missing_grant: 'team:delete', cache: { membership: 'hit', ... }, ... }
+ */
+export async function explainUserPermission(
+  userId: string,
+  teamId: string,
+  permissionName: string,
+  context: AttributeContext = {}
+): Promise<DecisionExplanation> {
+  const startedAt = Date.now();
+  const membershipCached = isMembershipCached(userId, teamId);
+  
+  const userRole = await getUserRoleInTeam(userId, teamId);
+  
+  const base = {
+    principal: { id: userId, type: (context.principal?.type as PrincipalType) || 'user' },
+    team_id: teamId,
+    permission: permissionName,
+    evaluated_at: new Date(startedAt)
+  };
+  
+  if (!userRole) {
+    return {
+      ...base,
+      allowed: false,
+      reason: 'not_a_member',
+      role: null,
+      role_id: null,
+      matched_grant: null,
+      missing_grant: null,
+      matched_deny: null,
+      overrides_applied: [],
+      failed_conditions: [],
+      cache: {
+        membership: membershipCached ? 'hit' : 'miss',
+        role_permissions: null,
+        team_overrides: null
+      },
+      duration_ms: Date.now() - startedAt
+    };
+  }
+  
+  const explanation = await explainPermission(userRole, teamId, permissionName, context);
+  
+  return {
+    ...base,
+    allowed: explanation.allowed,
+    reason: explanation.reason,
+    role: userRole,
+    role_id: explanation.roleId,
+    matched_grant: explanation.matchedGrant && explanation.grantSource
+      ? {
+        permission: explanation.matchedGrant,
+        source: explanation.grantSource,
+        conditions: explanation.grantConditions
+      }
+      : null,
+    missing_grant: explanation.reason === 'not_granted' || explanation.reason === 'condition_failed'
+      ? permissionName
+      : null,
+    matched_deny: explanation.matchedDeny ?? null,
+    overrides_applied: explanation.overridesApplied,
+    failed_conditions: explanation.failedConditions.map(f => ({ ...f.condition, actual: f.actual ?? null })),
+    cache: {
+      membership: membershipCached ? 'hit' : 'miss',
+      role_permissions: explanation.cache.rolePermissions,
+      team_overrides: explanation.cache.teamOverrides
+    },
+    duration_ms: Date.now() - startedAt
+  };
+}
+
 /**
  * Check if user has a specific role on a team
  * 
@@ -70,7 +326,7 @@ export async function checkUserPermission(
  * 
  * @param userId - The ID of the user
  * @param teamId - The ID of the team
- * @param requiredRole - The role to check for ('admin', 'operator', 'viewer')
+ * @param requiredRole - The name of the role to check for (e.g. 'admin')
  * @returns true if user has the specified role on the team
  * 
  * @example
@@ -79,7 +335,7 @@ export async function checkUserPermission(
 export async function checkUserRole(
   userId: string,
   teamId: string,
-  requiredRole: RoleType
+  requiredRole: string
 ): Promise<boolean> {
   try {
     const userRole = await getUserRoleInTeam(userId, teamId);
@@ -100,33 +356,26 @@ export async function checkUserRole(
  * 
  * @param userId - The ID of the user
  * @param teamId - The ID of the team
- * @returns Array of permission names the user has
+ * @returns Array of permission names the user has, with pattern grants
+ *          expanded to the concrete permissions they cover
  * 
  * @example
  * const permissions = await getUserPermissionsForTeam('user-123', 'team-456');
- * // Returns: ['view_team', 'edit_team', 'add_member', 'remove_member']
+ * // Returns: ['team:view', 'team:edit', 'member:add', 'member:remove']
  */
 export async function getUserPermissionsForTeam(
   userId: string,
   teamId: string
 ): Promise<string[]> {
   try {
-    // Get user's role on the team
-    const userRole = await getUserRoleInTeam(userId, teamId);
+    // Get the user's grants and denies on this team (cached)
+    const effective = await getUserEffectivePermissions(userId, teamId);
     
-    if (!userRole) {
+    if (!effective) {
       return []; // No permissions if not in team
     }
     
-    // Get all permissions for that role
-    const rolePermissions = await RolePermission.getPermissionsForRole(userRole);
-    
-    // Extract just the permission names
-    const permissionNames = rolePermissions.map((rp: any) => {
-      return rp.permission_id.permission_name;
-    });
-    
-    return permissionNames;
+    return await expandPermissions(effective);
     
   } catch (error) {
     console.error('Error getting user permissions:', error);
@@ -149,7 +398,7 @@ export async function getUserPermissionsForTeam(
  * const canManageTeam = await checkMultiplePermissions(
  *   'user-123', 
  *   'team-456', 
- *   ['edit_team', 'add_member', 'remove_member']
+ *   ['team:edit', 'member:add', 'member:remove']
  * );
  */
 export async function checkMultiplePermissions(
@@ -158,12 +407,17 @@ export async function checkMultiplePermissions(
   permissionNames: string[]
 ): Promise<boolean> {
   try {
-    const userPermissions = await getUserPermissionsForTeam(userId, teamId);
+    const effective = await getUserEffectivePermissions(userId, teamId);
+    
+    if (!effective) {
+      return false;
+    }
     
     // Check if user has all required permissions
-    return permissionNames.every(permission => 
-      userPermissions.includes(permission)
+    const results = await Promise.all(
+      permissionNames.map(permission => permissionAllowed(effective, permission))
     );
+    return results.every(Boolean);
     
   } catch (error) {
     console.error('Error checking multiple permissions:', error);
@@ -187,12 +441,17 @@ export async function checkAnyPermission(
   permissionNames: string[]
 ): Promise<boolean> {
   try {
-    const userPermissions = await getUserPermissionsForTeam(userId, teamId);
+    const effective = await getUserEffectivePermissions(userId, teamId);
+    
+    if (!effective) {
+      return false;
+    }
     
     // Check if user has at least one required permission
-    return permissionNames.some(permission => 
-      userPermissions.includes(permission)
+    const results = await Promise.all(
+      permissionNames.map(permission => permissionAllowed(effective, permission))
     );
+    return results.some(Boolean);
     
   } catch (error) {
     console.error('Error checking any permission:', error);
@@ -200,6 +459,141 @@ export async function checkAnyPermission(
   }
 }
 
+// ============================================
+// BATCH PERMISSION DECISIONS
+// ============================================
+
+/**
+ * A single "can subject do permission on team?" question
+ */
+export interface PermissionDecisionRequest {
+  subject: string;      // user_id
+  team: string;         // team_id
+  permission: string;   // permission_name
+  attributes?: Record<string, unknown>;   // resource.* attributes for conditional grants
+}
+
+export type PermissionDecisionReason =
+  | 'granted'
+  | 'not_a_member'
+  | 'permission_not_granted'
+  | 'condition_failed'
+  | 'error';
+
+export interface PermissionDecision extends PermissionDecisionRequest {
+  allowed: boolean;
+  reason: PermissionDecisionReason;
+  role: string | null;
+  failed_conditions?: string[];
+  explanation?: DecisionExplanation;
+}
+
+function toDecision(
+  request: PermissionDecisionRequest,
+  role: string | null,
+  reason: UserPermissionEvaluation['reason'],
+  failedConditions: PermissionCondition[] = []
+): PermissionDecision {
+  if (reason === 'granted') {
+    return { ...request, allowed: true, reason: 'granted', role };
+  }
+  
+  if (reason === 'condition_failed') {
+    return {
+      ...request,
+      allowed: false,
+      reason: 'condition_failed',
+      role,
+      failed_conditions: failedConditions.map(describeCondition)
+    };
+  }
+  
+  return {
+    ...request,
+    allowed: false,
+    reason: reason === 'not_a_member' ? 'not_a_member' : 'permission_not_granted',
+    role
+  };
+}
+
+/**
+ * Answer many permission questions at once
+ * 
+ * Same semantics as checkUserPermission, but each (user, team) membership
+ * and each (role, team) permission set is looked up at most once per call,
+ * no matter how many tuples need it. Lookup failures deny (fail-safe) with
+ * reason 'error'.
+ * 
+ * @param requests - The (subject, team, permission) tuples to decide
+ * @param options.explain - Attach a DecisionExplanation to each decision
+ * @returns One decision per request, in the same order
+ * 
+ * @example
+ * const decisions = await decidePermissions([
+ *   { subject: 'user-123', team: 'team-db', permission: 'acknowledge_incident' },
+ *   { subject: 'user-456', team: 'team-db', permission: 'team:delete' }
+ * ]);
+ */
+export async function decidePermissions(
+  requests: PermissionDecisionRequest[],
+  options: { explain?: boolean } = {}
+): Promise<PermissionDecision[]> {
+  // Memoize promises (not values) so duplicate keys share one in-flight lookup
+  const roleLookups = new Map<string, Promise<string | null>>();
+  const permissionSetLookups = new Map<string, Promise<EffectivePermissions>>();
+  
+  const lookupRole = (userId: string, teamId: string) => {
+    const key = `${userId}\u0000${teamId}`;
+    if (!roleLookups.has(key)) {
+      roleLookups.set(key, getUserRoleInTeam(userId, teamId));
+    }
+    return roleLookups.get(key)!;
+  };
+  
+  const lookupPermissionSet = (role: string, teamId: string) => {
+    const key = `${role}\u0000${teamId}`;
+    if (!permissionSetLookups.has(key)) {
+      permissionSetLookups.set(key, getEffectivePermissions(role, teamId));
+    }
+    return permissionSetLookups.get(key)!;
+  };
+  
+  return Promise.all(requests.map(async (request): Promise<PermissionDecision> => {
+    try {
+      const context: AttributeContext = {
+        principal: { id: request.subject, type: 'user' },
+        resource: request.attributes,
+        env: buildEnvironmentAttributes()
+      };
+      
+      // Explanations need their own lookups (to report cache hits and
+      // grant origins), so they skip the per-call memoization
+      if (options.explain) {
+        const explanation = await explainUserPermission(request.subject, request.team, request.permission, context);
+        return {
+          ...toDecision(request, explanation.role, explanation.reason, explanation.failed_conditions),
+          explanation
+        };
+      }
+      
+      const role = await lookupRole(request.subject, request.team);
+      
+      if (!role) {
+        return toDecision(request, null, 'not_a_member');
+      }
+      
+      const permissions = await lookupPermissionSet(role, request.team);
+      const evaluation = await evaluatePermission(permissions, request.permission, context);
+      
+      return toDecision(request, role, evaluation.reason, evaluation.failedConditions.map(f => f.condition));
+      
+    } catch (error) {
+      console.error('Error deciding permission:', error);
+      return { ...request, allowed: false, reason: 'error', role: null };
+    }
+  }));
+}
+
 // ============================================
 // PERMISSION MANAGEMENT (CRUD)
 // ============================================
@@ -208,25 +602,41 @@ export async function checkAnyPermission(
  * Create a new permission in the system
  * 
  * This should typically only be called by system administrators.
+ * The name must follow the `resource:action` grammar; resource and
+ * action default to the name's segments.
  * 
  * @param permissionData - The permission details
+ * @param audit - Who is making the change
  * @returns The created permission
  * 
  * @example
  * const newPermission = await createPermission({
- *   permission_name: 'archive_team',
- *   resource: 'team',
- *   action: 'archive',
+ *   permission_name: 'team:archive',
  *   description: 'Archive a team without deleting it'
  * });
+ * 
+ * // Pattern permissions can be created and assigned like any other
+ * await createPermission({ permission_name: '*:read' });
  */
 export async function createPermission(permissionData: {
   permission_name: string;
-  resource: string;
-  action: string;
+  resource?: string;
+  action?: string;
   description?: string;
-}): Promise<IPermission> {
+}, audit?: AuditContext): Promise<IPermission> {
   try {
+    const invalid = validatePermissionName(
+      permissionData.permission_name,
+      permissionData.resource,
+      permissionData.action
+    );
+    
+    if (invalid) {
+      throw new BadRequestError(invalid);
+    }
+    
+    const [resource, action] = permissionData.permission_name.split(':');
+    
     // Check if permission already exists
     const existing = await Permission.findOne({ 
       permission_name: permissionData.permission_name 
@@ -237,9 +647,23 @@ export async function createPermission(permissionData: {
     }
     
     // Create the permission
-    const permission = new Permission(permissionData);
+    const permission = new Permission({
+      permission_name: permissionData.permission_name,
+      resource,
+      action,
+      description: permissionData.description
+    });
     await permission.save();
     
+    invalidatePermissionCatalogue();
+    
+    await recordAuditEvent({
+      action: AuditAction.PERMISSION_CREATED,
+      targetType: 'permission',
+      targetId: permission.permission_name,
+      after: permissionSnapshot(permission)
+    }, audit);
+    
     return permission;
     
   } catch (error) {
@@ -285,7 +709,7 @@ export async function getPermissionByName(permissionName: string): Promise<IPerm
  * 
  * @example
  * const teamPermissions = await getPermissionsByResource('team');
- * // Returns all team-related permissions: create_team, edit_team, delete_team, etc.
+ * // Returns all team-related permissions: team:edit, team:delete, etc.
  */
 export async function getPermissionsByResource(resource: string): Promise<IPermission[]> {
   try {
@@ -301,6 +725,7 @@ export async function getPermissionsByResource(resource: string): Promise<IPermi
  * 
  * @param permissionName - The name of the permission to update
  * @param updates - The fields to update
+ * @param audit - Who is making the change
  * @returns The updated permission
  */
 export async function updatePermission(
@@ -309,15 +734,44 @@ export async function updatePermission(
     resource: string;
     action: string;
     description: string;
-  }>
+  }>,
+  audit?: AuditContext
 ): Promise<IPermission | null> {
   try {
-    const permission = await Permission.findOneAndUpdate(
+    // For `resource:action` names the segments are the source of truth
+    if (parsePermissionName(permissionName)) {
+      const invalid = validatePermissionName(permissionName, updates.resource, updates.action);
+      if (invalid) {
+        throw new BadRequestError(invalid);
+      }
+    }
+    
+    // new: false returns the document as it was, for the audit trail
+    const previous = await Permission.findOneAndUpdate(
       { permission_name: permissionName },
       updates,
-      { new: true }
+      { new: false }
     );
     
+    invalidateRolePermissions();
+    invalidatePermissionCatalogue();
+    
+    if (!previous) {
+      return null;
+    }
+    
+    const permission = await Permission.findById(previous._id);
+    
+    if (permission) {
+      await recordAuditEvent({
+        action: AuditAction.PERMISSION_UPDATED,
+        targetType: 'permission',
+        targetId: permissionName,
+        before: permissionSnapshot(previous),
+        after: permissionSnapshot(permission)
+      }, audit);
+    }
+    
     return permission;
   } catch (error) {
     console.error('Error updating permission:', error);
@@ -328,12 +782,14 @@ export async function updatePermission(
 /**
  * Delete a permission
  * 
- * WARNING: This will also remove all role-permission mappings for this permission!
+ * WARNING: This will also remove all role-permission mappings and team
+ * overrides for this permission!
  * 
  * @param permissionName - The name of the permission to delete
+ * @param audit - Who is making the change
  * @returns true if deleted successfully
  */
-export async function deletePermission(permissionName: string): Promise<boolean> {
+export async function deletePermission(permissionName: string, audit?: AuditContext): Promise<boolean> {
   try {
     // Find the permission
     const permission = await Permission.findOne({ permission_name: permissionName });
@@ -342,12 +798,28 @@ export async function deletePermission(permissionName: string): Promise<boolean>
       throw new Error(`Permission '${permissionName}' not found`);
     }
     
-    // Delete all role-permission mappings for this permission
-    await RolePermission.deleteMany({ permission_id: permission._id });
+    // Delete all role-permission mappings and team overrides for this permission
+    const removedGrants = await RolePermission.deleteMany({ permission_id: permission._id });
+    const removedOverrides = await TeamPermissionOverride.deleteMany({ permission_id: permission._id });
     
     // Delete the permission itself
     await Permission.deleteOne({ permission_name: permissionName });
     
+    invalidateRolePermissions();
+    invalidatePermissionCatalogue();
+    invalidateTeamPermissionOverrides();
+    
+    await recordAuditEvent({
+      action: AuditAction.PERMISSION_DELETED,
+      targetType: 'permission',
+      targetId: permissionName,
+      before: {
+        ...permissionSnapshot(permission),
+        role_grants: removedGrants.deletedCount,
+        team_overrides: removedOverrides.deletedCount
+      }
+    }, audit);
+    
     return true;
   } catch (error) {
     console.error('Error deleting permission:', error);
@@ -362,17 +834,20 @@ export async function deletePermission(permissionName: string): Promise<boolean>
 /**
  * Get all permissions for a specific role
  * 
- * @param role - The role type ('admin', 'operator', 'viewer')
+ * @param role - The role name ('admin', 'operator', 'viewer' or a custom role)
  * @returns Array of permissions for that role
  * 
  * @example
  * const operatorPerms = await getPermissionsByRole(RoleType.OPERATOR);
  */
-export async function getPermissionsByRole(role: RoleType): Promise<string[]> {
+export async function getPermissionsByRole(role: string): Promise<string[]> {
   try {
-    const rolePermissions = await RolePermission.getPermissionsForRole(role);
+    const resolvedRole = await requireRoleByName(role);
+    const rolePermissions = await RolePermission.getPermissionsForRole(resolvedRole.id);
     
-    return rolePermissions.map((rp: any) => rp.permission_id.permission_name);
+    return rolePermissions
+      .filter((rp: any) => rp.permission_id) // Skip mappings to deleted permissions
+      .map((rp: any) => rp.permission_id.permission_name);
   } catch (error) {
     console.error('Error getting permissions by role:', error);
     throw error;
@@ -383,20 +858,38 @@ export async function getPermissionsByRole(role: RoleType): Promise<string[]> {
  * Assign a permission to a role
  * 
  * This grants a role the ability to perform a specific action.
+ * With conditions, the grant only applies to requests whose attributes
+ * satisfy all of them.
  * 
  * @param role - The role to grant permission to
  * @param permissionName - The permission to grant
+ * @param conditions - Optional conditions on the grant
+ * @param audit - Who is making the change
  * @returns The created role-permission mapping
  * 
  * @example
  * await assignPermissionToRole(RoleType.OPERATOR, 'delete_service');
  * // Now operators can delete services
+ * 
+ * await assignPermissionToRole(RoleType.OPERATOR, 'incident:close', [
+ *   { attribute: 'resource.severity', operator: 'not_in', value: ['P0', 'P1'] }
+ * ]);
+ * // Operators can close incidents, except P0/P1 ones
  */
 export async function assignPermissionToRole(
-  role: RoleType,
-  permissionName: string
+  role: string,
+  permissionName: string,
+  conditions: PermissionCondition[] = [],
+  audit?: AuditContext
 ): Promise<IRolePermission> {
   try {
+    const invalidConditions = validateConditions(conditions);
+    if (invalidConditions) {
+      throw new BadRequestError(invalidConditions);
+    }
+    
+    const resolvedRole = await requireRoleByName(role);
+    
     // Find the permission
     const permission = await Permission.findOne({ permission_name: permissionName });
     
@@ -406,7 +899,7 @@ export async function assignPermissionToRole(
     
     // Check if this role-permission mapping already exists
     const existing = await RolePermission.findOne({
-      role,
+      role_id: resolvedRole.id,
       permission_id: permission._id
     });
     
@@ -416,12 +909,22 @@ export async function assignPermissionToRole(
     
     // Create the mapping
     const rolePermission = new RolePermission({
-      role,
-      permission_id: permission._id
+      role_id: resolvedRole.id,
+      permission_id: permission._id,
+      conditions
     });
     
     await rolePermission.save();
     
+    invalidateRolePermissions(resolvedRole.id);
+    
+    await recordAuditEvent({
+      action: AuditAction.ROLE_PERMISSION_ASSIGNED,
+      targetType: 'role',
+      targetId: resolvedRole.name,
+      after: { permission: permissionName, conditions }
+    }, audit);
+    
     return rolePermission;
     
   } catch (error) {
@@ -437,17 +940,21 @@ export async function assignPermissionToRole(
  * 
  * @param role - The role to revoke permission from
  * @param permissionName - The permission to revoke
+ * @param audit - Who is making the change
  * @returns true if revoked successfully
  * 
  * @example
- * await revokePermissionFromRole(RoleType.VIEWER, 'edit_team');
+ * await revokePermissionFromRole(RoleType.VIEWER, 'team:edit');
  * // Viewers can no longer edit teams (if they could before)
  */
 export async function revokePermissionFromRole(
-  role: RoleType,
-  permissionName: string
+  role: string,
+  permissionName: string,
+  audit?: AuditContext
 ): Promise<boolean> {
   try {
+    const resolvedRole = await requireRoleByName(role);
+    
     // Find the permission
     const permission = await Permission.findOne({ permission_name: permissionName });
     
@@ -456,12 +963,23 @@ export async function revokePermissionFromRole(
     }
     
     // Delete the role-permission mapping
-    const result = await RolePermission.deleteOne({
-      role,
+    const removed = await RolePermission.findOneAndDelete({
+      role_id: resolvedRole.id,
       permission_id: permission._id
-    });
+    }).lean();
+    
+    invalidateRolePermissions(resolvedRole.id);
+    
+    if (removed) {
+      await recordAuditEvent({
+        action: AuditAction.ROLE_PERMISSION_REVOKED,
+        targetType: 'role',
+        targetId: resolvedRole.name,
+        before: { permission: permissionName, conditions: removed.conditions ?? [] }
+      }, audit);
+    }
     
-    return result.deletedCount > 0;
+    return !!removed;
     
   } catch (error) {
     console.error('Error revoking permission from role:', error);
@@ -476,18 +994,20 @@ export async function revokePermissionFromRole(
  * 
  * @param role - The role to grant permissions to
  * @param permissionNames - Array of permission names
+ * @param audit - Who is making the change
  * @returns Array of created role-permission mappings
  */
 export async function assignMultiplePermissionsToRole(
-  role: RoleType,
-  permissionNames: string[]
+  role: string,
+  permissionNames: string[],
+  audit?: AuditContext
 ): Promise<IRolePermission[]> {
   try {
     const createdMappings: IRolePermission[] = [];
     
     for (const permissionName of permissionNames) {
       try {
-        const mapping = await assignPermissionToRole(role, permissionName);
+        const mapping = await assignPermissionToRole(role, permissionName, [], audit);
         createdMappings.push(mapping);
       } catch (error) {
         // Log but continue with other permissions
@@ -509,9 +1029,9 @@ export async function assignMultiplePermissionsToRole(
  * Useful for auditing: "Who can delete teams?"
  * 
  * @param permissionName - The permission to check
- * @returns Array of roles that have this permission
+ * @returns Names of the roles that have this permission
  */
-export async function getRolesByPermission(permissionName: string): Promise<RoleType[]> {
+export async function getRolesByPermission(permissionName: string): Promise<string[]> {
   try {
     const permission = await Permission.findOne({ permission_name: permissionName });
     
@@ -523,7 +1043,12 @@ export async function getRolesByPermission(permissionName: string): Promise<Role
       permission_id: permission._id 
     });
     
-    return rolePermissions.map(rp => rp.role);
+    const roleIds = rolePermissions.map(rp => rp.role_id.toString());
+    const roleNames = await getRoleNamesById(roleIds);
+    
+    return roleIds
+      .filter(id => roleNames.has(id))
+      .map(id => roleNames.get(id)!);
     
   } catch (error) {
     console.error('Error getting roles by permission:', error);
@@ -531,6 +1056,290 @@ export async function getRolesByPermission(permissionName: string): Promise<Role
   }
 }
 
+// ============================================
+// TEAM PERMISSION OVERRIDES
+// ============================================
+
+/**
+ * Get all permission overrides of a team
+ * 
+ * @param teamId - The team
+ * @returns The team's overrides as (role, permission, effect)
+ */
+export async function getTeamPermissionOverrides(teamId: string): Promise<Array<{
+  role: string;
+  permission: string;
+  effect: OverrideEffect;
+}>> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return [];
+    }
+    
+    const overrides: any[] = await TeamPermissionOverride.find({ team_id: teamId })
+      .populate('permission_id', 'permission_name')
+      .sort({ created_at: 1 })
+      .lean();
+    
+    const roleNames = await getRoleNamesById(overrides.map(o => o.role_id.toString()));
+    
+    return overrides
+      .filter(o => o.permission_id && roleNames.has(o.role_id.toString()))
+      .map(o => ({
+        role: roleNames.get(o.role_id.toString())!,
+        permission: o.permission_id.permission_name,
+        effect: o.effect
+      }));
+    
+  } catch (error) {
+    console.error('Error getting team permission overrides:', error);
+    throw error;
+  }
+}
+
+/**
+ * Grant or deny a permission for a role within one team
+ * 
+ * Setting an override that already exists replaces its effect. The admin
+ * role can't be overridden, so a team can never lock out its admins.
+ * 
+ * @param teamId - The team
+ * @param role - The role name the override applies to
+ * @param permissionName - The permission to grant or deny
+ * @param effect - 'grant' or 'deny'
+ * @param audit - Who is making the change
+ * 
+ * @example
+ * // Operators of this team may not edit on-call schedules
+ * await setTeamPermissionOverride(teamId, RoleType.OPERATOR, 'oncall:edit', OverrideEffect.DENY);
+ */
+export async function setTeamPermissionOverride(
+  teamId: string,
+  role: string,
+  permissionName: string,
+  effect: OverrideEffect,
+  audit?: AuditContext
+): Promise<void> {
+  try {
+    if (!Object.values(OverrideEffect).includes(effect)) {
+      throw new BadRequestError(
+        `Invalid effect. Must be one of: ${Object.values(OverrideEffect).join(', ')}`
+      );
+    }
+    
+    const teamExists = mongoose.Types.ObjectId.isValid(teamId) && await Team.exists({ _id: teamId });
+    if (!teamExists) {
+      throw new NotFoundError(`Team ${teamId} not found`);
+    }
+    
+    const resolvedRole = await resolveRole(role);
+    if (resolvedRole.name === RoleType.ADMIN) {
+      throw new BadRequestError('Permissions of the admin role cannot be overridden per team');
+    }
+    
+    const permission = await Permission.findOne({ permission_name: permissionName });
+    if (!permission) {
+      throw new NotFoundError(`Permission '${permissionName}' does not exist`);
+    }
+    
+    // new: false returns the override as it was (null if it's new)
+    const previous = await TeamPermissionOverride.findOneAndUpdate(
+      { team_id: teamId, role_id: resolvedRole.id, permission_id: permission._id },
+      { effect },
+      { upsert: true, runValidators: true, new: false }
+    );
+    
+    invalidateTeamPermissionOverrides(teamId);
+    
+    await recordAuditEvent({
+      action: AuditAction.TEAM_OVERRIDE_SET,
+      targetType: 'role',
+      targetId: resolvedRole.name,
+      teamId,
+      before: previous ? { permission: permissionName, effect: previous.effect } : null,
+      after: { permission: permissionName, effect }
+    }, audit);
+    
+  } catch (error) {
+    console.error('Error setting team permission override:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a team override, restoring the role's global default
+ * 
+ * @param teamId - The team
+ * @param role - The role name
+ * @param permissionName - The permission
+ * @param audit - Who is making the change
+ * @returns true if an override was removed
+ */
+export async function removeTeamPermissionOverride(
+  teamId: string,
+  role: string,
+  permissionName: string,
+  audit?: AuditContext
+): Promise<boolean> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return false;
+    }
+    
+    const [resolvedRole, permission] = await Promise.all([
+      getRoleByName(role),
+      Permission.findOne({ permission_name: permissionName })
+    ]);
+    
+    if (!resolvedRole || !permission) {
+      return false;
+    }
+    
+    const removed = await TeamPermissionOverride.findOneAndDelete({
+      team_id: teamId,
+      role_id: resolvedRole.id,
+      permission_id: permission._id
+    });
+    
+    invalidateTeamPermissionOverrides(teamId);
+    
+    if (removed) {
+      await recordAuditEvent({
+        action: AuditAction.TEAM_OVERRIDE_REMOVED,
+        targetType: 'role',
+        targetId: resolvedRole.name,
+        teamId,
+        before: { permission: permissionName, effect: removed.effect }
+      }, audit);
+    }
+    
+    return !!removed;
+    
+  } catch (error) {
+    console.error('Error removing team permission override:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// SEEDING
+// ============================================
+
+/**
+ * Permissions the service's own routes check, and the system roles that
+ * get them on a fresh deployment
+ */
+const SYSTEM_PERMISSIONS: Array<{ name: string; description: string; roles: RoleType[] }> = [
+  { name: 'team:edit', description: 'Edit the team', roles: [RoleType.ADMIN] },
+  { name: 'team:delete', description: 'Delete the team', roles: [RoleType.ADMIN] },
+  { name: 'member:add', description: 'Add and invite members', roles: [RoleType.ADMIN] },
+  { name: 'member:remove', description: 'Remove members', roles: [RoleType.ADMIN] },
+  { name: 'member:change_role', description: "Change members' roles", roles: [RoleType.ADMIN] },
+  { name: 'oncall:edit', description: 'Edit on-call schedules and escalation policies', roles: [RoleType.ADMIN, RoleType.OPERATOR] }
+];
+
+// Names the routes checked before the resource:action grammar
+const LEGACY_PERMISSION_NAMES: Record<string, string> = {
+  edit_team: 'team:edit',
+  delete_team: 'team:delete',
+  add_member: 'member:add',
+  remove_member: 'member:remove',
+  change_member_role: 'member:change_role',
+  edit_oncall: 'oncall:edit'
+};
+
+/**
+ * Make sure the permissions the routes check exist
+ *
+ * Safe to run on every startup; run it after seedSystemRoles. A
+ * permission is granted to its default roles only when it is first
+ * created, so grants an admin revoked later stay revoked. Legacy
+ * permission documents (e.g. `edit_team`) are renamed in place, keeping
+ * their role grants and team overrides.
+ */
+export async function seedSystemPermissions(): Promise<void> {
+  try {
+    for (const [legacyName, name] of Object.entries(LEGACY_PERMISSION_NAMES)) {
+      if (await Permission.exists({ permission_name: name })) {
+        continue;
+      }
+      
+      const [resource, action] = name.split(':');
+      const renamed = await Permission.findOneAndUpdate(
+        { permission_name: legacyName },
+        { permission_name: name, resource, action }
+      );
+      
+      if (renamed) {
+        await recordAuditEvent({
+          action: AuditAction.PERMISSION_UPDATED,
+          targetType: 'permission',
+          targetId: name,
+          before: permissionSnapshot(renamed),
+          after: { ...permissionSnapshot(renamed), permission_name: name, resource, action }
+        });
+      }
+    }
+    
+    for (const systemPermission of SYSTEM_PERMISSIONS) {
+      const [resource, action] = systemPermission.name.split(':');
+      
+      const result = await Permission.updateOne(
+        { permission_name: systemPermission.name },
+        {
+          $setOnInsert: {
+            permission_name: systemPermission.name,
+            resource,
+            action,
+            description: systemPermission.description
+          }
+        },
+        { upsert: true }
+      );
+      
+      if (!result.upsertedId) {
+        continue;
+      }
+      
+      await recordAuditEvent({
+        action: AuditAction.PERMISSION_CREATED,
+        targetType: 'permission',
+        targetId: systemPermission.name,
+        after: {
+          permission_name: systemPermission.name,
+          resource,
+          action,
+          description: systemPermission.description
+        }
+      });
+      
+      for (const roleName of systemPermission.roles) {
+        const role = await requireRoleByName(roleName);
+        
+        await RolePermission.create({
+          role_id: role.id,
+          permission_id: result.upsertedId,
+          conditions: []
+        });
+        invalidateRolePermissions(role.id);
+        
+        await recordAuditEvent({
+          action: AuditAction.ROLE_PERMISSION_ASSIGNED,
+          targetType: 'role',
+          targetId: role.name,
+          after: { permission: systemPermission.name, conditions: [] }
+        });
+      }
+    }
+    
+    invalidatePermissionCatalogue();
+    
+  } catch (error) {
+    console.error('Error seeding system permissions:', error);
+    throw error;
+  }
+}
+
 // ============================================
 // HELPER/UTILITY FUNCTIONS
 // ============================================
@@ -583,17 +1392,21 @@ export async function validateMultiplePermissions(
  * @returns Summary of roles and permission counts
  */
 export async function getRolePermissionSummary(): Promise<Array<{
-  role: RoleType;
+  role: string;
+  rank: number;
+  isSystem: boolean;
   permissionCount: number;
   permissions: string[];
 }>> {
   try {
     const summary = [];
     
-    for (const role of Object.values(RoleType)) {
-      const permissions = await getPermissionsByRole(role);
+    for (const role of await listRoles()) {
+      const permissions = await getPermissionsByRole(role.name);
       summary.push({
-        role,
+        role: role.name,
+        rank: role.rank,
+        isSystem: role.isSystem,
         permissionCount: permissions.length,
         permissions
       });
@@ -615,28 +1428,24 @@ export async function getRolePermissionSummary(): Promise<Array<{
  * @param role - The role to check
  * @returns true if role is admin
  */
-export function isAdminRole(role: RoleType): boolean {
+export function isAdminRole(role: string): boolean {
   return role === RoleType.ADMIN;
 }
 
 /**
  * Check if a user is an admin on any team
  * 
- * This would require collaboration with Role 2's service
- * to get all teams a user belongs to.
- * 
  * @param userId - The user ID to check
  * @returns true if user is admin on at least one team
  */
 export async function isUserAdminAnywhere(userId: string): Promise<boolean> {
-  // NOTE: This function would need Role 2 to provide a function like:
-  // getUserTeamsWithRoles(userId) that returns all teams and roles
-  
-  // Placeholder implementation:
-  // const userTeams = await getUserTeamsWithRoles(userId);
-  // return userTeams.some(team => team.role === RoleType.ADMIN);
-  
-  throw new Error('This function requires implementation with Role 2 collaboration');
+  try {
+    const userTeams = await getUserTeamsWithRoles(userId);
+    return userTeams.some(team => team.role === RoleType.ADMIN);
+  } catch (error) {
+    console.error('Error checking admin status:', error);
+    return false;
+  }
 }
 
 // ============================================
@@ -646,10 +1455,13 @@ export async function isUserAdminAnywhere(userId: string): Promise<boolean> {
 export default {
   // Core permission checking
   checkUserPermission,
+  evaluateUserPermission,
+  explainUserPermission,
   checkUserRole,
   getUserPermissionsForTeam,
   checkMultiplePermissions,
   checkAnyPermission,
+  decidePermissions,
   
   // Permission management
   createPermission,
@@ -666,6 +1478,14 @@ export default {
   assignMultiplePermissionsToRole,
   getRolesByPermission,
   
+  // Team permission overrides
+  getTeamPermissionOverrides,
+  setTeamPermissionOverride,
+  removeTeamPermissionOverride,
+  
+  // Seeding
+  seedSystemPermissions,
+  
   // Helpers
   validatePermissionExists,
   validateMultiplePermissions,
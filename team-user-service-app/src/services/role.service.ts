@@ -0,0 +1,435 @@
+import mongoose from 'mongoose';
+import { Role, IRole, RoleType, ROLE_NAME_PATTERN } from '../models/Role.model';
+import { RolePermission } from '../models/RolePermission.model';
+import { TeamMembership } from '../models/TeamMembership.model';
+import { TeamPermissionOverride } from '../models/TeamPermissionOverride.model';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  isDuplicateKeyError
+} from '../utils/errors.utils';
+import { TtlCache } from '../utils/cache.utils';
+import { env } from '../config/env.config';
+
+/**
+ * Role Service
+ *
+ * Owns the roles collection: the built-in admin/operator/viewer roles plus
+ * any custom roles (e.g. 'incident-commander'). Memberships and
+ * role-permission mappings reference roles by id; everything above the
+ * models (APIs, caches, guards) talks in role names.
+ *
+ * There are only ever a handful of roles, so the whole collection is
+ * cached as one entry.
+ */
+
+export interface RoleInfo {
+  id: string;
+  name: string;
+  description?: string;
+  rank: number;
+  isSystem: boolean;
+}
+
+const SYSTEM_ROLES: Array<{ name: RoleType; rank: number; description: string }> = [
+  { name: RoleType.ADMIN, rank: 300, description: 'Full control over the team and its members' },
+  { name: RoleType.OPERATOR, rank: 200, description: 'Day-to-day operations and on-call work' },
+  { name: RoleType.VIEWER, rank: 100, description: 'Read-only access to the team' }
+];
+
+const ALL_ROLES_KEY = 'all';
+
+// A lookup miss reloads the role list at most this often, so requests
+// naming unknown roles can't keep sending us to the database
+const MISS_RELOAD_MIN_INTERVAL_MS = 5 * 1000;
+
+let lastMissReloadAt = 0;
+let missReload: Promise<RoleInfo[]> | null = null;
+
+// Bumped by invalidateRoles, so a reload that started earlier doesn't
+// put an outdated list back into the cache
+let rolesGeneration = 0;
+
+const roleCache = new TtlCache<string, RoleInfo[]>({
+  name: 'roles',
+  ttlMs: env.PERMISSION_CACHE_TTL_MS,
+  maxSize: 1
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toRoleInfo(role: Pick<IRole, '_id' | 'name' | 'description' | 'rank' | 'is_system'>): RoleInfo {
+  return {
+    id: role._id.toString(),
+    name: role.name,
+    description: role.description,
+    rank: role.rank,
+    isSystem: role.is_system
+  };
+}
+
+function assertValidRank(rank: unknown): asserts rank is number {
+  if (typeof rank !== 'number' || !Number.isInteger(rank) || rank < 0) {
+    throw new BadRequestError('rank must be a non-negative integer');
+  }
+}
+
+async function loadRoles(): Promise<RoleInfo[]> {
+  const roles = await Role.find().sort({ rank: -1, name: 1 }).lean();
+  return roles.map(toRoleInfo);
+}
+
+/**
+ * Reload the role list after a lookup miss, in case another instance
+ * created the role after we cached the list
+ *
+ * The cached list is replaced, not cleared, and concurrent misses share
+ * one reload.
+ *
+ * @returns The fresh list, or null if the last reload was too recent
+ */
+async function reloadRolesAfterMiss(): Promise<RoleInfo[] | null> {
+  if (missReload) {
+    return missReload;
+  }
+
+  if (Date.now() - lastMissReloadAt < MISS_RELOAD_MIN_INTERVAL_MS) {
+    return null;
+  }
+
+  lastMissReloadAt = Date.now();
+  const generation = rolesGeneration;
+
+  missReload = loadRoles()
+    .then(roles => {
+      if (generation === rolesGeneration) {
+        roleCache.set(ALL_ROLES_KEY, roles);
+      }
+      return roles;
+    })
+    .finally(() => {
+      missReload = null;
+    });
+
+  return missReload;
+}
+
+/**
+ * Find a role in the cached list, reloading on a miss (see
+ * reloadRolesAfterMiss)
+ */
+async function findRole(predicate: (role: RoleInfo) => boolean): Promise<RoleInfo | null> {
+  const cached = (await listRoles()).find(predicate);
+
+  if (cached) {
+    return cached;
+  }
+
+  const reloaded = await reloadRolesAfterMiss();
+  return reloaded?.find(predicate) || null;
+}
+
+// ============================================
+// ROLE QUERIES
+// ============================================
+
+/**
+ * Get every role, highest rank first (cached)
+ *
+ * @returns All system and custom roles
+ */
+export async function listRoles(): Promise<RoleInfo[]> {
+  try {
+    return await roleCache.getOrLoad(ALL_ROLES_KEY, loadRoles);
+  } catch (error) {
+    console.error('Error listing roles:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a role by name
+ *
+ * @param name - The role name (e.g. 'admin', 'incident-commander')
+ * @returns The role or null if it does not exist
+ */
+export async function getRoleByName(name: string): Promise<RoleInfo | null> {
+  const normalized = name.toLowerCase();
+  return findRole(role => role.name === normalized);
+}
+
+/**
+ * Get a role by id
+ *
+ * @param roleId - The role's id
+ * @returns The role or null if it does not exist
+ */
+export async function getRoleById(roleId: string): Promise<RoleInfo | null> {
+  return findRole(role => role.id === roleId);
+}
+
+/**
+ * Get a role by name, rejecting names that don't exist
+ *
+ * Use this when the name comes from a request body (e.g. "add this
+ * member as X").
+ *
+ * @param name - The role name
+ * @returns The role
+ */
+export async function resolveRole(name: string): Promise<RoleInfo> {
+  const role = await getRoleByName(name);
+
+  if (!role) {
+    const names = (await listRoles()).map(r => r.name);
+    throw new BadRequestError(`Unknown role '${name}'. Must be one of: ${names.join(', ')}`);
+  }
+
+  return role;
+}
+
+/**
+ * Map of role id → role name, for turning stored role_ids back into names
+ *
+ * @param roleIds - The ids that need a name; the list is reloaded if any is unknown
+ */
+export async function getRoleNamesById(roleIds: string[] = []): Promise<Map<string, string>> {
+  let roles = await listRoles();
+
+  if (roleIds.some(id => !roles.some(role => role.id === id))) {
+    roles = await reloadRolesAfterMiss() ?? roles;
+  }
+
+  return new Map(roles.map(role => [role.id, role.name]));
+}
+
+// ============================================
+// ROLE MANAGEMENT (CRUD)
+// ============================================
+
+/**
+ * Create a custom role
+ *
+ * @param roleData - Name, rank and optional description
+ * @returns The created role
+ *
+ * @example
+ * await createRole({ name: 'incident-commander', rank: 250 });
+ * // Ranks above operator (200), below admin (300)
+ */
+export async function createRole(roleData: {
+  name: string;
+  rank: number;
+  description?: string;
+}): Promise<RoleInfo> {
+  try {
+    const name = typeof roleData.name === 'string' ? roleData.name.trim().toLowerCase() : '';
+
+    if (!ROLE_NAME_PATTERN.test(name) || name.length > 50) {
+      throw new BadRequestError(
+        'Role name must start with a letter and contain only lowercase letters, digits, - and _ (max 50 characters)'
+      );
+    }
+    assertValidRank(roleData.rank);
+
+    const role = await Role.create({
+      name,
+      rank: roleData.rank,
+      description: roleData.description,
+      is_system: false
+    });
+
+    invalidateRoles();
+
+    return toRoleInfo(role);
+
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`Role '${roleData.name}' already exists`);
+    }
+
+    console.error('Error creating role:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a role's description or rank
+ *
+ * Names are immutable. System roles only allow their description to
+ * change, so the built-in hierarchy can't be reordered.
+ *
+ * @param name - The role to update
+ * @param updates - The fields to update
+ * @returns The updated role
+ */
+export async function updateRole(
+  name: string,
+  updates: Partial<{
+    description: string;
+    rank: number;
+  }>
+): Promise<RoleInfo> {
+  try {
+    const role = await Role.findOne({ name: name.toLowerCase() });
+
+    if (!role) {
+      throw new NotFoundError(`Role '${name}' not found`);
+    }
+
+    if (updates.rank !== undefined) {
+      if (role.is_system && updates.rank !== role.rank) {
+        throw new ForbiddenError(`The rank of system role '${role.name}' cannot be changed`);
+      }
+      assertValidRank(updates.rank);
+      role.rank = updates.rank;
+    }
+
+    if (updates.description !== undefined) {
+      role.description = updates.description;
+    }
+
+    await role.save();
+    invalidateRoles();
+
+    return toRoleInfo(role);
+
+  } catch (error) {
+    console.error('Error updating role:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a custom role
+ *
+ * System roles can't be deleted, and neither can a role someone still
+ * holds on a team. The role's permission mappings and team overrides are
+ * removed with it.
+ *
+ * @param name - The role to delete
+ */
+export async function deleteRole(name: string): Promise<void> {
+  try {
+    const role = await Role.findOne({ name: name.toLowerCase() });
+
+    if (!role) {
+      throw new NotFoundError(`Role '${name}' not found`);
+    }
+
+    if (role.is_system) {
+      throw new ForbiddenError(`System role '${role.name}' cannot be deleted`);
+    }
+
+    const memberCount = await TeamMembership.countDocuments({ role_id: role._id });
+
+    if (memberCount > 0) {
+      throw new ConflictError(`Role '${role.name}' is still held by ${memberCount} team member(s)`);
+    }
+
+    await RolePermission.deleteMany({ role_id: role._id });
+    await TeamPermissionOverride.deleteMany({ role_id: role._id });
+    await Role.deleteOne({ _id: role._id });
+
+    invalidateRoles();
+
+  } catch (error) {
+    console.error('Error deleting role:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// SEEDING
+// ============================================
+
+/**
+ * Make sure the built-in roles exist
+ *
+ * Safe to run on every startup: existing roles are left as they are.
+ * Also moves memberships and role-permission mappings written before
+ * roles had their own collection (a `role` name string instead of a
+ * `role_id`) over to role ids.
+ */
+export async function seedSystemRoles(): Promise<void> {
+  try {
+    for (const systemRole of SYSTEM_ROLES) {
+      await Role.updateOne(
+        { name: systemRole.name },
+        {
+          $setOnInsert: {
+            name: systemRole.name,
+            rank: systemRole.rank,
+            description: systemRole.description,
+            is_system: true
+          }
+        },
+        { upsert: true }
+      );
+    }
+
+    invalidateRoles();
+
+    await migrateLegacyRoleReferences();
+
+  } catch (error) {
+    console.error('Error seeding system roles:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rewrite legacy { role: 'admin' } documents to { role_id: <id> }
+ *
+ * Goes through the raw collections because `role` is no longer part of
+ * either schema. Legacy documents could only hold system role names.
+ */
+async function migrateLegacyRoleReferences(): Promise<void> {
+  const roles = await listRoles();
+
+  for (const role of roles.filter(r => r.isSystem)) {
+    const filter = { role: role.name, role_id: { $exists: false } };
+    const update = { $set: { role_id: new mongoose.Types.ObjectId(role.id) }, $unset: { role: '' } };
+
+    await TeamMembership.collection.updateMany(filter, update);
+    await RolePermission.collection.updateMany(filter, update);
+  }
+
+  // The old unique { role, permission_id } index would treat every
+  // migrated document as role: null and reject them as duplicates
+  await RolePermission.collection.dropIndex('role_1_permission_id_1').catch(() => undefined);
+  await RolePermission.collection.dropIndex('role_1').catch(() => undefined);
+}
+
+// ============================================
+// CACHE INVALIDATION
+// ============================================
+
+/**
+ * Forget the cached role list
+ */
+export function invalidateRoles(): void {
+  rolesGeneration++;
+  roleCache.clear();
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export default {
+  listRoles,
+  getRoleByName,
+  getRoleById,
+  resolveRole,
+  getRoleNamesById,
+  createRole,
+  updateRole,
+  deleteRole,
+  seedSystemRoles,
+  invalidateRoles
+};
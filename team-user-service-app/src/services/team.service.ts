@@ -0,0 +1,358 @@
+import mongoose from 'mongoose';
+import { Team, ITeam } from '../models/Team.model';
+import { TeamMembership } from '../models/TeamMembership.model';
+import { TeamPermissionOverride } from '../models/TeamPermissionOverride.model';
+import { OnCallSchedule } from '../models/OnCallSchedule.model';
+import { OnCallOverride } from '../models/OnCallOverride.model';
+import { OnCallSwap } from '../models/OnCallSwap.model';
+import { EscalationPolicy } from '../models/EscalationPolicy.model';
+import { CalendarFeed } from '../models/CalendarFeed.model';
+import { TeamInvitation } from '../models/TeamInvitation.model';
+import { Permission } from '../models/Permission.model';
+import { RoleType } from '../models/Role.model';
+import { AuditAction } from '../models/AuditEvent.model';
+import { addUserToTeam, getUserTeamsWithRoles, invalidateTeamMemberships } from './member.service';
+import { invalidateTeamPermissionOverrides } from './permission.cache.service';
+import { getRoleNamesById } from './role.service';
+import { recordAuditEvent } from './audit.service';
+import { BadRequestError, ConflictError, isDuplicateKeyError } from '../utils/errors.utils';
+import { AuditContext } from '../utils/audit.utils';
+
+/**
+ * Team Service
+ *
+ * Handles the lifecycle of teams themselves (create, read, update, delete).
+ * Membership of a team is managed by member.service.ts.
+ */
+
+// ============================================
+// HELPERS
+// ============================================
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Derive a URL-friendly slug from a team name
+ *
+ * @example
+ * slugify('Database Reliability Team'); // 'database-reliability-team'
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Check that a slug is lowercase letters/digits separated by single dashes
+ */
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug);
+}
+
+function assertValidSlug(slug: string): void {
+  if (!isValidSlug(slug)) {
+    throw new BadRequestError(`Invalid team slug '${slug}'`);
+  }
+}
+
+/**
+ * Lowercase and check a slug taken from a request body
+ */
+function normalizeSlug(slug: unknown): string {
+  if (typeof slug !== 'string') {
+    throw new BadRequestError('slug must be a string');
+  }
+
+  const normalized = slug.toLowerCase();
+  assertValidSlug(normalized);
+  return normalized;
+}
+
+function assertValidName(name: unknown): asserts name is string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new BadRequestError('name must be a non-empty string');
+  }
+}
+
+function assertValidDescription(description: unknown): asserts description is string {
+  if (typeof description !== 'string') {
+    throw new BadRequestError('description must be a string');
+  }
+}
+
+/**
+ * Fields of a team that can be changed after it is created
+ */
+export type TeamUpdates = Partial<{
+  name: string;
+  slug: string;
+  description: string;
+}>;
+
+// ============================================
+// TEAM QUERIES
+// ============================================
+
+/**
+ * Get a team by its ID
+ *
+ * @param teamId - The ID of the team
+ * @returns The team or null if not found
+ */
+export async function getTeamById(teamId: string): Promise<ITeam | null> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return null;
+    }
+
+    return await Team.findById(teamId);
+  } catch (error) {
+    console.error('Error getting team by id:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a team by its slug
+ *
+ * @param slug - The team slug (e.g., 'database-team')
+ * @returns The team or null if not found
+ */
+export async function getTeamBySlug(slug: string): Promise<ITeam | null> {
+  try {
+    return await Team.findOne({ slug: slug.toLowerCase() });
+  } catch (error) {
+    console.error('Error getting team by slug:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all teams a user belongs to, with the user's role on each
+ *
+ * @param userId - The ID of the user
+ * @returns Array of teams paired with the user's role
+ */
+export async function getTeamsForUser(userId: string): Promise<Array<{
+  team: ITeam;
+  role: string;
+}>> {
+  try {
+    const memberships = await getUserTeamsWithRoles(userId);
+
+    if (memberships.length === 0) {
+      return [];
+    }
+
+    const teams = await Team.find({
+      _id: { $in: memberships.map(m => m.teamId) }
+    }).sort({ name: 1 });
+
+    const roleByTeam = new Map(memberships.map(m => [m.teamId, m.role]));
+
+    return teams.map(team => ({
+      team,
+      role: roleByTeam.get(team._id.toString())!
+    }));
+
+  } catch (error) {
+    console.error('Error getting teams for user:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// TEAM MANAGEMENT (CRUD)
+// ============================================
+
+/**
+ * Create a new team
+ *
+ * The owner is added to the team as its first admin, so every team
+ * starts with someone who can manage it.
+ *
+ * @param teamData - The team details
+ * @param audit - Who is creating the team (recorded for the owner's membership)
+ * @returns The created team
+ *
+ * @example
+ * const team = await createTeam({
+ *   name: 'Database Team',
+ *   description: 'Owns the primary Postgres clusters',
+ *   owner_id: 'user-123'
+ * });
+ */
+export async function createTeam(teamData: {
+  name: string;
+  slug?: string;
+  description?: string;
+  owner_id: string;
+}, audit?: AuditContext): Promise<ITeam> {
+  assertValidName(teamData.name);
+  if (teamData.description !== undefined) {
+    assertValidDescription(teamData.description);
+  }
+
+  const slug = teamData.slug ? normalizeSlug(teamData.slug) : slugify(teamData.name);
+
+  assertValidSlug(slug);
+
+  let team: ITeam;
+
+  try {
+    team = await Team.create({
+      name: teamData.name,
+      slug,
+      description: teamData.description,
+      owner_id: teamData.owner_id
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`Team with slug '${slug}' already exists`);
+    }
+    console.error('Error creating team:', error);
+    throw error;
+  }
+
+  try {
+    await addUserToTeam(teamData.owner_id, team._id.toString(), RoleType.ADMIN, audit);
+  } catch (error) {
+    // Don't leave behind a team nobody can manage
+    await Team.deleteOne({ _id: team._id });
+    console.error('Error adding owner to new team:', error);
+    throw error;
+  }
+
+  return team;
+}
+
+/**
+ * Update a team
+ *
+ * @param teamId - The ID of the team to update
+ * @param updates - The fields to update
+ * @returns The updated team, or null if not found
+ */
+export async function updateTeam(
+  teamId: string,
+  updates: TeamUpdates
+): Promise<ITeam | null> {
+  if (updates.name !== undefined) {
+    assertValidName(updates.name);
+  }
+  if (updates.description !== undefined) {
+    assertValidDescription(updates.description);
+  }
+  if (updates.slug !== undefined) {
+    updates.slug = normalizeSlug(updates.slug);
+  }
+
+  try {
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return null;
+    }
+
+    return await Team.findByIdAndUpdate(teamId, updates, {
+      new: true,
+      runValidators: true
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new ConflictError(`Team with slug '${updates.slug}' already exists`);
+    }
+    console.error('Error updating team:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a team
+ *
+ * WARNING: This also removes every membership of the team!
+ * Each removed membership and permission override is audited as if it
+ * had been removed on its own.
+ *
+ * @param teamId - The ID of the team to delete
+ * @param audit - Who is deleting the team
+ * @returns true if deleted, false if the team did not exist
+ */
+export async function deleteTeam(teamId: string, audit?: AuditContext): Promise<boolean> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(teamId)) {
+      return false;
+    }
+
+    const result = await Team.deleteOne({ _id: teamId });
+
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    const memberships = await TeamMembership.find({ team_id: teamId }).lean();
+    const overrides = await TeamPermissionOverride.find({ team_id: teamId }).lean();
+
+    await TeamMembership.deleteMany({ team_id: teamId });
+    await TeamPermissionOverride.deleteMany({ team_id: teamId });
+    await OnCallSchedule.deleteMany({ team_id: teamId });
+    await OnCallOverride.deleteMany({ team_id: teamId });
+    await OnCallSwap.deleteMany({ team_id: teamId });
+    await EscalationPolicy.deleteMany({ team_id: teamId });
+    await CalendarFeed.deleteMany({ team_id: teamId });
+    await TeamInvitation.deleteMany({ team_id: teamId });
+    invalidateTeamMemberships(teamId);
+    invalidateTeamPermissionOverrides(teamId);
+
+    const roleNames = await getRoleNamesById([
+      ...memberships.map(m => m.role_id.toString()),
+      ...overrides.map(o => o.role_id.toString())
+    ]);
+    const permissions = await Permission.find({ _id: { $in: overrides.map(o => o.permission_id) } }).lean();
+    const permissionNames = new Map(permissions.map(p => [p._id.toString(), p.permission_name]));
+
+    for (const membership of memberships) {
+      const roleId = membership.role_id.toString();
+      await recordAuditEvent({
+        action: AuditAction.MEMBER_REMOVED,
+        targetType: 'user',
+        targetId: membership.user_id,
+        teamId,
+        before: { role: roleNames.get(roleId) ?? roleId }
+      }, audit);
+    }
+
+    for (const override of overrides) {
+      const roleId = override.role_id.toString();
+      const permissionId = override.permission_id.toString();
+      await recordAuditEvent({
+        action: AuditAction.TEAM_OVERRIDE_REMOVED,
+        targetType: 'role',
+        targetId: roleNames.get(roleId) ?? roleId,
+        teamId,
+        before: { permission: permissionNames.get(permissionId) ?? permissionId, effect: override.effect }
+      }, audit);
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting team:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORT ALL FUNCTIONS
+// ============================================
+
+export default {
+  slugify,
+  isValidSlug,
+  getTeamById,
+  getTeamBySlug,
+  getTeamsForUser,
+  createTeam,
+  updateTeam,
+  deleteTeam
+};
@@ -1,6 +1,11 @@
-import axios from 'axios';
+import { UserProfile, IUserProfile } from '../models/UserProfile.model';
+import { env } from '../config/env.config';
+import { isValidTimeZone } from '../utils/timezone.utils';
+import { HttpClient } from '../utils/http.utils';
+import { TtlCache } from '../utils/cache.utils';
+import { BadRequestError, NotFoundError } from '../utils/errors.utils';
 
-// Define what a User looks like
+// Define what a User looks like (as the auth service returns it)
 export interface User {
   user_id: string;
   email: string;
@@ -10,32 +15,405 @@ export interface User {
   updated_at: string;
 }
 
+// A user as this service serves it: the auth service's fields plus ours
+export interface UserProfileData extends User {
+  time_zone: string | null;
+  locale: string | null;
+  title: string | null;
+  avatar_url: string | null;
+  skills: string[];
+  synced_at: string | null;       // null when served straight from the auth service
+}
+
+// Result of a batch lookup
+export interface UserBatchResult {
+  users: UserProfileData[];       // In the order first requested
+  missing: string[];              // Unknown to the auth service
+  unavailable: string[];          // Couldn't be looked up right now (auth service failing)
+}
+
+// Team service fields a user can edit; null clears a field
+export interface ProfileUpdates {
+  time_zone?: string | null;
+  locale?: string | null;
+  title?: string | null;
+  avatar_url?: string | null;
+  skills?: string[];
+}
+
+const MAX_SKILLS = 50;
+const MAX_SKILL_LENGTH = 50;
+const MAX_TITLE_LENGTH = 100;
+const MAX_AVATAR_URL_LENGTH = 2048;
+
+// user_id → profile, in front of user_profiles
+const profileCache = new TtlCache<string, UserProfileData>({
+  name: 'user-profiles',
+  ttlMs: env.USER_PROFILE_CACHE_TTL_MS,
+  maxSize: env.USER_PROFILE_CACHE_MAX_ENTRIES
+});
+
+/**
+ * Run fn over items with at most `limit` calls in flight
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+function toProfileData(profile: IUserProfile): UserProfileData {
+  return {
+    user_id: profile.user_id,
+    email: profile.email,
+    display_name: profile.display_name,
+    status: profile.status,
+    created_at: profile.auth_created_at?.toISOString() ?? profile.created_at.toISOString(),
+    updated_at: profile.auth_updated_at?.toISOString() ?? profile.updated_at.toISOString(),
+    time_zone: profile.time_zone ?? null,
+    locale: profile.locale ?? null,
+    title: profile.title ?? null,
+    avatar_url: profile.avatar_url ?? null,
+    skills: profile.skills,
+    synced_at: profile.synced_at.toISOString()
+  };
+}
+
+function fromAuthUser(user: User): UserProfileData {
+  return {
+    ...user,
+    time_zone: null,
+    locale: null,
+    title: null,
+    avatar_url: null,
+    skills: [],
+    synced_at: null
+  };
+}
+
+function toDate(value: string | undefined): Date | undefined {
+  const date = value ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Check profile edits
+ *
+ * @returns The $set/$unset to apply
+ * @throws BadRequestError on the first invalid field
+ */
+function validateProfileUpdates(updates: ProfileUpdates): { set: Record<string, unknown>; unset: Record<string, ''> } {
+  const set: Record<string, unknown> = {};
+  const unset: Record<string, ''> = {};
+
+  if (updates.time_zone !== undefined) {
+    if (updates.time_zone === null) {
+      unset.time_zone = '';
+    } else if (typeof updates.time_zone !== 'string' || !isValidTimeZone(updates.time_zone)) {
+      throw new BadRequestError('time_zone must be an IANA time zone (e.g. "Europe/Berlin")');
+    } else {
+      set.time_zone = updates.time_zone;
+    }
+  }
+
+  if (updates.locale !== undefined) {
+    if (updates.locale === null) {
+      unset.locale = '';
+    } else {
+      try {
+        [set.locale] = Intl.getCanonicalLocales(updates.locale);
+      } catch {
+        throw new BadRequestError('locale must be a BCP 47 language tag (e.g. "de-DE")');
+      }
+    }
+  }
+
+  if (updates.title !== undefined) {
+    if (updates.title === null || updates.title === '') {
+      unset.title = '';
+    } else if (typeof updates.title !== 'string' || updates.title.length > MAX_TITLE_LENGTH) {
+      throw new BadRequestError(`title must be a string of at most ${MAX_TITLE_LENGTH} characters`);
+    } else {
+      set.title = updates.title.trim();
+    }
+  }
+
+  if (updates.avatar_url !== undefined) {
+    if (updates.avatar_url === null) {
+      unset.avatar_url = '';
+    } else {
+      let url: URL | null = null;
+      try {
+        url = typeof updates.avatar_url === 'string' && updates.avatar_url.length <= MAX_AVATAR_URL_LENGTH
+          ? new URL(updates.avatar_url)
+          : null;
+      } catch {
+        url = null;
+      }
+      if (!url || url.protocol !== 'https:') {
+        throw new BadRequestError('avatar_url must be an https URL');
+      }
+      set.avatar_url = url.toString();
+    }
+  }
+
+  if (updates.skills !== undefined) {
+    if (!Array.isArray(updates.skills) || updates.skills.length > MAX_SKILLS
+      || !updates.skills.every(skill => typeof skill === 'string'
+        && skill.trim().length > 0 && skill.trim().length <= MAX_SKILL_LENGTH)) {
+      throw new BadRequestError(
+        `skills must be at most ${MAX_SKILLS} non-empty strings of up to ${MAX_SKILL_LENGTH} characters`
+      );
+    }
+    set.skills = [...new Set(updates.skills.map(skill => skill.trim()))];
+  }
+
+  return { set, unset };
+}
+
+/**
+ * Users, served from a local copy of the auth service's data
+ *
+ * A user is copied into user_profiles the first time we see them and
+ * refreshed in the background once the copy is older than
+ * USER_PROFILE_REFRESH_SEC; the auth service can also push changes
+ * (see applyAuthUser). Reads only wait on the auth service when there
+ * is no local copy yet, so profile pages keep working while it is down.
+ * Hot profiles are also kept in an in-process cache.
+ *
+ * Calls to the auth service time out, retry and trip a circuit breaker
+ * (see HttpClient); failures surface as NotFoundError, UpstreamError or
+ * UpstreamTimeoutError.
+ */
 class UserService {
-  private authServiceUrl: string;
+  private authService: HttpClient;
+
+  // Syncs in flight, so a burst of reads for one user makes one request
+  private syncing = new Map<string, Promise<IUserProfile>>();
 
   constructor() {
-    this.authServiceUrl =
-      process.env.AUTH_SERVICE_URL || 'http://localhost:4000';
+    this.authService = new HttpClient({
+      name: 'auth service',
+      baseURL: env.AUTH_SERVICE_URL,
+      timeoutMs: env.AUTH_SERVICE_TIMEOUT_MS,
+      retries: env.AUTH_SERVICE_RETRIES,
+      retryBaseDelayMs: env.AUTH_SERVICE_RETRY_BASE_MS,
+      breakerThreshold: env.AUTH_SERVICE_BREAKER_THRESHOLD,
+      breakerResetMs: env.AUTH_SERVICE_BREAKER_RESET_MS
+    });
   }
 
-  async getUserById(userId: string): Promise<User> {
+  /**
+   * Get a user: the local copy if there is one, otherwise from the auth
+   * service (storing it for next time)
+   */
+  async getUserById(userId: string): Promise<UserProfileData> {
+    const cached = profileCache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    let local: IUserProfile | null = null;
+
     try {
-      // Tell TypeScript what data type we expect back
-      const response = await axios.get<User>(
-        `${this.authServiceUrl}/api/users/${userId}`
-      );
-      return response.data;
-    } catch (error: any) {
-      // Simple, version-safe Axios error check
-      if (error && error.response) {
-        if (error.response.status === 404) {
-          throw new Error('User not found');
+      local = await UserProfile.findOne({ user_id: userId });
+    } catch (error) {
+      // Our database being down shouldn't take profiles down with it
+      console.error('Error reading local user profile:', error);
+      return fromAuthUser(await this.fetchFromAuthService(userId));
+    }
+
+    if (local) {
+      if (this.isStale(local)) {
+        this.syncUser(userId).catch(error => console.error('Error refreshing user profile:', error));
+      }
+      const profile = toProfileData(local);
+      profileCache.set(userId, profile);
+      return profile;
+    }
+
+    return toProfileData(await this.syncUser(userId));
+  }
+
+  /**
+   * Look up many users at once
+   *
+   * Ids are deduplicated. Each is served from the in-process cache, then
+   * the local store, and only then from the auth service, with at most
+   * USER_BATCH_CONCURRENCY calls to it in flight.
+   *
+   * @example
+   * const { users, missing } = await userService.getUsersByIds(['user-1', 'user-2', 'user-1']);
+   */
+  async getUsersByIds(userIds: string[]): Promise<UserBatchResult> {
+    const ids = [...new Set(userIds)];
+    const found = new Map<string, UserProfileData>();
+
+    for (const id of ids) {
+      const cached = profileCache.get(id);
+      if (cached) {
+        found.set(id, cached);
+      }
+    }
+
+    let pending = ids.filter(id => !found.has(id));
+
+    if (pending.length > 0) {
+      try {
+        const locals = await UserProfile.find({ user_id: { $in: pending } });
+        const stale: string[] = [];
+
+        for (const local of locals) {
+          const profile = toProfileData(local);
+          found.set(local.user_id, profile);
+          profileCache.set(local.user_id, profile);
+          if (this.isStale(local)) {
+            stale.push(local.user_id);
+          }
+        }
+
+        if (stale.length > 0) {
+          mapWithConcurrency(stale, env.USER_BATCH_CONCURRENCY, id => this.syncUser(id)
+            .catch(error => console.error('Error refreshing user profile:', error)));
+        }
+      } catch (error) {
+        // Fall through to the auth service for everyone
+        console.error('Error reading local user profiles:', error);
+      }
+
+      pending = pending.filter(id => !found.has(id));
+    }
+
+    const missing: string[] = [];
+    const unavailable: string[] = [];
+
+    await mapWithConcurrency(pending, env.USER_BATCH_CONCURRENCY, async id => {
+      try {
+        found.set(id, toProfileData(await this.syncUser(id)));
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          missing.push(id);
+        } else {
+          console.error(`Error fetching user ${id}:`, error);
+          unavailable.push(id);
         }
-        throw new Error(`Auth service error: ${error.message}`);
       }
+    });
+
+    return {
+      users: ids.filter(id => found.has(id)).map(id => found.get(id)!),
+      missing: ids.filter(id => missing.includes(id)),
+      unavailable: ids.filter(id => unavailable.includes(id))
+    };
+  }
+
+  /**
+   * Copy a user from the auth service into the local store now
+   */
+  async syncUser(userId: string): Promise<IUserProfile> {
+    const inFlight = this.syncing.get(userId);
+    if (inFlight) {
+      return inFlight;
+    }
 
-      // Non-Axios or unexpected error
-      throw new Error('Failed to fetch user from Auth service');
+    const sync = this.fetchFromAuthService(userId)
+      .then(user => this.applyAuthUser(user))
+      .finally(() => this.syncing.delete(userId));
+
+    this.syncing.set(userId, sync);
+    return sync;
+  }
+
+  /**
+   * Store the auth service's view of a user, leaving our own fields alone
+   *
+   * Also how the auth service pushes changes (POST /users/:id/sync).
+   */
+  async applyAuthUser(user: User): Promise<IUserProfile> {
+    try {
+      const profile = await UserProfile.findOneAndUpdate(
+        { user_id: user.user_id },
+        {
+          $set: {
+            email: user.email,
+            display_name: user.display_name ?? '',
+            status: user.status,
+            auth_created_at: toDate(user.created_at),
+            auth_updated_at: toDate(user.updated_at),
+            synced_at: new Date()
+          }
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      );
+
+      profileCache.set(user.user_id, toProfileData(profile!));
+      return profile!;
+
+    } catch (error) {
+      console.error('Error storing user profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit a user's team service fields
+   *
+   * A user we have no local copy of yet is copied from the auth service
+   * first.
+   *
+   * @throws BadRequestError if a field is invalid
+   * @throws NotFoundError if the auth service doesn't know the user
+   */
+  async updateProfile(userId: string, updates: ProfileUpdates): Promise<UserProfileData> {
+    const { set, unset } = validateProfileUpdates(updates);
+
+    const update = () => UserProfile.findOneAndUpdate(
+      { user_id: userId },
+      { $set: set, $unset: unset },
+      { new: true }
+    );
+
+    let profile = await update();
+
+    if (!profile) {
+      await this.syncUser(userId);
+      profile = await update();
+    }
+
+    if (!profile) {
+      throw new NotFoundError(`User ${userId} not found`);
+    }
+
+    const data = toProfileData(profile);
+    profileCache.set(userId, data);
+    return data;
+  }
+
+  private isStale(profile: IUserProfile): boolean {
+    return Date.now() - profile.synced_at.getTime() > env.USER_PROFILE_REFRESH_SEC * 1000;
+  }
+
+  private async fetchFromAuthService(userId: string): Promise<User> {
+    try {
+      return await this.authService.get<User>(`/api/users/${encodeURIComponent(userId)}`);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new NotFoundError(`User ${userId} not found`);
+      }
+      throw error;
     }
   }
 }
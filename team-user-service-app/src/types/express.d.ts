@@ -0,0 +1,13 @@
+import { Principal } from './principal.types';
+
+// Express Request augmentation - the single source of caller identity
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+      rawBody?: Buffer;     // Exact request bytes, needed to verify body signatures
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,27 @@
+/**
+ * The authenticated caller of a request.
+ *
+ * auth.middleware.ts builds this from a verified token and attaches it to
+ * `req.principal`. Every other middleware and controller reads identity
+ * from here and nowhere else.
+ */
+
+/**
+ * Who is calling:
+ * - 'user': an end user authenticated with a JWT from the auth service
+ * - 'service': another AIMA microservice
+ */
+export type PrincipalType = 'user' | 'service';
+
+/**
+ * Raw claims from the verified token
+ */
+export type TokenClaims = Record<string, unknown>;
+
+export interface Principal {
+  id: string;              // user_id (or service name for service principals)
+  type: PrincipalType;
+  email?: string;
+  scopes: string[];        // OAuth-style scopes granted by the token
+  claims: TokenClaims;
+}
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { AuditActorType } from '../models/AuditEvent.model';
+import { getRequestId } from './logger.utils';
+
+/**
+ * Who made a change, and from where.
+ *
+ * Controllers build this from the request and pass it to the service
+ * functions that write audit events, so services stay free of Express.
+ */
+export interface AuditContext {
+  actorId: string;
+  actorType: AuditActorType;
+  requestId?: string;
+  sourceIp?: string;
+}
+
+// For changes the service makes on its own (seeding, migrations)
+export const SYSTEM_AUDIT_CONTEXT: AuditContext = {
+  actorId: 'system',
+  actorType: 'system'
+};
+
+/**
+ * Build the audit context of an authenticated request
+ */
+export function getAuditContext(req: Request): AuditContext {
+  return {
+    actorId: req.principal?.id ?? 'anonymous',
+    actorType: req.principal?.type ?? 'system',
+    requestId: getRequestId(req),
+    sourceIp: req.ip
+  };
+}
+
+// ============================================
+// HASH CHAIN
+// ============================================
+
+// prev_hash of the first event
+export const GENESIS_HASH = '0'.repeat(64);
+
+// The fields an event's hash covers
+export interface AuditHashInput {
+  sequence: number;
+  action: string;
+  actor_id: string;
+  actor_type: string;
+  target_type: string;
+  target_id: string;
+  team_id?: string;
+  before: unknown;
+  after: unknown;
+  request_id?: string;
+  source_ip?: string;
+  created_at: Date;
+  prev_hash: string;
+}
+
+export interface AuditChainBreak {
+  sequence: number;
+  problem: string;
+}
+
+/**
+ * JSON with object keys sorted, so the same content always hashes the same
+ * regardless of the key order MongoDB hands back
+ */
+export function canonicalJson(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .sort()
+      .filter(key => (value as any)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 over an event's content and the hash of the event before it
+ */
+export function computeAuditHash(event: AuditHashInput): string {
+  const content = canonicalJson({
+    sequence: event.sequence,
+    action: event.action,
+    actor_id: event.actor_id,
+    actor_type: event.actor_type,
+    target_type: event.target_type,
+    target_id: event.target_id,
+    team_id: event.team_id ?? null,
+    before: event.before ?? null,
+    after: event.after ?? null,
+    request_id: event.request_id ?? null,
+    source_ip: event.source_ip ?? null,
+    created_at: event.created_at,
+    prev_hash: event.prev_hash
+  });
+
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Check one event against the chain so far
+ *
+ * @param event - The next stored event
+ * @param expectedSequence - The sequence number that should come next
+ * @param expectedPrevHash - The stored hash of the event before it
+ * @returns Where and why the chain breaks, or null if the event fits
+ */
+export function checkAuditChainLink(
+  event: AuditHashInput & { hash: string },
+  expectedSequence: number,
+  expectedPrevHash: string
+): AuditChainBreak | null {
+  if (event.sequence !== expectedSequence) {
+    return { sequence: expectedSequence, problem: 'event is missing' };
+  }
+  if (event.prev_hash !== expectedPrevHash) {
+    return { sequence: event.sequence, problem: 'prev_hash does not match the previous event' };
+  }
+  if (computeAuditHash(event) !== event.hash) {
+    return { sequence: event.sequence, problem: 'hash does not match the event content' };
+  }
+  return null;
+}
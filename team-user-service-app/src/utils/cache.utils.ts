@@ -0,0 +1,197 @@
+/**
+ * In-process TTL cache with LRU eviction and hit/miss counters.
+ *
+ * Used to keep hot authorization lookups (role permissions, memberships)
+ * off the database. Entries expire after `ttlMs`; once `maxSize` is reached
+ * the least recently used entry is evicted.
+ *
+ * Every cache registers itself so getCacheStats() can report on all of them.
+ */
+
+export interface CacheOptions {
+  name: string;
+  ttlMs: number;      // 0 disables caching entirely
+  maxSize: number;
+}
+
+export interface CacheStats {
+  name: string;
+  size: number;
+  maxSize: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+  hitRate: number;    // 0..1, over the lifetime of the process
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+const registry = new Set<TtlCache<any, any>>();
+
+export class TtlCache<K, V> {
+  private entries = new Map<K, CacheEntry<V>>();
+  private inflight = new Map<K, Promise<V>>();
+  // Bumped on every invalidation so loads that started earlier don't store stale values
+  private generation: number = 0;
+  private hits: number = 0;
+  private misses: number = 0;
+  private evictions: number = 0;
+  private invalidations: number = 0;
+
+  constructor(private readonly options: CacheOptions) {
+    registry.add(this);
+  }
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  private lookup(key: K): CacheEntry<V> | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used (Map keeps insertion order)
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Get a cached value, or undefined on a miss
+   */
+  get(key: K): V | undefined {
+    const entry = this.lookup(key);
+    if (entry) {
+      this.hits++;
+      return entry.value;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Check whether a key is cached, without touching the counters
+   */
+  has(key: K): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && entry.expiresAt > Date.now();
+  }
+
+  set(key: K, value: V): void {
+    if (this.options.ttlMs <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.options.ttlMs });
+
+    while (this.entries.size > this.options.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Get a cached value, loading and caching it on a miss.
+   * Concurrent misses for the same key share a single load.
+   */
+  async getOrLoad(key: K, loader: () => Promise<V>): Promise<V> {
+    const entry = this.lookup(key);
+    if (entry) {
+      this.hits++;
+      return entry.value;
+    }
+    this.misses++;
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const generation = this.generation;
+    const load: Promise<V> = loader()
+      .then(value => {
+        if (generation === this.generation) {
+          this.set(key, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        // An invalidation may have started a newer load for this key meanwhile
+        if (this.inflight.get(key) === load) {
+          this.inflight.delete(key);
+        }
+      });
+
+    this.inflight.set(key, load);
+    return load;
+  }
+
+  delete(key: K): void {
+    this.generation++;
+    this.invalidations++;
+    this.entries.delete(key);
+    this.inflight.delete(key);
+  }
+
+  /**
+   * Remove every entry whose key matches the predicate
+   */
+  deleteWhere(predicate: (key: K) => boolean): void {
+    this.generation++;
+    this.invalidations++;
+    for (const key of [...this.entries.keys()]) {
+      if (predicate(key)) {
+        this.entries.delete(key);
+      }
+    }
+    for (const key of [...this.inflight.keys()]) {
+      if (predicate(key)) {
+        this.inflight.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.generation++;
+    this.invalidations++;
+    this.entries.clear();
+    this.inflight.clear();
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      name: this.options.name,
+      size: this.entries.size,
+      maxSize: this.options.maxSize,
+      ttlMs: this.options.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups
+    };
+  }
+}
+
+/**
+ * Stats for every cache in the process
+ */
+export function getCacheStats(): CacheStats[] {
+  return [...registry].map(cache => cache.stats());
+}
@@ -0,0 +1,193 @@
+/**
+ * Declarative conditions on permission grants (attribute-based access).
+ *
+ * A conditional grant only applies when every one of its conditions holds
+ * for the request being checked. Conditions compare an attribute path
+ * against a literal value or another attribute:
+ *
+ *   // operators may close incidents only below P1
+ *   { attribute: 'resource.severity', operator: 'not_in', value: ['P0', 'P1'] }
+ *
+ *   // members may edit only their own contact methods
+ *   { attribute: 'resource.owner_id', operator: 'eq', value: { ref: 'principal.id' } }
+ *
+ *   // only during the business day (UTC, wraps past midnight if from > to)
+ *   { attribute: 'env.hour', operator: 'between', value: [8, 18] }
+ *
+ * Attribute namespaces:
+ *   principal.*  the caller (id, type)
+ *   resource.*   whatever the route's attribute extractor returned
+ *   env.*        hour (0-23) and weekday (0 = Sunday), in UTC
+ *
+ * A condition on a missing attribute fails, so a grant never applies by
+ * accident when the context needed to judge it isn't available.
+ */
+
+export const CONDITION_OPERATORS = [
+  'eq', 'ne', 'in', 'not_in', 'lt', 'lte', 'gt', 'gte', 'between'
+] as const;
+
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+// A literal, or a reference to another attribute
+export type ConditionValue = unknown | { ref: string };
+
+export interface PermissionCondition {
+  attribute: string;
+  operator: ConditionOperator;
+  value: ConditionValue;
+}
+
+export interface AttributeContext {
+  principal?: Record<string, unknown>;
+  resource?: Record<string, unknown>;
+  env?: Record<string, unknown>;
+}
+
+export interface ConditionFailure {
+  condition: PermissionCondition;
+  actual: unknown;          // The attribute's value (undefined if missing)
+}
+
+const ATTRIBUTE_PATH = /^(principal|resource|env)(\.[A-Za-z0-9_]+)+$/;
+
+function isRef(value: unknown): value is { ref: string } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && typeof (value as any).ref === 'string';
+}
+
+function resolvePath(context: AttributeContext, path: string): unknown {
+  return path.split('.').reduce<any>(
+    (current, key) => (current === null || current === undefined ? undefined : current[key]),
+    context
+  );
+}
+
+function isComparable(value: unknown): value is number | string {
+  return typeof value === 'number' || typeof value === 'string';
+}
+
+/**
+ * Attributes about "now", for time-of-day conditions
+ */
+export function buildEnvironmentAttributes(now: Date = new Date()): Record<string, unknown> {
+  return {
+    hour: now.getUTCHours(),
+    weekday: now.getUTCDay()
+  };
+}
+
+/**
+ * Check conditions before they are stored on a grant
+ *
+ * @returns An error message, or null if the conditions are valid
+ */
+export function validateConditions(conditions: unknown): string | null {
+  if (!Array.isArray(conditions)) {
+    return 'conditions must be an array';
+  }
+
+  for (const [index, condition] of conditions.entries()) {
+    const where = `conditions[${index}]`;
+
+    if (typeof condition !== 'object' || condition === null) {
+      return `${where} must be an object`;
+    }
+
+    const { attribute, operator, value } = condition as any;
+
+    if (typeof attribute !== 'string' || !ATTRIBUTE_PATH.test(attribute)) {
+      return `${where}.attribute must be a path under principal., resource. or env. (e.g. "resource.owner_id")`;
+    }
+
+    if (!CONDITION_OPERATORS.includes(operator)) {
+      return `${where}.operator must be one of: ${CONDITION_OPERATORS.join(', ')}`;
+    }
+
+    if (isRef(value) && !ATTRIBUTE_PATH.test(value.ref)) {
+      return `${where}.value.ref must be an attribute path`;
+    }
+
+    if ((operator === 'in' || operator === 'not_in') && !Array.isArray(value)) {
+      return `${where}.value must be an array for '${operator}'`;
+    }
+
+    if (operator === 'between' && !(Array.isArray(value) && value.length === 2 && value.every(isComparable))) {
+      return `${where}.value must be [from, to] for 'between'`;
+    }
+
+    if (['lt', 'lte', 'gt', 'gte'].includes(operator) && !isRef(value) && !isComparable(value)) {
+      return `${where}.value must be a number or string for '${operator}'`;
+    }
+  }
+
+  return null;
+}
+
+function evaluateCondition(condition: PermissionCondition, context: AttributeContext): boolean {
+  const actual = resolvePath(context, condition.attribute);
+  const expected = isRef(condition.value) ? resolvePath(context, condition.value.ref) : condition.value;
+
+  if (actual === undefined || actual === null || expected === undefined) {
+    return false;
+  }
+
+  switch (condition.operator) {
+    case 'eq':
+      return actual === expected;
+    case 'ne':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'not_in':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'lt':
+    case 'lte':
+    case 'gt':
+    case 'gte': {
+      if (!isComparable(actual) || typeof actual !== typeof expected) {
+        return false;
+      }
+      const a = actual as number | string;
+      const b = expected as number | string;
+      return condition.operator === 'lt' ? a < b
+        : condition.operator === 'lte' ? a <= b
+        : condition.operator === 'gt' ? a > b
+        : a >= b;
+    }
+    case 'between': {
+      const [from, to] = expected as [number | string, number | string];
+      if (!isComparable(actual) || typeof actual !== typeof from) {
+        return false;
+      }
+      // [from, to) - wraps around when from > to, e.g. [22, 6] for night shifts
+      return from <= to
+        ? actual >= from && actual < to
+        : actual >= from || actual < to;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a grant's conditions against a request's attributes
+ *
+ * @returns The conditions that failed (empty when the grant applies)
+ */
+export function evaluateConditions(
+  conditions: PermissionCondition[],
+  context: AttributeContext
+): ConditionFailure[] {
+  return conditions
+    .filter(condition => !evaluateCondition(condition, context))
+    .map(condition => ({ condition, actual: resolvePath(context, condition.attribute) }));
+}
+
+/**
+ * Human-readable form of a condition, for denial messages
+ */
+export function describeCondition(condition: PermissionCondition): string {
+  const value = isRef(condition.value) ? condition.value.ref : JSON.stringify(condition.value);
+  return `${condition.attribute} ${condition.operator} ${value}`;
+}
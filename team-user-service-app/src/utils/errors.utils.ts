@@ -0,0 +1,99 @@
+/**
+ * Application Errors
+ *
+ * Services throw these instead of plain Errors so that controllers and the
+ * central error middleware can map them to HTTP responses without
+ * inspecting message text.
+ *
+ * Every error carries the HTTP status and the machine-readable code used
+ * in the `{ status, message, error }` response envelope.
+ */
+
+export class AppError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number = 500, code: string = 'INTERNAL_SERVER_ERROR') {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    // Keep instanceof working when compiled down to ES5-style classes
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string) {
+    super(message, 400, 'BAD_REQUEST');
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401, 'UNAUTHORIZED');
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'You do not have permission to perform this action') {
+    super(message, 403, 'PERMISSION_DENIED');
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(message, 404, 'NOT_FOUND');
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(message, 409, 'CONFLICT');
+  }
+}
+
+/**
+ * A service we depend on failed or answered with something unusable
+ */
+export class UpstreamError extends AppError {
+  constructor(message: string, code: string = 'UPSTREAM_ERROR') {
+    super(message, 502, code);
+  }
+}
+
+/**
+ * A service we depend on is failing, so we didn't call it (circuit open)
+ */
+export class CircuitOpenError extends UpstreamError {
+  constructor(message: string) {
+    super(message, 'UPSTREAM_UNAVAILABLE');
+  }
+}
+
+/**
+ * A service we depend on didn't answer in time
+ */
+export class UpstreamTimeoutError extends AppError {
+  constructor(message: string) {
+    super(message, 504, 'UPSTREAM_TIMEOUT');
+  }
+}
+
+/**
+ * Build the standard error envelope for an AppError
+ */
+export function toErrorBody(error: AppError) {
+  return {
+    status: 'error',
+    message: error.message,
+    error: error.code
+  };
+}
+
+/**
+ * MongoDB duplicate key error (unique index violation)
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as any).code === 11000;
+}
@@ -0,0 +1,207 @@
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, Method } from 'axios';
+import { createLogger } from './logger.utils';
+import {
+  AppError,
+  CircuitOpenError,
+  NotFoundError,
+  UpstreamError,
+  UpstreamTimeoutError
+} from './errors.utils';
+
+/**
+ * HTTP client for calls to other services.
+ *
+ * Every attempt has a timeout. Idempotent calls are retried on network
+ * errors, timeouts, 429 and 5xx, with exponential backoff and full
+ * jitter so that instances don't retry in lockstep. A circuit breaker
+ * counts consecutive failed attempts; once it opens, calls fail at once
+ * until a trial call after the reset period succeeds.
+ *
+ * Failures surface as typed errors the controllers can map:
+ * NotFoundError (404 from upstream), UpstreamTimeoutError (504) and
+ * UpstreamError / CircuitOpenError (502).
+ */
+
+export interface HttpClientOptions {
+  name: string;                   // For logs and error messages, e.g. 'auth service'
+  baseURL: string;
+  timeoutMs: number;
+  retries: number;
+  retryBaseDelayMs: number;
+  breakerThreshold: number;
+  breakerResetMs: number;
+}
+
+// Longest wait between two attempts
+const MAX_RETRY_DELAY_MS = 2000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+const logger = createLogger('http-client');
+
+type BreakerState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Consecutive-failure circuit breaker
+ *
+ * closed: calls go through. After `threshold` failures in a row it opens.
+ * open: calls are refused until `resetMs` has passed, then half-open.
+ * half-open: one trial call goes through; success closes the circuit,
+ * failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private name: string,
+    private threshold: number,
+    private resetMs: number
+  ) {}
+
+  /**
+   * Whether a call may go ahead now
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetMs) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit for ${this.name} closed`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+
+    if (this.state === 'half-open' || this.failures >= this.threshold) {
+      if (this.state !== 'open') {
+        logger.warn(`Circuit for ${this.name} opened`, { failures: this.failures, resetMs: this.resetMs });
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+    }
+  }
+
+  getState(): BreakerState {
+    return this.state;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class HttpClient {
+  private http: AxiosInstance;
+  private breaker: CircuitBreaker;
+
+  constructor(private options: HttpClientOptions) {
+    this.http = axios.create({
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs
+    });
+    this.breaker = new CircuitBreaker(options.name, options.breakerThreshold, options.breakerResetMs);
+  }
+
+  async get<T>(path: string, config: AxiosRequestConfig = {}): Promise<T> {
+    return this.request<T>('GET', path, config);
+  }
+
+  /**
+   * Make a call, retrying idempotent ones
+   *
+   * @throws NotFoundError if the upstream answers 404
+   * @throws UpstreamTimeoutError if the last attempt timed out
+   * @throws CircuitOpenError if the circuit is open
+   * @throws UpstreamError for any other failure
+   */
+  async request<T>(method: Method, path: string, config: AxiosRequestConfig = {}): Promise<T> {
+    const attempts = IDEMPOTENT_METHODS.has(method.toUpperCase()) ? this.options.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      if (!this.breaker.allowRequest()) {
+        throw new CircuitOpenError(`The ${this.options.name} is unavailable; not calling it for now`);
+      }
+
+      try {
+        const response = await this.http.request<T>({ ...config, method, url: path });
+        this.breaker.recordSuccess();
+        return response.data;
+
+      } catch (error) {
+        const retryable = this.isRetryable(error);
+
+        if (retryable) {
+          this.breaker.recordFailure();
+        } else {
+          // The upstream answered; a 4xx says nothing about its health
+          this.breaker.recordSuccess();
+        }
+
+        if (!retryable || attempt >= attempts) {
+          throw this.toAppError(error);
+        }
+
+        const ceiling = Math.min(MAX_RETRY_DELAY_MS, this.options.retryBaseDelayMs * 2 ** (attempt - 1));
+        await sleep(Math.random() * ceiling);
+      }
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+    // No response: timeout, connection refused, reset...
+    if (!error.response) {
+      return true;
+    }
+    return error.response.status >= 500 || RETRYABLE_STATUSES.has(error.response.status);
+  }
+
+  private toAppError(error: unknown): AppError {
+    if (!axios.isAxiosError(error)) {
+      return new UpstreamError(`Calling the ${this.options.name} failed`);
+    }
+
+    const axiosError = error as AxiosError;
+
+    if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+      return new UpstreamTimeoutError(`The ${this.options.name} did not respond within ${this.options.timeoutMs}ms`);
+    }
+
+    if (!axiosError.response) {
+      return new UpstreamError(`Could not reach the ${this.options.name}: ${axiosError.message}`);
+    }
+
+    if (axiosError.response.status === 404) {
+      return new NotFoundError(`Not found at the ${this.options.name}`);
+    }
+
+    return new UpstreamError(`The ${this.options.name} responded with HTTP ${axiosError.response.status}`);
+  }
+}
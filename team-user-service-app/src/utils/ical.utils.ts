@@ -0,0 +1,199 @@
+import { findOffsetTransitions, getZonedParts, timeZoneOffsetMs } from './timezone.utils';
+
+/**
+ * Minimal iCalendar (RFC 5545) writer for on-call feeds.
+ *
+ * Events are written in their schedule's time zone (DTSTART;TZID=...),
+ * and every zone used gets a VTIMEZONE whose observances are the actual
+ * UTC offset changes within the feed's range, taken from the runtime's
+ * time zone data. That keeps clients from guessing at zones they don't
+ * know, and shifts show at the wall-clock time the schedule was
+ * defined in.
+ */
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  timeZone: string;
+  summary: string;
+  description?: string;
+}
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  events: IcsEvent[];
+  from: Date;             // Range covered, for the VTIMEZONE observances
+  to: Date;
+}
+
+const PRODUCT_ID = '-//team-user-service//On-call schedules//EN';
+
+// Content lines are folded at 75 octets (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// ============================================
+// FORMATTING
+// ============================================
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet pieces, never splitting a character
+ */
+function foldLine(line: string): string {
+  const pieces: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      pieces.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  pieces.push(current);
+
+  return pieces.join('\r\n ');
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * 20260302T090000Z
+ */
+export function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Wall-clock time in a zone, without a zone designator: 20260302T100000
+ */
+export function formatLocal(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+/**
+ * UTC offset as +HHMM / -HHMM
+ */
+function formatOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '-' : '+';
+  const minutes = Math.round(Math.abs(offsetMs) / 60000);
+  return `${sign}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+// ============================================
+// COMPONENTS
+// ============================================
+
+/**
+ * VTIMEZONE for a zone, with an observance for the offset in effect at
+ * `from` and one for each change up to `to`
+ */
+function buildTimeZone(timeZone: string, from: Date, to: Date): string[] {
+  const initialOffset = timeZoneOffsetMs(from.getTime(), timeZone);
+  const transitions = findOffsetTransitions(timeZone, from, to);
+
+  // Observances with the larger offset of a pair are daylight time
+  const offsets = [initialOffset, ...transitions.map(t => t.offsetTo)];
+  const standardOffset = Math.min(...offsets);
+  const kind = (offset: number) => (offset > standardOffset ? 'DAYLIGHT' : 'STANDARD');
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  lines.push(
+    `BEGIN:${kind(initialOffset)}`,
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${formatOffset(initialOffset)}`,
+    `TZOFFSETTO:${formatOffset(initialOffset)}`,
+    `END:${kind(initialOffset)}`
+  );
+
+  for (const transition of transitions) {
+    // An observance starts at the local time it begins, read on the old offset
+    const onset = new Date(transition.at.getTime() + transition.offsetFrom);
+
+    lines.push(
+      `BEGIN:${kind(transition.offsetTo)}`,
+      `DTSTART:${formatUtc(onset).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `END:${kind(transition.offsetTo)}`
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+function buildEvent(event: IcsEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART;TZID=${event.timeZone}:${formatLocal(event.start, event.timeZone)}`,
+    `DTEND;TZID=${event.timeZone}:${formatLocal(event.end, event.timeZone)}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  lines.push('TRANSP:OPAQUE', 'END:VEVENT');
+  return lines;
+}
+
+/**
+ * Render a calendar as an iCalendar document (CRLF line endings)
+ */
+export function renderCalendar(calendar: IcsCalendar): string {
+  const stamp = new Date();
+  const timeZones = [...new Set(calendar.events.map(event => event.timeZone))].sort();
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`
+  ];
+
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  }
+
+  for (const timeZone of timeZones) {
+    lines.push(...buildTimeZone(timeZone, calendar.from, calendar.to));
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...buildEvent(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
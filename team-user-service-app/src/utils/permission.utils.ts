@@ -0,0 +1,115 @@
+/**
+ * Permission naming grammar and wildcard matching.
+ *
+ * Permission names are `resource:action`, e.g. `incident:acknowledge`.
+ * Either segment may be `*` to form a pattern grant:
+ *
+ *   team:*          every action on teams
+ *   *:read          read on every resource
+ *   *:*             everything
+ *
+ * Names from before this grammar (e.g. `edit_team`) keep working: they
+ * match exactly, and patterns match them through the resource/action
+ * stored on their Permission document.
+ */
+
+export const WILDCARD = '*';
+
+// Lowercase identifier: starts with a letter, then letters, digits or _
+const SEGMENT_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export interface PermissionTarget {
+  name: string;
+  resource: string;
+  action: string;
+}
+
+function isValidSegment(segment: string): boolean {
+  return segment === WILDCARD || SEGMENT_PATTERN.test(segment);
+}
+
+/**
+ * Split a `resource:action` name into its segments
+ *
+ * @returns The segments, or null if the name doesn't follow the grammar
+ */
+export function parsePermissionName(name: string): { resource: string; action: string } | null {
+  const parts = name.split(':');
+
+  if (parts.length !== 2 || !parts.every(isValidSegment)) {
+    return null;
+  }
+
+  return { resource: parts[0], action: parts[1] };
+}
+
+/**
+ * Whether a permission name is a pattern (contains a wildcard segment)
+ */
+export function isWildcardPermission(name: string): boolean {
+  const parsed = parsePermissionName(name);
+  return !!parsed && (parsed.resource === WILDCARD || parsed.action === WILDCARD);
+}
+
+/**
+ * Check a new permission against the naming grammar
+ *
+ * resource and action, when given, must agree with the name.
+ *
+ * @returns An error message, or null if the permission is valid
+ */
+export function validatePermissionName(
+  name: string,
+  resource?: string,
+  action?: string
+): string | null {
+  const parsed = parsePermissionName(name);
+
+  if (!parsed) {
+    return `Permission name must be 'resource:action' using lowercase letters, digits and underscores, ` +
+      `with '*' allowed as either segment (e.g. "incident:acknowledge", "team:*")`;
+  }
+
+  if (resource !== undefined && resource !== parsed.resource) {
+    return `Resource '${resource}' does not match permission name '${name}'`;
+  }
+
+  if (action !== undefined && action !== parsed.action) {
+    return `Action '${action}' does not match permission name '${name}'`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a granted permission (exact name or pattern) covers a target
+ *
+ * @param granted - A granted permission name, possibly a pattern
+ * @param target - The permission being checked
+ */
+export function permissionCovers(granted: string, target: PermissionTarget): boolean {
+  if (granted === target.name) {
+    return true;
+  }
+
+  const parsed = parsePermissionName(granted);
+
+  if (!parsed) {
+    return false; // Legacy names only ever match exactly
+  }
+
+  return (parsed.resource === WILDCARD || parsed.resource === target.resource)
+    && (parsed.action === WILDCARD || parsed.action === target.action);
+}
+
+/**
+ * Whether any permission in a set covers the target
+ */
+export function anyPermissionCovers(granted: Iterable<string>, target: PermissionTarget): boolean {
+  for (const permission of granted) {
+    if (permissionCovers(permission, target)) {
+      return true;
+    }
+  }
+  return false;
+}
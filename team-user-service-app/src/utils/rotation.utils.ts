@@ -0,0 +1,312 @@
+import {
+  DAY_MS,
+  TimeOfDay,
+  atLocalTime,
+  isValidTimeZone,
+  localDayNumber,
+  parseTimeOfDay,
+  weekdayOfDay
+} from './timezone.utils';
+
+/**
+ * On-call rotation arithmetic.
+ *
+ * A schedule has one or more layers. Each layer rotates through its
+ * participants, handing off at `handoff_time` (wall clock, in the
+ * schedule's time zone) every day or every week on `handoff_day`.
+ * The first participant is on call from `starts_at` until the first
+ * handoff after it.
+ *
+ * A layer may be limited to `active_hours` (e.g. 09:00-17:00 on
+ * weekdays). Where layers overlap, the later layer in the list wins, so
+ * a business-hours layer placed after a 24/7 layer takes over during the
+ * day and the 24/7 layer covers the rest.
+ */
+
+export const ROTATION_TYPES = ['daily', 'weekly'] as const;
+
+export type RotationType = typeof ROTATION_TYPES[number];
+
+export interface ActiveHours {
+  start: string;        // 'HH:mm'
+  end: string;          // 'HH:mm'; before start means the window runs past midnight
+  days?: number[];      // Weekdays the window starts on (0 = Sunday); all if empty
+}
+
+export interface RotationLayer {
+  name: string;
+  participants: string[];       // user_ids, in rotation order
+  rotation_type: RotationType;
+  handoff_time: string;         // 'HH:mm'
+  handoff_day?: number;         // weekly only, 0 = Sunday
+  starts_at: Date;
+  active_hours?: ActiveHours | null;
+}
+
+export interface Shift {
+  user_id: string;
+  layer: string;
+  start: Date;
+  end: Date;
+  override_id?: string;         // Set when an override, not the rotation, put them there
+}
+
+// Guards the loops below against pathological ranges
+const MAX_SHIFTS_PER_LAYER = 5000;
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Check a schedule's time zone and layers before they are stored
+ *
+ * @returns An error message, or null if they are valid
+ */
+export function validateRotationLayers(timeZone: unknown, layers: unknown): string | null {
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+    return 'time_zone must be an IANA time zone (e.g. "Europe/Berlin")';
+  }
+
+  if (!Array.isArray(layers) || layers.length === 0) {
+    return 'layers must be a non-empty array';
+  }
+
+  const names = new Set<string>();
+
+  for (const [index, layer] of layers.entries()) {
+    const where = `layers[${index}]`;
+
+    if (typeof layer !== 'object' || layer === null) {
+      return `${where} must be an object`;
+    }
+
+    const { name, participants, rotation_type, handoff_time, handoff_day, starts_at, active_hours } = layer as any;
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return `${where}.name is required`;
+    }
+    if (names.has(name)) {
+      return `${where}.name '${name}' is used by another layer`;
+    }
+    names.add(name);
+
+    if (!Array.isArray(participants) || participants.length === 0
+      || !participants.every(p => typeof p === 'string' && p.length > 0)) {
+      return `${where}.participants must be a non-empty array of user ids`;
+    }
+
+    if (!ROTATION_TYPES.includes(rotation_type)) {
+      return `${where}.rotation_type must be one of: ${ROTATION_TYPES.join(', ')}`;
+    }
+
+    if (typeof handoff_time !== 'string' || !parseTimeOfDay(handoff_time)) {
+      return `${where}.handoff_time must be 'HH:mm'`;
+    }
+
+    if (rotation_type === 'weekly' && handoff_day !== undefined
+      && !(Number.isInteger(handoff_day) && handoff_day >= 0 && handoff_day <= 6)) {
+      return `${where}.handoff_day must be 0 (Sunday) to 6 (Saturday)`;
+    }
+
+    if (starts_at === undefined || Number.isNaN(new Date(starts_at).getTime())) {
+      return `${where}.starts_at must be an ISO 8601 timestamp`;
+    }
+
+    if (active_hours !== undefined && active_hours !== null) {
+      const start = typeof active_hours.start === 'string' && parseTimeOfDay(active_hours.start);
+      const end = typeof active_hours.end === 'string' && parseTimeOfDay(active_hours.end);
+
+      if (!start || !end) {
+        return `${where}.active_hours.start and end must be 'HH:mm'`;
+      }
+      if (active_hours.start === active_hours.end) {
+        return `${where}.active_hours.start and end must differ`;
+      }
+      if (active_hours.days !== undefined && !(Array.isArray(active_hours.days)
+        && active_hours.days.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6))) {
+        return `${where}.active_hours.days must be weekdays 0 (Sunday) to 6 (Saturday)`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// SHIFT COMPUTATION
+// ============================================
+
+function clip(shift: Shift, from: Date, to: Date): Shift | null {
+  const start = shift.start > from ? shift.start : from;
+  const end = shift.end < to ? shift.end : to;
+  return start < end ? { ...shift, start, end } : null;
+}
+
+/**
+ * Windows during which a layer with active hours is on duty, within [from, to)
+ */
+function activeWindows(activeHours: ActiveHours, timeZone: string, from: Date, to: Date): Array<[Date, Date]> {
+  const start = parseTimeOfDay(activeHours.start) as TimeOfDay;
+  const end = parseTimeOfDay(activeHours.end) as TimeOfDay;
+  const wraps = end.hour * 60 + end.minute <= start.hour * 60 + start.minute;
+  const days = activeHours.days && activeHours.days.length > 0 ? new Set(activeHours.days) : null;
+
+  const windows: Array<[Date, Date]> = [];
+
+  // Start a day early: yesterday's window may run past midnight into the range
+  for (let day = localDayNumber(from, timeZone) - 1; day <= localDayNumber(to, timeZone); day++) {
+    if (days && !days.has(weekdayOfDay(day))) {
+      continue;
+    }
+
+    const windowStart = atLocalTime(day, start, timeZone);
+    const windowEnd = atLocalTime(wraps ? day + 1 : day, end, timeZone);
+    const clipped: [Date, Date] = [
+      windowStart > from ? windowStart : from,
+      windowEnd < to ? windowEnd : to
+    ];
+
+    if (clipped[0] < clipped[1]) {
+      windows.push(clipped);
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Who a single layer puts on call during [from, to), ignoring other layers
+ *
+ * @param layer - The rotation layer
+ * @param timeZone - The schedule's time zone
+ * @returns Shifts in time order, clipped to the range and the layer's
+ *          active hours
+ */
+export function computeLayerShifts(layer: RotationLayer, timeZone: string, from: Date, to: Date): Shift[] {
+  const participants = layer.participants;
+  const startsAt = new Date(layer.starts_at);
+  const rangeStart = from > startsAt ? from : startsAt;
+
+  if (participants.length === 0 || rangeStart >= to) {
+    return [];
+  }
+
+  const handoff = parseTimeOfDay(layer.handoff_time) as TimeOfDay;
+  const step = layer.rotation_type === 'weekly' ? 7 : 1;
+
+  // Local day of the first handoff strictly after starts_at
+  let firstDay = localDayNumber(startsAt, timeZone);
+  if (layer.rotation_type === 'weekly') {
+    const handoffDay = layer.handoff_day ?? 1;
+    firstDay += (handoffDay - weekdayOfDay(firstDay) + 7) % 7;
+  }
+  if (atLocalTime(firstDay, handoff, timeZone) <= startsAt) {
+    firstDay += step;
+  }
+
+  // Handoff k ends shift k and starts shift k + 1 (shift 0 starts at starts_at)
+  const handoffAt = (k: number) => atLocalTime(firstDay + k * step, handoff, timeZone);
+
+  // Find the shift in progress at rangeStart
+  let k = Math.floor((localDayNumber(rangeStart, timeZone) - firstDay) / step);
+  while (handoffAt(k + 1) <= rangeStart) k++;
+  while (k >= 0 && handoffAt(k) > rangeStart) k--;
+  k = Math.max(k, -1);
+
+  const shifts: Shift[] = [];
+
+  for (let count = 0; count < MAX_SHIFTS_PER_LAYER; count++, k++) {
+    const shift = clip({
+      user_id: participants[(k + 1) % participants.length],
+      layer: layer.name,
+      start: k < 0 ? startsAt : handoffAt(k),
+      end: handoffAt(k + 1)
+    }, rangeStart, to);
+
+    if (shift) {
+      shifts.push(shift);
+    }
+
+    if (handoffAt(k + 1) >= to) {
+      break;
+    }
+  }
+
+  if (!layer.active_hours) {
+    return shifts;
+  }
+
+  const windows = activeWindows(layer.active_hours, timeZone, rangeStart, to);
+
+  return shifts.flatMap(shift => windows
+    .map(([windowStart, windowEnd]) => clip(shift, windowStart, windowEnd))
+    .filter((s): s is Shift => s !== null));
+}
+
+/**
+ * Combine layers into the single on-call timeline of a schedule
+ *
+ * Later layers take precedence where they have someone on call. Gaps
+ * (no layer on duty) are left out of the result.
+ *
+ * @returns Non-overlapping shifts in time order; consecutive periods of
+ *          the same person on the same layer are merged
+ */
+export function resolveLayers(layers: RotationLayer[], timeZone: string, from: Date, to: Date): Shift[] {
+  return flattenShifts(layers.map(layer => computeLayerShifts(layer, timeZone, from, to)), from, to);
+}
+
+/**
+ * Flatten shift lists of increasing precedence into one timeline
+ *
+ * @param tiers - Shift lists; a shift in a later list wins over an
+ *                overlapping one in an earlier list
+ */
+export function flattenShifts(tiers: Shift[][], from: Date, to: Date): Shift[] {
+  const points = new Set<number>([from.getTime(), to.getTime()]);
+  for (const shifts of tiers) {
+    for (const shift of shifts) {
+      points.add(shift.start.getTime());
+      points.add(shift.end.getTime());
+    }
+  }
+
+  const sorted = [...points]
+    .filter(point => point >= from.getTime() && point <= to.getTime())
+    .sort((a, b) => a - b);
+
+  const timeline: Shift[] = [];
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+
+    let covering: Shift | undefined;
+    for (let tier = tiers.length - 1; tier >= 0 && !covering; tier--) {
+      covering = tiers[tier].find(s => s.start.getTime() <= start && s.end.getTime() >= end);
+    }
+
+    if (!covering) {
+      continue;
+    }
+
+    const previous = timeline[timeline.length - 1];
+    if (previous && previous.end.getTime() === start
+      && previous.user_id === covering.user_id && previous.layer === covering.layer
+      && previous.override_id === covering.override_id) {
+      previous.end = new Date(end);
+    } else {
+      timeline.push({ ...covering, start: new Date(start), end: new Date(end) });
+    }
+  }
+
+  return timeline;
+}
+
+/**
+ * Length of a range in days, for range limits
+ */
+export function rangeDays(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / DAY_MS;
+}
@@ -0,0 +1,207 @@
+/**
+ * Time zone arithmetic on top of Intl, for schedules defined in local time.
+ *
+ * "Local day numbers" count calendar days since 1970-01-01 in a zone's
+ * wall-clock calendar. Stepping by local days (rather than by 24 hours)
+ * keeps handoffs at the same wall-clock time across DST changes.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface ZonedDateParts {
+  year: number;
+  month: number;      // 1-12
+  day: number;
+  hour: number;       // 0-23
+  minute: number;
+  second: number;
+  weekday: number;    // 0 = Sunday
+}
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+// Building a DateTimeFormat is expensive; schedules reuse a handful of zones
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Whether a string is an IANA time zone this runtime knows (e.g. 'Europe/Berlin')
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse 'HH:mm' (24-hour clock)
+ *
+ * @returns The time, or null if the string isn't a valid time of day
+ */
+export function parseTimeOfDay(value: string): TimeOfDay | null {
+  const match = TIME_OF_DAY_PATTERN.exec(value);
+  return match ? { hour: Number(match[1]), minute: Number(match[2]) } : null;
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * How far a zone's wall clock is ahead of UTC at an instant, in ms
+ */
+export function timeZoneOffsetMs(timestamp: number, timeZone: string): number {
+  const wholeSeconds = Math.floor(timestamp / 1000) * 1000;
+  const p = getZonedParts(new Date(wholeSeconds), timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - wholeSeconds;
+}
+
+/**
+ * The instant at which a wall-clock time occurs in a time zone
+ *
+ * Times skipped by a DST jump resolve to the same wall-clock distance
+ * past the jump; times that occur twice resolve to one of the two.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset at our first guess may differ from the one at the answer
+  // when a DST change lies between them, so correct once
+  let guess = wallClock - timeZoneOffsetMs(wallClock, timeZone);
+  const corrected = wallClock - timeZoneOffsetMs(guess, timeZone);
+  if (corrected !== guess) {
+    guess = corrected;
+  }
+
+  return new Date(guess);
+}
+
+/**
+ * Local calendar day (days since 1970-01-01) of an instant in a time zone
+ */
+export function localDayNumber(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  return Math.floor(Date.UTC(p.year, p.month - 1, p.day) / DAY_MS);
+}
+
+/**
+ * Weekday (0 = Sunday) of a local day number
+ */
+export function weekdayOfDay(dayNumber: number): number {
+  // 1970-01-01 was a Thursday
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+/**
+ * The instant a wall-clock time occurs on a local day
+ */
+export function atLocalTime(dayNumber: number, time: TimeOfDay, timeZone: string): Date {
+  const date = new Date(dayNumber * DAY_MS);
+  return zonedTimeToUtc(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    time.hour,
+    time.minute,
+    timeZone
+  );
+}
+
+/**
+ * Instants within [from, to) at which a zone's UTC offset changes
+ *
+ * Scans day by day and narrows each change down to the minute; zones
+ * change offset at most a few times a year.
+ *
+ * @returns Transitions in time order, with the offsets either side (ms)
+ */
+export function findOffsetTransitions(
+  timeZone: string,
+  from: Date,
+  to: Date
+): Array<{ at: Date; offsetFrom: number; offsetTo: number }> {
+  const transitions: Array<{ at: Date; offsetFrom: number; offsetTo: number }> = [];
+  const minuteMs = 60 * 1000;
+
+  // Stay on whole minutes so the narrowed-down instant is exact
+  let previous = Math.floor(from.getTime() / minuteMs) * minuteMs;
+  let previousOffset = timeZoneOffsetMs(previous, timeZone);
+
+  while (previous < to.getTime()) {
+    const next = Math.min(previous + DAY_MS, to.getTime());
+    const nextOffset = timeZoneOffsetMs(next, timeZone);
+
+    if (nextOffset !== previousOffset) {
+      // The change lies in (low, high]
+      let low = previous;
+      let high = next;
+      while (high - low > minuteMs) {
+        const middle = low + Math.floor((high - low) / 2 / minuteMs) * minuteMs;
+        if (timeZoneOffsetMs(middle, timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: nextOffset });
+    }
+
+    previous = next;
+    previousOffset = nextOffset;
+  }
+
+  return transitions;
+}
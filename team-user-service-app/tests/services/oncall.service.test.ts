@@ -0,0 +1,31 @@
+import { MAX_ONCALL_RANGE_DAYS, getOnCallTimeline } from '../../src/services/oncall.service';
+import { BadRequestError } from '../../src/utils/errors.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('oncall.service', () => {
+  describe('getOnCallTimeline range checks', () => {
+    // Both are rejected before the database is touched
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it(`rejects a range longer than ${MAX_ONCALL_RANGE_DAYS} days`, async () => {
+      const from = new Date('2026-10-01T00:00:00Z');
+      const to = new Date(from.getTime() + MAX_ONCALL_RANGE_DAYS * DAY_MS + 60 * 1000);
+
+      await expect(getOnCallTimeline('team-1', from, to)).rejects.toThrow(BadRequestError);
+      await expect(getOnCallTimeline('team-1', from, to)).rejects.toThrow(/at most 90 days/);
+    });
+
+    it('rejects an empty or reversed range', async () => {
+      const at = new Date('2026-10-01T00:00:00Z');
+
+      await expect(getOnCallTimeline('team-1', at, at)).rejects.toThrow(/from must be before to/);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Permission } from '../../src/models/Permission.model';
+import { EffectivePermissions, evaluatePermission } from '../../src/services/permission.cache.service';
+import { PermissionCondition } from '../../src/utils/condition.utils';
+
+// The catalogue only matters for legacy names; keep the database out of it
+beforeAll(() => {
+  jest.spyOn(Permission, 'find').mockReturnValue({
+    lean: async () => [{ permission_name: 'edit_team', resource: 'team', action: 'edit' }]
+  } as any);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+function effective(grants: Record<string, PermissionCondition[]>, denies: string[] = []): EffectivePermissions {
+  return { grants: new Map(Object.entries(grants)), denies: new Set(denies) };
+}
+
+describe('permission.cache.service', () => {
+  describe('evaluatePermission', () => {
+    it('grants through an exact name or a pattern', async () => {
+      await expect(evaluatePermission(effective({ 'incident:*': [] }), 'incident:acknowledge'))
+        .resolves.toMatchObject({ allowed: true, reason: 'granted', matchedGrant: 'incident:*' });
+      await expect(evaluatePermission(effective({ 'team:*': [] }), 'edit_team'))
+        .resolves.toMatchObject({ allowed: true, matchedGrant: 'team:*' });
+    });
+
+    it('lets an exact deny beat a pattern grant', async () => {
+      await expect(evaluatePermission(effective({ '*:*': [] }, ['incident:acknowledge']), 'incident:acknowledge'))
+        .resolves.toEqual({
+          allowed: false,
+          reason: 'denied_by_team',
+          failedConditions: [],
+          matchedDeny: 'incident:acknowledge'
+        });
+    });
+
+    it('lets a pattern deny beat an exact grant', async () => {
+      await expect(evaluatePermission(effective({ 'incident:acknowledge': [] }, ['incident:*']), 'incident:acknowledge'))
+        .resolves.toMatchObject({ allowed: false, reason: 'denied_by_team', matchedDeny: 'incident:*' });
+      await expect(evaluatePermission(effective({ edit_team: [] }, ['*:edit']), 'edit_team'))
+        .resolves.toMatchObject({ allowed: false, reason: 'denied_by_team', matchedDeny: '*:edit' });
+    });
+
+    it('leaves permissions outside a deny pattern alone', async () => {
+      await expect(evaluatePermission(effective({ '*:*': [] }, ['incident:*']), 'team:read'))
+        .resolves.toMatchObject({ allowed: true, matchedGrant: '*:*' });
+    });
+
+    it('reports not_granted when nothing covers the permission', async () => {
+      await expect(evaluatePermission(effective({ 'team:read': [] }), 'team:delete'))
+        .resolves.toMatchObject({ allowed: false, reason: 'not_granted' });
+    });
+
+    it('allows when any one covering grant has all its conditions met', async () => {
+      const grants = effective({
+        'incident:*': [{ attribute: 'resource.severity', operator: 'eq', value: 'P3' }],
+        'incident:acknowledge': [{ attribute: 'principal.type', operator: 'eq', value: 'user' }]
+      });
+
+      await expect(evaluatePermission(grants, 'incident:acknowledge', { principal: { type: 'user' } }))
+        .resolves.toMatchObject({ allowed: true, matchedGrant: 'incident:acknowledge' });
+    });
+
+    it('reports every failed condition when no covering grant applies', async () => {
+      const grants = effective({
+        'incident:*': [{ attribute: 'resource.severity', operator: 'eq', value: 'P3' }]
+      });
+
+      const result = await evaluatePermission(grants, 'incident:acknowledge', { resource: { severity: 'P1' } });
+
+      expect(result).toMatchObject({ allowed: false, reason: 'condition_failed' });
+      expect(result.failedConditions).toEqual([
+        { condition: { attribute: 'resource.severity', operator: 'eq', value: 'P3' }, actual: 'P1' }
+      ]);
+    });
+  });
+});
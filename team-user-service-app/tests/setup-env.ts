@@ -0,0 +1,5 @@
+// env.config validates on import; give it what it needs without a .env file
+process.env.NODE_ENV = 'test';
+process.env.MONGODB_URI = process.env.MONGODB_URI ?? 'mongodb://localhost:27017/team-user-service-test';
+process.env.INTERNAL_SERVICE_SECRET = process.env.INTERNAL_SERVICE_SECRET ?? 'test-internal-service-secret-0123456789';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL ?? 'error';
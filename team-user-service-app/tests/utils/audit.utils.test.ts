@@ -0,0 +1,144 @@
+import {
+  AuditHashInput,
+  GENESIS_HASH,
+  canonicalJson,
+  checkAuditChainLink,
+  computeAuditHash
+} from '../../src/utils/audit.utils';
+
+type StoredEvent = AuditHashInput & { hash: string };
+
+// Build a valid chain the way appendEvent does
+function buildChain(count: number): StoredEvent[] {
+  const events: StoredEvent[] = [];
+
+  for (let sequence = 1; sequence <= count; sequence++) {
+    const event: AuditHashInput = {
+      sequence,
+      action: 'member.role_changed',
+      actor_id: 'admin-1',
+      actor_type: 'user',
+      target_type: 'user',
+      target_id: `user-${sequence}`,
+      team_id: 'team-1',
+      before: { role: 'viewer' },
+      after: { role: 'operator' },
+      created_at: new Date(Date.UTC(2026, 9, 19, 12, sequence)),
+      prev_hash: events.length > 0 ? events[events.length - 1].hash : GENESIS_HASH
+    };
+    events.push({ ...event, hash: computeAuditHash(event) });
+  }
+
+  return events;
+}
+
+// What verifyAuditChain does with the stored events, minus the database
+function findBreak(events: StoredEvent[]) {
+  let expectedSequence = 1;
+  let expectedPrevHash = GENESIS_HASH;
+
+  for (const event of events) {
+    const broken = checkAuditChainLink(event, expectedSequence, expectedPrevHash);
+    if (broken) {
+      return broken;
+    }
+    expectedSequence++;
+    expectedPrevHash = event.hash;
+  }
+
+  return null;
+}
+
+describe('audit.utils', () => {
+  describe('canonicalJson', () => {
+    it('ignores key order, at any depth', () => {
+      expect(canonicalJson({ b: 1, a: { d: [1, 2], c: 'x' } }))
+        .toBe(canonicalJson({ a: { c: 'x', d: [1, 2] }, b: 1 }));
+      expect(canonicalJson({ b: 1, a: 2 })).toBe('{"a":2,"b":1}');
+    });
+
+    it('keeps array order', () => {
+      expect(canonicalJson([2, 1])).not.toBe(canonicalJson([1, 2]));
+    });
+
+    it('writes dates as ISO strings and drops undefined keys', () => {
+      expect(canonicalJson({ at: new Date('2026-10-19T12:00:00Z'), gone: undefined }))
+        .toBe('{"at":"2026-10-19T12:00:00.000Z"}');
+    });
+
+    it('writes null values, and undefined array entries as null', () => {
+      expect(canonicalJson({ a: null })).toBe('{"a":null}');
+      expect(canonicalJson([undefined])).toBe('[null]');
+    });
+  });
+
+  describe('computeAuditHash', () => {
+    it('treats absent optional fields like null', () => {
+      const [event] = buildChain(1);
+      const { team_id, ...withoutTeam } = event;
+
+      expect(computeAuditHash({ ...withoutTeam })).toBe(computeAuditHash({ ...event, team_id: undefined }));
+      expect(computeAuditHash({ ...withoutTeam })).not.toBe(computeAuditHash(event));
+    });
+
+    it('does not depend on the key order of before/after', () => {
+      const [event] = buildChain(1);
+
+      expect(computeAuditHash({ ...event, after: { b: 2, a: 1 } }))
+        .toBe(computeAuditHash({ ...event, after: { a: 1, b: 2 } }));
+    });
+  });
+
+  describe('hash chain verification', () => {
+    it('accepts an untouched chain', () => {
+      expect(findBreak(buildChain(5))).toBeNull();
+    });
+
+    it('detects edited content', () => {
+      const events = buildChain(5);
+      events[2] = { ...events[2], after: { role: 'admin' } };
+
+      expect(findBreak(events)).toEqual({ sequence: 3, problem: 'hash does not match the event content' });
+    });
+
+    it('detects an edit whose hash was recomputed, at the next event', () => {
+      const events = buildChain(5);
+      const edited = { ...events[2], actor_id: 'someone-else' };
+      events[2] = { ...edited, hash: computeAuditHash(edited) };
+
+      expect(findBreak(events)).toEqual({ sequence: 4, problem: 'prev_hash does not match the previous event' });
+    });
+
+    it('detects a removed event', () => {
+      const events = buildChain(5);
+      events.splice(1, 1);
+
+      expect(findBreak(events)).toEqual({ sequence: 2, problem: 'event is missing' });
+    });
+
+    it('detects a removed event even when later sequence numbers are shifted down', () => {
+      const events = buildChain(5);
+      events.splice(1, 1);
+      events.forEach((event, index) => { event.sequence = index + 1; });
+
+      expect(findBreak(events)).toEqual({ sequence: 2, problem: 'prev_hash does not match the previous event' });
+    });
+
+    it('detects reordered events', () => {
+      const events = buildChain(5);
+      const [third, fourth] = [events[2], events[3]];
+      events[2] = { ...fourth, sequence: 3 };
+      events[3] = { ...third, sequence: 4 };
+
+      expect(findBreak(events)).toEqual({ sequence: 3, problem: 'prev_hash does not match the previous event' });
+    });
+
+    it('detects a replaced first event', () => {
+      const events = buildChain(3);
+      const forged = { ...events[0], prev_hash: 'f'.repeat(64) };
+      events[0] = { ...forged, hash: computeAuditHash(forged) };
+
+      expect(findBreak(events)).toEqual({ sequence: 1, problem: 'prev_hash does not match the previous event' });
+    });
+  });
+});
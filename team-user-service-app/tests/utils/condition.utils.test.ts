@@ -0,0 +1,141 @@
+import {
+  AttributeContext,
+  PermissionCondition,
+  buildEnvironmentAttributes,
+  describeCondition,
+  evaluateConditions,
+  validateConditions
+} from '../../src/utils/condition.utils';
+
+function holds(condition: PermissionCondition, context: AttributeContext): boolean {
+  return evaluateConditions([condition], context).length === 0;
+}
+
+const context: AttributeContext = {
+  principal: { id: 'user-1', type: 'user' },
+  resource: { owner_id: 'user-1', severity: 'P2', priority: 3, tags: null },
+  env: { hour: 23, weekday: 2 }
+};
+
+describe('condition.utils', () => {
+  describe('operators', () => {
+    it('compares with eq and ne', () => {
+      expect(holds({ attribute: 'principal.type', operator: 'eq', value: 'user' }, context)).toBe(true);
+      expect(holds({ attribute: 'principal.type', operator: 'eq', value: 'service' }, context)).toBe(false);
+      expect(holds({ attribute: 'principal.type', operator: 'ne', value: 'service' }, context)).toBe(true);
+    });
+
+    it('checks membership with in and not_in', () => {
+      expect(holds({ attribute: 'resource.severity', operator: 'in', value: ['P2', 'P3'] }, context)).toBe(true);
+      expect(holds({ attribute: 'resource.severity', operator: 'not_in', value: ['P0', 'P1'] }, context)).toBe(true);
+      expect(holds({ attribute: 'resource.severity', operator: 'not_in', value: ['P2'] }, context)).toBe(false);
+    });
+
+    it('orders numbers and strings, but never across types', () => {
+      expect(holds({ attribute: 'resource.priority', operator: 'lt', value: 4 }, context)).toBe(true);
+      expect(holds({ attribute: 'resource.priority', operator: 'lte', value: 3 }, context)).toBe(true);
+      expect(holds({ attribute: 'resource.priority', operator: 'gt', value: 3 }, context)).toBe(false);
+      expect(holds({ attribute: 'resource.severity', operator: 'gte', value: 'P1' }, context)).toBe(true);
+      expect(holds({ attribute: 'resource.priority', operator: 'lt', value: '4' }, context)).toBe(false);
+    });
+
+    it('treats between as [from, to), wrapping when from > to', () => {
+      expect(holds({ attribute: 'env.hour', operator: 'between', value: [8, 18] }, context)).toBe(false);
+      expect(holds({ attribute: 'env.hour', operator: 'between', value: [22, 6] }, context)).toBe(true);
+      expect(holds({ attribute: 'env.hour', operator: 'between', value: [22, 6] }, { env: { hour: 5 } })).toBe(true);
+      expect(holds({ attribute: 'env.hour', operator: 'between', value: [22, 6] }, { env: { hour: 6 } })).toBe(false);
+      expect(holds({ attribute: 'env.hour', operator: 'between', value: [8, 23] }, context)).toBe(false);
+    });
+
+    it('compares against another attribute through a ref', () => {
+      const ownOnly: PermissionCondition = {
+        attribute: 'resource.owner_id', operator: 'eq', value: { ref: 'principal.id' }
+      };
+
+      expect(holds(ownOnly, context)).toBe(true);
+      expect(holds(ownOnly, { ...context, principal: { id: 'user-2' } })).toBe(false);
+    });
+  });
+
+  describe('missing attributes', () => {
+    const anyOperator: PermissionCondition[] = [
+      { attribute: 'resource.team_id', operator: 'eq', value: 'team-1' },
+      { attribute: 'resource.team_id', operator: 'ne', value: 'team-1' },
+      { attribute: 'resource.team_id', operator: 'not_in', value: ['team-1'] },
+      { attribute: 'resource.team_id', operator: 'lt', value: 'z' },
+      { attribute: 'env.hour', operator: 'between', value: [0, 24] }
+    ];
+
+    it('fail every operator, including the negative ones', () => {
+      const failures = evaluateConditions(anyOperator, { principal: { id: 'user-1' } });
+
+      expect(failures.map(failure => failure.condition)).toEqual(anyOperator);
+      expect(failures.every(failure => failure.actual === undefined)).toBe(true);
+    });
+
+    it('fail when the attribute, or anything on its path, is null', () => {
+      expect(holds({ attribute: 'resource.tags', operator: 'ne', value: 'x' }, context)).toBe(false);
+      expect(holds({ attribute: 'resource.tags.first', operator: 'ne', value: 'x' }, context)).toBe(false);
+    });
+
+    it('fail when a whole namespace is absent', () => {
+      expect(holds({ attribute: 'resource.owner_id', operator: 'ne', value: 'user-2' }, {})).toBe(false);
+    });
+
+    it('fail when a ref points at a missing attribute', () => {
+      expect(holds(
+        { attribute: 'resource.owner_id', operator: 'ne', value: { ref: 'principal.missing' } },
+        context
+      )).toBe(false);
+    });
+  });
+
+  describe('evaluateConditions', () => {
+    it('returns nothing for an unconditional grant', () => {
+      expect(evaluateConditions([], {})).toEqual([]);
+    });
+
+    it('returns each failed condition with the value it saw', () => {
+      const conditions: PermissionCondition[] = [
+        { attribute: 'principal.type', operator: 'eq', value: 'user' },
+        { attribute: 'resource.severity', operator: 'in', value: ['P3'] }
+      ];
+
+      expect(evaluateConditions(conditions, context)).toEqual([{ condition: conditions[1], actual: 'P2' }]);
+    });
+  });
+
+  describe('validateConditions', () => {
+    it('accepts well-formed conditions', () => {
+      expect(validateConditions([
+        { attribute: 'resource.owner_id', operator: 'eq', value: { ref: 'principal.id' } },
+        { attribute: 'env.hour', operator: 'between', value: [22, 6] }
+      ])).toBeNull();
+    });
+
+    it('rejects malformed conditions, naming the offending one', () => {
+      expect(validateConditions('nope')).toBe('conditions must be an array');
+      expect(validateConditions([{ attribute: 'user.id', operator: 'eq', value: 1 }])).toMatch(/^conditions\[0\]\.attribute/);
+      expect(validateConditions([{ attribute: 'env.hour', operator: 'like', value: 1 }])).toMatch(/operator must be one of/);
+      expect(validateConditions([{ attribute: 'env.hour', operator: 'in', value: 1 }])).toMatch(/must be an array/);
+      expect(validateConditions([{ attribute: 'env.hour', operator: 'between', value: [1] }])).toMatch(/\[from, to\]/);
+      expect(validateConditions([{ attribute: 'env.hour', operator: 'eq', value: { ref: 'nowhere' } }]))
+        .toMatch(/value\.ref/);
+    });
+  });
+
+  describe('buildEnvironmentAttributes', () => {
+    it('uses UTC hour and weekday', () => {
+      expect(buildEnvironmentAttributes(new Date('2026-10-19T23:30:00-05:00'))).toEqual({ hour: 4, weekday: 2 });
+    });
+  });
+
+  describe('describeCondition', () => {
+    it('prints literals as JSON and refs as paths', () => {
+      expect(describeCondition({ attribute: 'resource.severity', operator: 'not_in', value: ['P0', 'P1'] }))
+        .toBe('resource.severity not_in ["P0","P1"]');
+      expect(describeCondition({ attribute: 'resource.owner_id', operator: 'eq', value: { ref: 'principal.id' } }))
+        .toBe('resource.owner_id eq principal.id');
+    });
+  });
+});
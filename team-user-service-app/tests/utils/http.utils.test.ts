@@ -0,0 +1,234 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CircuitBreaker, HttpClient, HttpClientOptions } from '../../src/utils/http.utils';
+import {
+  CircuitOpenError,
+  NotFoundError,
+  UpstreamError,
+  UpstreamTimeoutError
+} from '../../src/utils/errors.utils';
+
+describe('http.utils', () => {
+  describe('CircuitBreaker', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function openBreaker(): CircuitBreaker {
+      const breaker = new CircuitBreaker('test service', 3, 1000);
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordFailure();
+      return breaker;
+    }
+
+    it('stays closed below the failure threshold', () => {
+      const breaker = new CircuitBreaker('test service', 3, 1000);
+      breaker.recordFailure();
+      breaker.recordFailure();
+
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.allowRequest()).toBe(true);
+    });
+
+    it('only counts consecutive failures', () => {
+      const breaker = new CircuitBreaker('test service', 3, 1000);
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      breaker.recordFailure();
+      breaker.recordFailure();
+
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('opens at the threshold and refuses calls until the reset period has passed', () => {
+      const breaker = openBreaker();
+
+      expect(breaker.getState()).toBe('open');
+      expect(breaker.allowRequest()).toBe(false);
+
+      jest.advanceTimersByTime(999);
+      expect(breaker.allowRequest()).toBe(false);
+      expect(breaker.getState()).toBe('open');
+    });
+
+    it('lets exactly one trial call through once half-open', () => {
+      const breaker = openBreaker();
+      jest.advanceTimersByTime(1000);
+
+      expect(breaker.allowRequest()).toBe(true);
+      expect(breaker.getState()).toBe('half-open');
+      expect(breaker.allowRequest()).toBe(false);
+    });
+
+    it('closes when the trial call succeeds', () => {
+      const breaker = openBreaker();
+      jest.advanceTimersByTime(1000);
+      breaker.allowRequest();
+
+      breaker.recordSuccess();
+
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.allowRequest()).toBe(true);
+      expect(breaker.allowRequest()).toBe(true);
+    });
+
+    it('reopens for a full reset period when the trial call fails', () => {
+      const breaker = openBreaker();
+      jest.advanceTimersByTime(1000);
+      breaker.allowRequest();
+
+      breaker.recordFailure();
+
+      expect(breaker.getState()).toBe('open');
+      expect(breaker.allowRequest()).toBe(false);
+
+      jest.advanceTimersByTime(999);
+      expect(breaker.allowRequest()).toBe(false);
+
+      jest.advanceTimersByTime(1);
+      expect(breaker.allowRequest()).toBe(true);
+      expect(breaker.getState()).toBe('half-open');
+    });
+  });
+
+  describe('HttpClient', () => {
+    // Each request takes the next scripted response; the last one repeats
+    let script: Array<{ status: number; delayMs?: number }> = [];
+    let hits = 0;
+    let server: http.Server;
+    let baseURL: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const { status, delayMs = 0 } = script[Math.min(hits, script.length - 1)];
+        hits++;
+        setTimeout(() => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status }));
+        }, delayMs);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      script = [];
+      hits = 0;
+    });
+
+    function client(overrides: Partial<HttpClientOptions> = {}): HttpClient {
+      return new HttpClient({
+        name: 'test service',
+        baseURL,
+        timeoutMs: 1000,
+        retries: 2,
+        retryBaseDelayMs: 1,
+        breakerThreshold: 5,
+        breakerResetMs: 60 * 1000,
+        ...overrides
+      });
+    }
+
+    it('retries idempotent calls on 5xx until one succeeds', async () => {
+      script = [{ status: 503 }, { status: 500 }, { status: 200 }];
+
+      await expect(client().get('/users/1')).resolves.toEqual({ status: 200 });
+      expect(hits).toBe(3);
+    });
+
+    it('gives up after the configured retries', async () => {
+      script = [{ status: 503 }];
+
+      await expect(client().get('/users/1')).rejects.toThrow(UpstreamError);
+      expect(hits).toBe(3);
+    });
+
+    it('retries 429', async () => {
+      script = [{ status: 429 }, { status: 200 }];
+
+      await expect(client().get('/users/1')).resolves.toEqual({ status: 200 });
+      expect(hits).toBe(2);
+    });
+
+    it('does not retry non-idempotent calls', async () => {
+      script = [{ status: 503 }, { status: 200 }];
+
+      await expect(client().request('POST', '/users')).rejects.toThrow(UpstreamError);
+      expect(hits).toBe(1);
+    });
+
+    it('maps 404 to NotFoundError without retrying', async () => {
+      script = [{ status: 404 }];
+
+      await expect(client().get('/users/1')).rejects.toThrow(NotFoundError);
+      expect(hits).toBe(1);
+    });
+
+    it('does not retry other 4xx', async () => {
+      script = [{ status: 400 }];
+
+      await expect(client().get('/users/1')).rejects.toThrow('responded with HTTP 400');
+      expect(hits).toBe(1);
+    });
+
+    it('reports a timeout on the last attempt as UpstreamTimeoutError', async () => {
+      script = [{ status: 200, delayMs: 200 }];
+
+      await expect(client({ timeoutMs: 50, retries: 1 }).get('/users/1')).rejects.toThrow(UpstreamTimeoutError);
+      expect(hits).toBe(2);
+    });
+
+    it('opens the circuit after consecutive failed attempts and stops calling', async () => {
+      script = [{ status: 503 }];
+      const breakerClient = client({ retries: 0, breakerThreshold: 2 });
+
+      await expect(breakerClient.get('/users/1')).rejects.toThrow(UpstreamError);
+      await expect(breakerClient.get('/users/1')).rejects.toThrow(UpstreamError);
+      await expect(breakerClient.get('/users/1')).rejects.toThrow(CircuitOpenError);
+      expect(hits).toBe(2);
+    });
+
+    it('counts retried attempts towards the breaker within one call', async () => {
+      script = [{ status: 503 }];
+      const breakerClient = client({ retries: 5, breakerThreshold: 3 });
+
+      await expect(breakerClient.get('/users/1')).rejects.toThrow(CircuitOpenError);
+      expect(hits).toBe(3);
+    });
+
+    it('does not count 4xx answers as failures', async () => {
+      script = [{ status: 404 }];
+      const breakerClient = client({ retries: 0, breakerThreshold: 2 });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(breakerClient.get('/users/1')).rejects.toThrow(NotFoundError);
+      }
+      expect(hits).toBe(3);
+    });
+
+    it('closes the circuit again after a successful trial call', async () => {
+      script = [{ status: 503 }, { status: 200 }];
+      const breakerClient = client({ retries: 0, breakerThreshold: 1, breakerResetMs: 20 });
+
+      await expect(breakerClient.get('/users/1')).rejects.toThrow(UpstreamError);
+      await expect(breakerClient.get('/users/1')).rejects.toThrow(CircuitOpenError);
+
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      await expect(breakerClient.get('/users/1')).resolves.toEqual({ status: 200 });
+      await expect(breakerClient.get('/users/1')).resolves.toEqual({ status: 200 });
+      expect(hits).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  PermissionTarget,
+  anyPermissionCovers,
+  isWildcardPermission,
+  parsePermissionName,
+  permissionCovers,
+  validatePermissionName
+} from '../../src/utils/permission.utils';
+
+const acknowledgeIncident: PermissionTarget = {
+  name: 'incident:acknowledge',
+  resource: 'incident',
+  action: 'acknowledge'
+};
+
+// A name from before the resource:action grammar, with its catalogue entry
+const legacyEditTeam: PermissionTarget = { name: 'edit_team', resource: 'team', action: 'edit' };
+
+describe('permission.utils', () => {
+  describe('parsePermissionName', () => {
+    it('splits resource:action, with either segment a wildcard', () => {
+      expect(parsePermissionName('incident:acknowledge')).toEqual({ resource: 'incident', action: 'acknowledge' });
+      expect(parsePermissionName('*:read')).toEqual({ resource: '*', action: 'read' });
+    });
+
+    it('rejects names outside the grammar', () => {
+      expect(parsePermissionName('edit_team')).toBeNull();
+      expect(parsePermissionName('a:b:c')).toBeNull();
+      expect(parsePermissionName('Team:read')).toBeNull();
+      expect(parsePermissionName('team:re*')).toBeNull();
+      expect(parsePermissionName(':read')).toBeNull();
+    });
+  });
+
+  describe('isWildcardPermission', () => {
+    it('is true only for patterns', () => {
+      expect(isWildcardPermission('team:*')).toBe(true);
+      expect(isWildcardPermission('*:*')).toBe(true);
+      expect(isWildcardPermission('team:read')).toBe(false);
+      expect(isWildcardPermission('*')).toBe(false);
+    });
+  });
+
+  describe('validatePermissionName', () => {
+    it('requires resource and action to agree with the name', () => {
+      expect(validatePermissionName('team:read', 'team', 'read')).toBeNull();
+      expect(validatePermissionName('team:read', 'incident')).toMatch(/Resource 'incident'/);
+      expect(validatePermissionName('team:read', 'team', 'write')).toMatch(/Action 'write'/);
+      expect(validatePermissionName('edit_team')).toMatch(/resource:action/);
+    });
+  });
+
+  describe('permissionCovers', () => {
+    it('matches an exact name', () => {
+      expect(permissionCovers('incident:acknowledge', acknowledgeIncident)).toBe(true);
+      expect(permissionCovers('incident:resolve', acknowledgeIncident)).toBe(false);
+    });
+
+    it('matches resource and action wildcards', () => {
+      expect(permissionCovers('incident:*', acknowledgeIncident)).toBe(true);
+      expect(permissionCovers('*:acknowledge', acknowledgeIncident)).toBe(true);
+      expect(permissionCovers('*:*', acknowledgeIncident)).toBe(true);
+      expect(permissionCovers('team:*', acknowledgeIncident)).toBe(false);
+      expect(permissionCovers('*:read', acknowledgeIncident)).toBe(false);
+    });
+
+    it('matches legacy names exactly, and through their resource/action', () => {
+      expect(permissionCovers('edit_team', legacyEditTeam)).toBe(true);
+      expect(permissionCovers('team:*', legacyEditTeam)).toBe(true);
+      expect(permissionCovers('team:edit', legacyEditTeam)).toBe(true);
+      expect(permissionCovers('edit_team', { ...legacyEditTeam, name: 'edit_teams' })).toBe(false);
+    });
+
+    it('never treats a pattern target as granted by a narrower grant', () => {
+      expect(permissionCovers('team:read', { name: 'team:*', resource: 'team', action: '*' })).toBe(false);
+    });
+  });
+
+  describe('anyPermissionCovers', () => {
+    it('is true if any grant covers the target', () => {
+      expect(anyPermissionCovers(['team:read', '*:acknowledge'], acknowledgeIncident)).toBe(true);
+      expect(anyPermissionCovers(new Set(['team:read']), acknowledgeIncident)).toBe(false);
+      expect(anyPermissionCovers([], acknowledgeIncident)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  RotationLayer,
+  Shift,
+  computeLayerShifts,
+  rangeDays,
+  resolveLayers,
+  validateRotationLayers
+} from '../../src/utils/rotation.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function layer(overrides: Partial<RotationLayer>): RotationLayer {
+  return {
+    name: 'primary',
+    participants: ['alice', 'bob', 'carol'],
+    rotation_type: 'daily',
+    handoff_time: '09:00',
+    starts_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+// Compact form for assertions: [user, start, end]
+function summarize(shifts: Shift[]): Array<[string, string, string]> {
+  return shifts.map(shift => [shift.user_id, shift.start.toISOString(), shift.end.toISOString()]);
+}
+
+describe('rotation.utils', () => {
+  describe('validateRotationLayers', () => {
+    it('accepts a well-formed layer', () => {
+      expect(validateRotationLayers('Europe/Berlin', [layer({})])).toBeNull();
+    });
+
+    it('rejects unknown time zones, bad handoff days and empty active hours', () => {
+      expect(validateRotationLayers('Nowhere/Special', [layer({})])).toMatch(/time_zone/);
+      expect(validateRotationLayers('UTC', [layer({ rotation_type: 'weekly', handoff_day: 7 })]))
+        .toMatch(/handoff_day/);
+      expect(validateRotationLayers('UTC', [layer({ active_hours: { start: '09:00', end: '09:00' } })]))
+        .toMatch(/must differ/);
+    });
+
+    it('rejects two layers with the same name', () => {
+      expect(validateRotationLayers('UTC', [layer({}), layer({})])).toMatch(/used by another layer/);
+    });
+  });
+
+  describe('computeLayerShifts across DST changes', () => {
+    it('hands off at the same wall-clock time when the clocks go forward', () => {
+      // 09:00 CET on Friday 2026-03-27; Berlin moves to CEST early on Sunday the 29th
+      const shifts = computeLayerShifts(
+        layer({ starts_at: new Date('2026-03-27T08:00:00Z') }),
+        'Europe/Berlin',
+        new Date('2026-03-27T08:00:00Z'),
+        new Date('2026-03-31T07:00:00Z')
+      );
+
+      expect(summarize(shifts)).toEqual([
+        ['alice', '2026-03-27T08:00:00.000Z', '2026-03-28T08:00:00.000Z'],
+        ['bob', '2026-03-28T08:00:00.000Z', '2026-03-29T07:00:00.000Z'],   // 23 hours
+        ['carol', '2026-03-29T07:00:00.000Z', '2026-03-30T07:00:00.000Z'],
+        ['alice', '2026-03-30T07:00:00.000Z', '2026-03-31T07:00:00.000Z']
+      ]);
+    });
+
+    it('hands off at the same wall-clock time when the clocks go back', () => {
+      // 09:00 CEST on Friday 2026-10-23; Berlin moves to CET early on Sunday the 25th
+      const shifts = computeLayerShifts(
+        layer({ starts_at: new Date('2026-10-23T07:00:00Z') }),
+        'Europe/Berlin',
+        new Date('2026-10-23T07:00:00Z'),
+        new Date('2026-10-26T08:00:00Z')
+      );
+
+      expect(summarize(shifts)).toEqual([
+        ['alice', '2026-10-23T07:00:00.000Z', '2026-10-24T07:00:00.000Z'],
+        ['bob', '2026-10-24T07:00:00.000Z', '2026-10-25T08:00:00.000Z'],   // 25 hours
+        ['carol', '2026-10-25T08:00:00.000Z', '2026-10-26T08:00:00.000Z']
+      ]);
+    });
+
+    it('keeps a daily handoff that falls inside the skipped hour just after the jump', () => {
+      const shifts = computeLayerShifts(
+        layer({ handoff_time: '02:30', starts_at: new Date('2026-03-27T12:00:00Z') }),
+        'Europe/Berlin',
+        new Date('2026-03-28T12:00:00Z'),
+        new Date('2026-03-30T12:00:00Z')
+      );
+
+      expect(shifts.map(shift => shift.end.toISOString())).toEqual([
+        '2026-03-29T01:30:00.000Z',   // 03:30 CEST: 02:30 doesn't exist that night
+        '2026-03-30T00:30:00.000Z',   // 02:30 CEST
+        '2026-03-30T12:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('weekly rotations', () => {
+    it('hands off on handoff_day, across a DST change', () => {
+      // Monday 2026-10-19; New York leaves EDT on Sunday 2026-11-01
+      const shifts = computeLayerShifts(
+        layer({
+          rotation_type: 'weekly',
+          handoff_day: 3,
+          handoff_time: '10:00',
+          starts_at: new Date('2026-10-19T00:00:00Z')
+        }),
+        'America/New_York',
+        new Date('2026-10-19T00:00:00Z'),
+        new Date('2026-11-10T00:00:00Z')
+      );
+
+      expect(summarize(shifts)).toEqual([
+        ['alice', '2026-10-19T00:00:00.000Z', '2026-10-21T14:00:00.000Z'],  // Wednesday 10:00 EDT
+        ['bob', '2026-10-21T14:00:00.000Z', '2026-10-28T14:00:00.000Z'],
+        ['carol', '2026-10-28T14:00:00.000Z', '2026-11-04T15:00:00.000Z'],  // Wednesday 10:00 EST
+        ['alice', '2026-11-04T15:00:00.000Z', '2026-11-10T00:00:00.000Z']
+      ]);
+    });
+
+    it('hands off on Mondays when handoff_day is left out', () => {
+      const shifts = computeLayerShifts(
+        layer({ rotation_type: 'weekly', starts_at: new Date('2026-10-14T00:00:00Z') }),   // A Wednesday
+        'UTC',
+        new Date('2026-10-14T00:00:00Z'),
+        new Date('2026-10-28T00:00:00Z')
+      );
+
+      expect(shifts.map(shift => shift.end.toISOString())).toEqual([
+        '2026-10-19T09:00:00.000Z',
+        '2026-10-26T09:00:00.000Z',
+        '2026-10-28T00:00:00.000Z'
+      ]);
+    });
+
+    it('continues the rotation for a range that starts weeks after starts_at', () => {
+      const shifts = computeLayerShifts(
+        layer({ rotation_type: 'weekly', starts_at: new Date('2026-10-14T00:00:00Z') }),
+        'UTC',
+        new Date('2026-11-03T00:00:00Z'),
+        new Date('2026-11-04T00:00:00Z')
+      );
+
+      // alice until 10-19, bob until 10-26, carol until 11-02, then alice again
+      expect(summarize(shifts)).toEqual([
+        ['alice', '2026-11-03T00:00:00.000Z', '2026-11-04T00:00:00.000Z']
+      ]);
+    });
+  });
+
+  describe('active hours', () => {
+    it('runs a window past midnight when end is before start', () => {
+      const shifts = computeLayerShifts(
+        layer({ participants: ['alice'], active_hours: { start: '22:00', end: '06:00' } }),
+        'UTC',
+        new Date('2026-10-19T00:00:00Z'),
+        new Date('2026-10-21T00:00:00Z')
+      );
+
+      expect(summarize(shifts)).toEqual([
+        ['alice', '2026-10-19T00:00:00.000Z', '2026-10-19T06:00:00.000Z'],  // Sunday night's window
+        ['alice', '2026-10-19T22:00:00.000Z', '2026-10-20T06:00:00.000Z'],
+        ['alice', '2026-10-20T22:00:00.000Z', '2026-10-21T00:00:00.000Z']
+      ]);
+    });
+
+    it('matches days against the weekday a wrapping window starts on', () => {
+      const shifts = computeLayerShifts(
+        layer({ participants: ['alice'], active_hours: { start: '22:00', end: '06:00', days: [5] } }),
+        'UTC',
+        new Date('2026-10-22T00:00:00Z'),
+        new Date('2026-10-26T00:00:00Z')
+      );
+
+      // Only Friday night, running into Saturday morning
+      expect(summarize(shifts)).toEqual([
+        ['alice', '2026-10-23T22:00:00.000Z', '2026-10-24T06:00:00.000Z']
+      ]);
+    });
+
+    it('lets a later business-hours layer take over from a 24/7 layer', () => {
+      const timeline = resolveLayers(
+        [
+          layer({ name: 'night', participants: ['alice'] }),
+          layer({
+            name: 'day',
+            participants: ['bob'],
+            active_hours: { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] }
+          })
+        ],
+        'Europe/Berlin',
+        new Date('2026-10-19T00:00:00Z'),
+        new Date('2026-10-20T00:00:00Z')
+      );
+
+      expect(timeline.map(shift => [shift.user_id, shift.layer, shift.start.toISOString(), shift.end.toISOString()]))
+        .toEqual([
+          ['alice', 'night', '2026-10-19T00:00:00.000Z', '2026-10-19T07:00:00.000Z'],
+          ['bob', 'day', '2026-10-19T07:00:00.000Z', '2026-10-19T15:00:00.000Z'],
+          ['alice', 'night', '2026-10-19T15:00:00.000Z', '2026-10-20T00:00:00.000Z']
+        ]);
+    });
+  });
+
+  describe('rangeDays', () => {
+    it('measures a range in days, fractions included', () => {
+      const from = new Date('2026-10-01T00:00:00Z');
+
+      expect(rangeDays(from, new Date(from.getTime() + 90 * DAY_MS))).toBe(90);
+      expect(rangeDays(from, new Date(from.getTime() + 90 * DAY_MS + 1))).toBeGreaterThan(90);
+      expect(rangeDays(from, new Date(from.getTime() + 12 * 60 * 60 * 1000))).toBe(0.5);
+    });
+  });
+});
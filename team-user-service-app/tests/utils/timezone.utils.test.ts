@@ -0,0 +1,107 @@
+import {
+  atLocalTime,
+  findOffsetTransitions,
+  getZonedParts,
+  isValidTimeZone,
+  localDayNumber,
+  parseTimeOfDay,
+  timeZoneOffsetMs,
+  weekdayOfDay,
+  zonedTimeToUtc
+} from '../../src/utils/timezone.utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('timezone.utils', () => {
+  describe('isValidTimeZone', () => {
+    it('accepts IANA zones and rejects anything else', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('parses 24-hour HH:mm', () => {
+      expect(parseTimeOfDay('00:00')).toEqual({ hour: 0, minute: 0 });
+      expect(parseTimeOfDay('23:59')).toEqual({ hour: 23, minute: 59 });
+    });
+
+    it('rejects out-of-range and loosely formatted times', () => {
+      expect(parseTimeOfDay('24:00')).toBeNull();
+      expect(parseTimeOfDay('9:00')).toBeNull();
+      expect(parseTimeOfDay('09:60')).toBeNull();
+    });
+  });
+
+  describe('timeZoneOffsetMs', () => {
+    it('follows daylight saving time', () => {
+      expect(timeZoneOffsetMs(Date.parse('2026-01-15T12:00:00Z'), 'Europe/Berlin')).toBe(1 * HOUR_MS);
+      expect(timeZoneOffsetMs(Date.parse('2026-07-15T12:00:00Z'), 'Europe/Berlin')).toBe(2 * HOUR_MS);
+      expect(timeZoneOffsetMs(Date.parse('2026-07-15T12:00:00Z'), 'America/New_York')).toBe(-4 * HOUR_MS);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('converts ordinary wall-clock times either side of a DST change', () => {
+      expect(zonedTimeToUtc(2026, 3, 28, 9, 0, 'Europe/Berlin').toISOString()).toBe('2026-03-28T08:00:00.000Z');
+      expect(zonedTimeToUtc(2026, 3, 29, 9, 0, 'Europe/Berlin').toISOString()).toBe('2026-03-29T07:00:00.000Z');
+    });
+
+    it('moves a time skipped by the spring-forward jump past the jump', () => {
+      // 02:30 doesn't exist in Berlin on 2026-03-29; it becomes 03:30 CEST
+      expect(zonedTimeToUtc(2026, 3, 29, 2, 30, 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    });
+
+    it('resolves a time that occurs twice to one of its occurrences', () => {
+      // 02:30 happens twice in Berlin on 2026-10-25 (CEST, then CET)
+      const result = zonedTimeToUtc(2026, 10, 25, 2, 30, 'Europe/Berlin').toISOString();
+      expect(['2026-10-25T00:30:00.000Z', '2026-10-25T01:30:00.000Z']).toContain(result);
+    });
+  });
+
+  describe('local days', () => {
+    it('counts days in the zone\'s own calendar', () => {
+      const instant = new Date('2026-10-19T23:30:00Z');
+      // Already the 20th in Berlin, still the 19th in New York
+      expect(localDayNumber(instant, 'Europe/Berlin') - localDayNumber(instant, 'America/New_York')).toBe(1);
+    });
+
+    it('knows the weekday of a day number', () => {
+      expect(weekdayOfDay(0)).toBe(4); // 1970-01-01, a Thursday
+      expect(weekdayOfDay(-1)).toBe(3);
+      expect(weekdayOfDay(localDayNumber(new Date('2026-10-19T12:00:00Z'), 'UTC'))).toBe(1);
+    });
+
+    it('keeps the same wall-clock time when stepping over a DST change', () => {
+      const before = localDayNumber(new Date('2026-03-28T12:00:00Z'), 'Europe/Berlin');
+      const nine = { hour: 9, minute: 0 };
+
+      const first = atLocalTime(before, nine, 'Europe/Berlin');
+      const second = atLocalTime(before + 1, nine, 'Europe/Berlin');
+
+      expect(second.getTime() - first.getTime()).toBe(23 * HOUR_MS);
+      expect(getZonedParts(second, 'Europe/Berlin')).toMatchObject({ day: 29, hour: 9, minute: 0 });
+    });
+  });
+
+  describe('findOffsetTransitions', () => {
+    it('finds each change to the minute', () => {
+      const transitions = findOffsetTransitions(
+        'Europe/Berlin',
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2027-01-01T00:00:00Z')
+      );
+
+      expect(transitions).toEqual([
+        { at: new Date('2026-03-29T01:00:00Z'), offsetFrom: 1 * HOUR_MS, offsetTo: 2 * HOUR_MS },
+        { at: new Date('2026-10-25T01:00:00Z'), offsetFrom: 2 * HOUR_MS, offsetTo: 1 * HOUR_MS }
+      ]);
+    });
+
+    it('finds none in a zone without DST', () => {
+      expect(findOffsetTransitions('UTC', new Date('2026-01-01T00:00:00Z'), new Date('2027-01-01T00:00:00Z')))
+        .toEqual([]);
+    });
+  });
+});